@@ -0,0 +1,160 @@
+/**
+ * Action item tracking: every extracted action item is saved with its owner,
+ * due date and status, so it isn't forgotten once the summary scrolls away.
+ * An item that comes up again in a later meeting is linked to the one already
+ * tracked rather than added twice. Items are marked done from Slack or the
+ * CLI, and the scheduler reminds owners when they're due.
+ */
+import type { Config } from "./config.js";
+import type { AssigneeResolution, MeetingData, MeetingExtraction } from "./types.js";
+import { resolveDueDate, today } from "./due-dates.js";
+import { splitAssignees } from "./people.js";
+import { similarity } from "./similarity.js";
+import { postActionItemDone, postActionItemReminder } from "./slack.js";
+import {
+  completeActionItem,
+  getActionItem,
+  getActionItemSource,
+  insertActionItem,
+  linkActionItemSource,
+  listActionItems,
+  markActionItemReminded,
+  pruneActionItemSources,
+  updateActionItem,
+  type TrackedActionItem,
+} from "./state.js";
+import { toWallTime } from "./timezone.js";
+
+// Same bar as merging chunk extractions: a restatement, not just a related task
+const SAME_ITEM_THRESHOLD = 0.6;
+
+// Unassigned on either side doesn't rule a match out
+const sameOwner = (a: string | null, b: string | null): boolean => !a || !b || a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Save the meeting's action items, linking each to an open item it repeats,
+ * even one just saved from the same meeting. Returns the tracked ID of each
+ * item, in order. Safe to call again for the
+ * same meeting (retries, re-syncs): items still worded alike keep their IDs.
+ */
+export const trackActionItems = async (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  assignees: AssigneeResolution
+): Promise<number[]> => {
+  const open = await listActionItems("open");
+  const earlierIds = new Set(open.map((item) => item.id));
+  const ids: number[] = [];
+
+  for (const [index, item] of extraction.actionItems.entries()) {
+    const owner = item.assignee ?? null;
+    // Only a single owner can be reminded directly
+    const names = owner ? splitAssignees(owner) : [];
+    const ownerSlackId = names.length === 1 ? assignees.people[names[0]]?.slackUserId ?? null : null;
+    const dueDate = item.dueDate ? resolveDueDate(config, item.dueDate, meeting).date ?? null : null;
+
+    // The item this meeting linked last time, if it still reads the same
+    const linkedId = await getActionItemSource(meeting.id, index);
+    const linked = linkedId === undefined ? undefined : await getActionItem(linkedId);
+    const match =
+      linked && similarity(linked.description, item.description) >= SAME_ITEM_THRESHOLD
+        ? linked
+        : open.find(
+            (candidate) =>
+              sameOwner(candidate.owner, owner) &&
+              similarity(candidate.description, item.description) >= SAME_ITEM_THRESHOLD
+          );
+
+    let id: number;
+    if (match) {
+      // What the later meeting says wins, but it doesn't erase what it left out
+      id = match.id;
+      const slackUserId = ownerSlackId ?? (owner?.toLowerCase() === match.owner?.toLowerCase() ? match.ownerSlackId : null);
+      await updateActionItem(id, {
+        priority: item.priority,
+        ...(owner ? { owner, ownerSlackId: slackUserId } : {}),
+        ...(item.dueDate ? { dueText: item.dueDate, dueDate } : {}),
+      });
+    } else {
+      id = await insertActionItem({
+        description: item.description,
+        owner,
+        ownerSlackId,
+        priority: item.priority,
+        dueText: item.dueDate ?? null,
+        dueDate,
+        slackChannel: config.slackChannelId,
+      });
+      // A restatement later in the same meeting links to it rather than being added again
+      const inserted = await getActionItem(id);
+      if (inserted) open.push(inserted);
+    }
+
+    await linkActionItemSource(meeting.id, index, id, meeting.title);
+    ids.push(id);
+  }
+
+  await pruneActionItemSources(meeting.id, extraction.actionItems.length);
+  const linkedCount = ids.filter((id) => earlierIds.has(id)).length;
+  console.log(`📌 Tracking ${ids.length} action items${linkedCount > 0 ? ` (${linkedCount} from earlier meetings)` : ""}`);
+  return ids;
+};
+
+/**
+ * Mark an item done. From Slack, `thread` is the message the click came from;
+ * a reply there says who closed it.
+ */
+export const markActionItemDone = async (
+  config: Config,
+  id: number,
+  doneBy: string,
+  thread?: { channel: string; ts: string }
+): Promise<TrackedActionItem | undefined> => {
+  if (!(await completeActionItem(id, doneBy))) {
+    console.warn(`   ⚠️  Action item #${id} doesn't exist or is already done`);
+    return undefined;
+  }
+
+  const item = (await getActionItem(id))!;
+  console.log(`   ✅ Action item #${id} done: "${item.description}" (${doneBy})`);
+  if (thread) await postActionItemDone(config, thread.channel, thread.ts, item, doneBy);
+  return item;
+};
+
+/**
+ * Remind owners of open items due today or earlier, once a day from
+ * ACTION_REMINDER_TIME on. Items are sent as one message per recipient: the
+ * owner by DM, or the meeting's channel when the owner has no Slack user or
+ * reminders go to channels.
+ */
+export const sendDueReminders = async (config: Config, now = new Date()): Promise<void> => {
+  if (config.actionReminders === "off") return;
+
+  const wall = new Date(toWallTime(now, config.calendarTimeZone));
+  const [hour, minute] = config.actionReminderTime.split(":").map(Number);
+  if (wall.getUTCHours() * 60 + wall.getUTCMinutes() < hour * 60 + minute) return;
+
+  const day = today(config.calendarTimeZone, now);
+  const due = (await listActionItems("open")).filter(
+    (item) => item.dueDate && item.dueDate <= day && item.remindedOn !== day
+  );
+  if (due.length === 0) return;
+
+  const batches = new Map<string, TrackedActionItem[]>();
+  for (const item of due) {
+    const recipient = config.actionReminders === "dm" && item.ownerSlackId ? item.ownerSlackId : item.slackChannel;
+    batches.set(recipient, [...(batches.get(recipient) ?? []), item]);
+  }
+
+  console.log(`⏰ Sending reminders for ${due.length} due action item(s)...`);
+  for (const [recipient, items] of batches) {
+    try {
+      await postActionItemReminder(config, recipient, items, day);
+      for (const item of items) await markActionItemReminded(item.id, day);
+    } catch (err) {
+      // Not marked, so the next refresh tries again
+      console.error(`   ❌ Failed to send reminders to ${recipient}:`, err);
+    }
+  }
+};
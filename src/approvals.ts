@@ -0,0 +1,215 @@
+/**
+ * Approval mode: tickets are proposed in Slack and only filed in the tracker once
+ * someone clicks Approve (or edits and saves). Proposals are persisted so
+ * approvals still work after a restart.
+ */
+import { randomUUID } from "crypto";
+import type { Config } from "./config.js";
+import type { AssigneeResolution, EngineeringTicket, MeetingData, MeetingExtraction } from "./types.js";
+import { fileTicket } from "./tickets.js";
+import { applyRoute } from "./routing.js";
+import { describeTracker } from "./tracker.js";
+import { awaitsDecision, type Proposal } from "./proposals.js";
+import { postApprovalRequest, updateApprovalMessage } from "./slack.js";
+import { addRunTicketKey, getProposal, linkSyncedTicket, saveProposal, updateProposal } from "./state.js";
+import { exportProcessedMeeting } from "./export.js";
+import { OutcomeUnknownError } from "./http.js";
+import { createNotifiers, sendNotifications } from "./notifications.js";
+import type { MeetingNotification } from "./notifier.js";
+
+export type TicketDecision =
+  | { type: "approve" }
+  | { type: "reject" }
+  | { type: "edit"; changes: Partial<Pick<EngineeringTicket, "summary" | "description" | "priority" | "acceptanceCriteria">> };
+
+// Guards against double-clicks filing the same ticket twice
+const inFlight = new Set<string>();
+
+/** Post the proposal message and persist it. Returns the proposal. */
+export const proposeTickets = async (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  assignees: AssigneeResolution,
+  actionItemIds?: number[]
+): Promise<Proposal> => {
+  const proposal: Proposal = {
+    id: randomUUID(),
+    routeName: config.routeName,
+    channel: config.slackChannelId,
+    ts: "",
+    // The transcript isn't needed to file tickets and would bloat the store; only the
+    // export, rewritten as tickets are filed, and the webhook's outcome event want it
+    meeting: {
+      ...meeting,
+      transcript: config.exportDir || config.notifiers.includes("webhook") ? meeting.transcript : "",
+      transcriptSegments: [],
+    },
+    extraction,
+    assignees,
+    actionItemIds,
+    tickets: extraction.engineeringTickets.map((ticket) => ({ ticket, status: "pending" })),
+    createdAt: new Date().toISOString(),
+  };
+
+  proposal.ts = await postApprovalRequest(config, proposal);
+  if (proposal.tickets.length > 0) await saveProposal(proposal);
+  return proposal;
+};
+
+// File into the same project/channel the meeting was routed to
+const routedConfig = (baseConfig: Config, proposal: Proposal): Config =>
+  applyRoute(baseConfig, baseConfig.routes.find((r) => r.name === proposal.routeName));
+
+const otherNotifiers = (config: Config) => createNotifiers(config).filter((notifier) => notifier.kind !== "slack");
+
+/**
+ * Apply `change` to the latest stored copy — other tickets may have been decided
+ * meanwhile — and drop the proposal once every ticket is filed or rejected and
+ * every notifier has the outcome. Returns that copy.
+ */
+const storeProposal = (config: Config, proposal: Proposal, change: (latest: Proposal) => void): Promise<Proposal> => {
+  const notifiers = otherNotifiers(config);
+  return updateProposal(proposal, (latest) => {
+    change(latest);
+    const decided = !latest.tickets.some(awaitsDecision);
+    const announced = notifiers.every((notifier) => latest.notified?.decided[notifier.kind] !== undefined);
+    return !(decided && announced);
+  });
+};
+
+/**
+ * Tell the route's other notifiers what the Slack message shows: how many tickets
+ * await review, then the filed tickets once every one is decided. Only notifiers
+ * without this stage yet are sent to, so one that failed is retried on the next
+ * decision or from the message's Retry button. Returns the stored proposal.
+ */
+export const notifyProposal = async (config: Config, proposal: Proposal): Promise<Proposal> => {
+  const notifiers = otherNotifiers(config);
+  const notified = proposal.notified ?? { proposed: {}, decided: {} };
+  const pending = proposal.tickets.filter(awaitsDecision).length;
+  const sent = pending > 0 ? notified.proposed : notified.decided;
+  const record = (latest: Proposal) => {
+    latest.notified = notified;
+    latest.unsent = notifiers.filter((notifier) => sent[notifier.kind] === undefined).map((notifier) => notifier.kind);
+  };
+
+  const notification: MeetingNotification = {
+    meeting: proposal.meeting,
+    extraction: proposal.extraction,
+    tickets: proposal.tickets.flatMap((t) => (t.result ? [t.result] : [])),
+    assignees: proposal.assignees,
+    actionItemIds: proposal.actionItemIds,
+    ...(pending > 0 ? { proposedTickets: pending } : {}),
+  };
+  await sendNotifications(notifiers, notification, sent, {
+    onSent: async () => {
+      await storeProposal(config, proposal, (latest) => (latest.notified = notified));
+    },
+  });
+  return storeProposal(config, proposal, record);
+};
+
+const applyDecision = async (
+  baseConfig: Config,
+  proposal: Proposal,
+  index: number,
+  decision: TicketDecision,
+  userId: string
+): Promise<void> => {
+  const proposed = proposal.tickets[index];
+  // As extracted, before any edit — that's how the synced document knows it
+  const extractedSummary = proposal.extraction.engineeringTickets[index].summary;
+
+  const config = routedConfig(baseConfig, proposal);
+  proposed.decidedBy = userId;
+
+  if (decision.type === "reject") {
+    proposed.status = "rejected";
+    delete proposed.error;
+    console.log(`   🚫 Rejected "${proposed.ticket.summary}" (${userId})`);
+  } else {
+    if (decision.type === "edit") {
+      proposed.ticket = { ...proposed.ticket, ...decision.changes };
+    }
+
+    // Stored as failed and uncertain until the tracker answers, so an approval cut
+    // short by a restart can be approved again, edits included, without filing twice
+    const { uncertain } = proposed;
+    proposed.status = "failed";
+    proposed.error = "filing didn't finish";
+    proposed.uncertain = true;
+    await storeProposal(config, proposal, (latest) => (latest.tickets[index] = proposed));
+
+    try {
+      const result = await fileTicket(config, proposed.ticket, proposal.meeting, proposal.assignees, { uncertain });
+      proposed.status = "approved";
+      proposed.result = result;
+      delete proposed.error;
+      delete proposed.uncertain;
+      await addRunTicketKey(proposal.meeting.id, result.key);
+      await linkSyncedTicket(proposal.meeting.id, extractedSummary, result);
+    } catch (err) {
+      console.error(`  ❌ Failed to create ticket "${proposed.ticket.summary}":`, err);
+      proposed.error = `${describeTracker(config)}: ${err instanceof Error ? err.message : String(err)}`;
+      proposed.uncertain = uncertain || err instanceof OutcomeUnknownError;
+    }
+  }
+
+  const stored = await storeProposal(config, proposal, (latest) => (latest.tickets[index] = proposed));
+  const latest = await notifyProposal(config, stored);
+  await updateApprovalMessage(config, latest);
+
+  // The pipeline exported the meeting before anything was approved
+  if (proposed.result) {
+    const filed = latest.tickets.flatMap((t) => (t.result ? [t.result] : []));
+    await exportProcessedMeeting(config, latest.meeting, latest.extraction, filed);
+  }
+};
+
+/**
+ * Apply a reviewer's decision to one proposed ticket, file it if approved,
+ * and refresh the Slack message. A ticket that failed to file takes a decision
+ * again, which retries it; decisions on filed or rejected tickets are ignored.
+ */
+export const decideTicket = async (
+  baseConfig: Config,
+  proposalId: string,
+  index: number,
+  decision: TicketDecision,
+  userId: string
+): Promise<void> => {
+  const proposal = await getProposal(proposalId);
+  const proposed = proposal?.tickets[index];
+  if (!proposal || !proposed) {
+    console.warn(`   ⚠️  Unknown proposal ticket ${proposalId}:${index} — already handled?`);
+    return;
+  }
+  const ref = `${proposalId}:${index}`;
+  if (!awaitsDecision(proposed) || inFlight.has(ref)) return;
+  inFlight.add(ref);
+
+  try {
+    await applyDecision(baseConfig, proposal, index, decision, userId);
+  } finally {
+    inFlight.delete(ref);
+  }
+};
+
+/** The Retry button: send to the notifiers the last attempt failed to reach. */
+export const retryProposal = async (baseConfig: Config, proposalId: string): Promise<void> => {
+  const proposal = await getProposal(proposalId);
+  if (!proposal) {
+    console.warn(`   ⚠️  Unknown proposal ${proposalId} — already handled?`);
+    return;
+  }
+  if (inFlight.has(proposalId)) return;
+  inFlight.add(proposalId);
+
+  try {
+    const config = routedConfig(baseConfig, proposal);
+    await updateApprovalMessage(config, await notifyProposal(config, proposal));
+  } finally {
+    inFlight.delete(proposalId);
+  }
+};
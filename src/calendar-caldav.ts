@@ -0,0 +1,241 @@
+/**
+ * Reads calendar events from a CalDAV server (Nextcloud, Radicale, Fastmail,
+ * iCloud app passwords, ...) over plain HTTP with basic auth.
+ *
+ * CALDAV_URL may point at a single calendar collection or at a calendar home
+ * set; in the latter case every child calendar is read.
+ *
+ * Sync is incremental: a collection whose CTag hasn't changed is served from
+ * cache, otherwise a calendar-query REPORT lists hrefs + ETags in range and
+ * only new or changed resources are downloaded with calendar-multiget.
+ */
+import type { CalendarEvent, CalendarSource } from "./calendar.js";
+import { toCalendarEvent } from "./calendar-ics.js";
+import { expandEvents, parseIcs, type IcsComponent } from "./ics.js";
+import { HttpError, request } from "./http.js";
+
+export interface CalDavConfig {
+  url: string;
+  username: string;
+  password: string;
+}
+
+interface CachedResource {
+  etag: string;
+  calendars: IcsComponent[];
+}
+
+interface Collection {
+  url: string;
+  name: string;
+  ctag?: string;
+  /** Range the cached resources were fetched for, as "start/end" ISO strings */
+  syncedRange?: string;
+  resources: Map<string, CachedResource>;
+}
+
+interface DavResponse {
+  href: string;
+  body: string;
+}
+
+// Server-side time-range filtering is coarse, so ask for a little either side
+const RANGE_PADDING_MS = 24 * 60 * 60 * 1000;
+const MULTIGET_BATCH = 50;
+
+// ── XML helpers ────────────────────────────────────────────────────
+// Multistatus responses are simple enough that a few regexes beat a parser
+// dependency. Namespace prefixes vary by server (d:, D:, none), so ignore them.
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+
+const findAll = (xml: string, tag: string): string[] => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, "g");
+  return [...xml.matchAll(pattern)].map((m) => m[1]);
+};
+
+const findFirst = (xml: string, tag: string): string | undefined => {
+  const found = findAll(xml, tag)[0];
+  return found === undefined ? undefined : decodeXml(found.trim());
+};
+
+const hasElement = (xml: string, tag: string): boolean =>
+  new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*/?>`).test(xml);
+
+const parseMultistatus = (xml: string): DavResponse[] =>
+  findAll(xml, "response").map((body) => ({ href: findFirst(body, "href") ?? "", body }));
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const toCalDavTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// ── Source ─────────────────────────────────────────────────────────
+
+export const createCalDavCalendarSource = (config: CalDavConfig, defaultTimeZone?: string): CalendarSource => {
+  const authHeader = `Basic ${Buffer.from(`${config.username}:${config.password}`).toString("base64")}`;
+  let collections: Collection[] | null = null;
+
+  const davRequest = async (url: string, method: string, depth: "0" | "1", body: string): Promise<string> => {
+    const response = await request("caldav", url, {
+      method,
+      headers: {
+        Authorization: authHeader,
+        "Content-Type": "application/xml; charset=utf-8",
+        Depth: depth,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new HttpError("caldav", response.status, `CalDAV ${method} ${url} failed (${response.status}): ${await response.text()}`);
+    }
+    return response.text();
+  };
+
+  const discoverCollections = async (): Promise<Collection[]> => {
+    const xml = await davRequest(config.url, "PROPFIND", "1", `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop><d:resourcetype/><d:displayname/><cs:getctag/></d:prop>
+</d:propfind>`);
+
+    const found = parseMultistatus(xml)
+      .filter((r) => hasElement(findFirst(r.body, "resourcetype") ?? "", "calendar"))
+      .map((r) => {
+        const url = new URL(r.href, config.url).toString();
+        return {
+          url,
+          name: findFirst(r.body, "displayname") || decodeURIComponent(url.replace(/\/$/, "").split("/").pop() ?? url),
+          resources: new Map<string, CachedResource>(),
+        };
+      });
+
+    if (found.length === 0) {
+      throw new Error(`No calendar collections found at ${config.url}. Point CALDAV_URL at a calendar or calendar home.`);
+    }
+
+    console.log(`   CalDAV: found ${found.length} calendar(s): ${found.map((c) => c.name).join(", ")}`);
+    return found;
+  };
+
+  const fetchCtag = async (collection: Collection): Promise<string | undefined> => {
+    const xml = await davRequest(collection.url, "PROPFIND", "0", `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop><cs:getctag/></d:prop>
+</d:propfind>`);
+    return findFirst(xml, "getctag") || undefined;
+  };
+
+  const listEtags = async (collection: Collection, rangeStart: Date, rangeEnd: Date): Promise<Map<string, string>> => {
+    const xml = await davRequest(collection.url, "REPORT", "1", `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${toCalDavTime(rangeStart)}" end="${toCalDavTime(rangeEnd)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`);
+
+    const etags = new Map<string, string>();
+    for (const response of parseMultistatus(xml)) {
+      const etag = findFirst(response.body, "getetag");
+      if (response.href && etag) etags.set(new URL(response.href, collection.url).toString(), etag);
+    }
+    return etags;
+  };
+
+  const multiget = async (collection: Collection, urls: string[]): Promise<Map<string, CachedResource>> => {
+    const fetched = new Map<string, CachedResource>();
+
+    for (let i = 0; i < urls.length; i += MULTIGET_BATCH) {
+      const hrefs = urls
+        .slice(i, i + MULTIGET_BATCH)
+        .map((u) => `<d:href>${escapeXml(new URL(u).pathname)}</d:href>`)
+        .join("\n  ");
+
+      const xml = await davRequest(collection.url, "REPORT", "1", `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  ${hrefs}
+</c:calendar-multiget>`);
+
+      for (const response of parseMultistatus(xml)) {
+        const data = findFirst(response.body, "calendar-data");
+        if (!data) continue;
+        fetched.set(new URL(response.href, collection.url).toString(), {
+          etag: findFirst(response.body, "getetag") ?? "",
+          calendars: parseIcs(data),
+        });
+      }
+    }
+
+    return fetched;
+  };
+
+  const syncCollection = async (collection: Collection, rangeStart: Date, rangeEnd: Date): Promise<void> => {
+    const rangeKey = `${rangeStart.toISOString()}/${rangeEnd.toISOString()}`;
+    const ctag = await fetchCtag(collection).catch(() => undefined);
+    if (ctag && ctag === collection.ctag && rangeKey === collection.syncedRange) return;
+
+    const etags = await listEtags(
+      collection,
+      new Date(rangeStart.getTime() - RANGE_PADDING_MS),
+      new Date(rangeEnd.getTime() + RANGE_PADDING_MS)
+    );
+
+    // Drop anything no longer in range, fetch only what's new or changed
+    for (const url of collection.resources.keys()) {
+      if (!etags.has(url)) collection.resources.delete(url);
+    }
+    const changed = [...etags].filter(([url, etag]) => collection.resources.get(url)?.etag !== etag).map(([url]) => url);
+
+    if (changed.length > 0) {
+      for (const [url, resource] of await multiget(collection, changed)) {
+        collection.resources.set(url, resource);
+      }
+    }
+
+    collection.ctag = ctag;
+    collection.syncedRange = rangeKey;
+  };
+
+  const fetchEvents = async (rangeStart: Date, rangeEnd: Date): Promise<CalendarEvent[]> => {
+    collections ??= await discoverCollections();
+    const events: CalendarEvent[] = [];
+
+    for (const collection of collections) {
+      try {
+        await syncCollection(collection, rangeStart, rangeEnd);
+      } catch (err) {
+        // Serve whatever we had cached rather than dropping the whole calendar
+        console.error(`❌ CalDAV sync failed for "${collection.name}":`, err);
+      }
+
+      for (const resource of collection.resources.values()) {
+        for (const calendar of resource.calendars) {
+          for (const occurrence of expandEvents(calendar, rangeStart, rangeEnd, defaultTimeZone)) {
+            if (occurrence.end.getTime() <= occurrence.start.getTime()) continue;
+            events.push(toCalendarEvent(occurrence, collection.name));
+          }
+        }
+      }
+    }
+
+    return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  };
+
+  return { name: "caldav", fetchEvents };
+};
@@ -0,0 +1,145 @@
+/**
+ * Reads calendar events from local iCalendar files.
+ *
+ * Each configured path may be a single .ics file (an exported feed) or a
+ * directory. Directories are walked recursively for .ics files, which covers
+ * vdir layouts (vdirsyncer, khal) where every event is its own file and each
+ * calendar is a subfolder with an optional `displayname` file.
+ */
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import type { CalendarAttendee, CalendarEvent, CalendarSource } from "./calendar.js";
+import {
+  expandEvents,
+  getProperties,
+  getProperty,
+  getText,
+  parseIcs,
+  type IcsComponent,
+  type IcsOccurrence,
+  type IcsProperty,
+} from "./ics.js";
+
+const MAX_DEPTH = 4;
+
+// Zoom, Meet, Teams, Webex and Whereby links found in LOCATION or DESCRIPTION
+const CONFERENCE_URL_PATTERN =
+  /https:\/\/(?:[\w-]+\.)?(?:zoom\.us|meet\.google\.com|teams\.microsoft\.com|teams\.live\.com|webex\.com|whereby\.com)\/[^\s"<>]+/i;
+
+// ── VEVENT → CalendarEvent ─────────────────────────────────────────
+
+const toAttendee = (prop: IcsProperty): CalendarAttendee | null => {
+  const email = prop.value.replace(/^mailto:/i, "").trim();
+  if (!email) return null;
+  return {
+    email: email.toLowerCase(),
+    name: prop.params.CN || undefined,
+    role: prop.params.ROLE || undefined,
+    status: prop.params.PARTSTAT || undefined,
+  };
+};
+
+const findConferenceUrl = (event: IcsComponent, location?: string): string | undefined => {
+  const explicit =
+    getText(event, "X-GOOGLE-CONFERENCE") ??
+    getText(event, "X-MICROSOFT-SKYPETEAMSMEETINGURL") ??
+    getProperties(event, "CONFERENCE")[0]?.value;
+  if (explicit) return explicit;
+
+  const url = getProperty(event, "URL")?.value;
+  if (url && CONFERENCE_URL_PATTERN.test(url)) return url;
+
+  const haystack = `${location ?? ""}\n${getText(event, "DESCRIPTION") ?? ""}`;
+  return haystack.match(CONFERENCE_URL_PATTERN)?.[0];
+};
+
+/** Shared by every iCalendar-based source (local files, CalDAV). */
+export const toCalendarEvent = (occurrence: IcsOccurrence, calendarName: string): CalendarEvent => {
+  const { event } = occurrence;
+  const organizerProp = getProperty(event, "ORGANIZER");
+  const location = getText(event, "LOCATION") || undefined;
+
+  return {
+    // Recurring instances get their own ID so each day is tracked separately
+    id: occurrence.recurrenceId
+      ? `${occurrence.uid}@${occurrence.recurrenceId.toISOString()}`
+      : occurrence.uid,
+    summary: getText(event, "SUMMARY") ?? "(untitled)",
+    start: occurrence.start,
+    end: occurrence.end,
+    calendarName,
+    attendees: getProperties(event, "ATTENDEE")
+      .map(toAttendee)
+      .filter((a): a is CalendarAttendee => a !== null),
+    organizer: organizerProp ? toAttendee(organizerProp) ?? undefined : undefined,
+    location,
+    conferenceUrl: findConferenceUrl(event, location),
+    recurrenceId: occurrence.recurrenceId?.toISOString(),
+  };
+};
+
+// ── Local files ────────────────────────────────────────────────────
+
+const collectIcsFiles = (path: string, depth = 0): string[] => {
+  if (!existsSync(path)) {
+    console.warn(`⚠️  ICS path not found: ${path}`);
+    return [];
+  }
+
+  const stats = statSync(path);
+  if (stats.isFile()) return [path];
+  if (!stats.isDirectory() || depth > MAX_DEPTH) return [];
+
+  return readdirSync(path, { withFileTypes: true }).flatMap((entry) => {
+    const full = join(path, entry.name);
+    if (entry.isDirectory()) return collectIcsFiles(full, depth + 1);
+    return extname(entry.name).toLowerCase() === ".ics" ? [full] : [];
+  });
+};
+
+const readDisplayName = (dir: string): string | undefined => {
+  const file = join(dir, "displayname");
+  if (!existsSync(file)) return undefined;
+  const name = readFileSync(file, "utf-8").trim();
+  return name || undefined;
+};
+
+// Exported feeds are named after the file; vdir entries after their folder
+const calendarNameFor = (file: string, fromDirectory: boolean, calendar: IcsComponent): string =>
+  getText(calendar, "X-WR-CALNAME") ??
+  readDisplayName(dirname(file)) ??
+  (fromDirectory ? basename(dirname(file)) : basename(file, extname(file)));
+
+export const createIcsCalendarSource = (paths: string[], defaultTimeZone?: string): CalendarSource => {
+  const fetchEvents = async (rangeStart: Date, rangeEnd: Date): Promise<CalendarEvent[]> => {
+    const files = new Map<string, boolean>();
+    for (const path of paths) {
+      const fromDirectory = existsSync(path) && statSync(path).isDirectory();
+      for (const file of collectIcsFiles(path)) files.set(file, fromDirectory);
+    }
+
+    const events: CalendarEvent[] = [];
+    for (const [file, fromDirectory] of files) {
+      let calendars: IcsComponent[];
+      try {
+        calendars = parseIcs(readFileSync(file, "utf-8"));
+      } catch (err) {
+        console.warn(`⚠️  Failed to read ${file}:`, err);
+        continue;
+      }
+
+      for (const calendar of calendars) {
+        const calendarName = calendarNameFor(file, fromDirectory, calendar);
+
+        for (const occurrence of expandEvents(calendar, rangeStart, rangeEnd, defaultTimeZone)) {
+          if (occurrence.end.getTime() <= occurrence.start.getTime()) continue;
+          events.push(toCalendarEvent(occurrence, calendarName));
+        }
+      }
+    }
+
+    return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  };
+
+  return { name: "ics", fetchEvents };
+};
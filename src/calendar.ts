@@ -1,18 +1,26 @@
 /**
- * Reads calendar events directly from the macOS Calendar SQLite database.
- * No API keys, no OAuth, no network calls.
+ * Calendar source abstraction. The scheduler only sees `CalendarEvent`s;
+ * where they come from is picked by `CALENDAR_SOURCE`:
  *
- * The database lives at:
- *   ~/Library/Group Containers/group.com.apple.calendar/Calendar.sqlitedb
- *   (fallback: ~/Library/Calendars/Calendar.sqlitedb)
- *
- * Core Data stores dates as seconds since Jan 1, 2001 (the "Apple epoch").
- * We convert to JS Date objects by adding the offset.
+ *   macos  — Calendar.app's local SQLite database (default on macOS)
+ *   ics    — local .ics files or vdir folders (default elsewhere)
+ *   caldav — a CalDAV server (Nextcloud, Radicale, Fastmail, ...)
  */
-import { execSync } from "child_process";
-import { existsSync } from "fs";
-import { homedir } from "os";
-import { join } from "path";
+import type { Config } from "./config.js";
+import type { MeetingData } from "./types.js";
+import { createMacCalendarSource } from "./calendar-macos.js";
+import { createIcsCalendarSource } from "./calendar-ics.js";
+import { createCalDavCalendarSource } from "./calendar-caldav.js";
+import { getDayRange } from "./timezone.js";
+
+export interface CalendarAttendee {
+  email: string;
+  name?: string;
+  /** iCalendar ROLE, e.g. REQ-PARTICIPANT, OPT-PARTICIPANT, CHAIR */
+  role?: string;
+  /** iCalendar PARTSTAT, e.g. ACCEPTED, DECLINED, NEEDS-ACTION */
+  status?: string;
+}
 
 export interface CalendarEvent {
   id: string;
@@ -20,106 +28,65 @@ export interface CalendarEvent {
   start: Date;
   end: Date;
   calendarName: string;
+  attendees: CalendarAttendee[];
+  organizer?: CalendarAttendee;
+  location?: string;
+  conferenceUrl?: string;
+  /** Original start (ISO) of a recurring instance; unset for one-off events. */
+  recurrenceId?: string;
 }
 
-// Apple epoch: Jan 1, 2001 00:00:00 UTC — offset from Unix epoch in seconds
-const APPLE_EPOCH_OFFSET = 978307200;
-
-const toJsDate = (appleTimestamp: number): Date =>
-  new Date((appleTimestamp + APPLE_EPOCH_OFFSET) * 1000);
-
-const getDbPath = (): string => {
-  const paths = [
-    join(homedir(), "Library", "Group Containers", "group.com.apple.calendar", "Calendar.sqlitedb"),
-    join(homedir(), "Library", "Calendars", "Calendar.sqlitedb"),
-  ];
+export interface CalendarSource {
+  name: string;
+  /** Timed events whose start falls within [rangeStart, rangeEnd). */
+  fetchEvents: (rangeStart: Date, rangeEnd: Date) => Promise<CalendarEvent[]>;
+}
 
-  const found = paths.find(existsSync);
-  if (!found) {
-    throw new Error(
-      `macOS Calendar database not found. Checked:\n` +
-      paths.map((p) => `  - ${p}`).join("\n") +
-      `\n\nMake sure Calendar.app is set up and has synced at least once.`
-    );
+/**
+ * The configured source. Its settings are checked here rather than in
+ * `loadConfig`, so the CLI commands that never read the calendar don't need
+ * them — `ics` is the default off macOS, with no `ICS_PATHS` to go with it.
+ */
+export const createCalendarSource = (config: Config): CalendarSource => {
+  switch (config.calendarSource) {
+    case "macos":
+      return createMacCalendarSource();
+    case "ics":
+      if (config.icsPaths.length === 0) throw new Error("ICS_PATHS is required when CALENDAR_SOURCE=ics");
+      return createIcsCalendarSource(config.icsPaths, config.calendarTimeZone);
+    case "caldav":
+      if (!config.caldav?.username || !config.caldav.password) {
+        throw new Error("CALDAV_URL, CALDAV_USERNAME and CALDAV_PASSWORD are required when CALENDAR_SOURCE=caldav");
+      }
+      return createCalDavCalendarSource(config.caldav, config.calendarTimeZone);
   }
-
-  return found;
-};
-
-const runQuery = (dbPath: string, sql: string): string => {
-  // Escape double quotes in SQL for shell safety
-  const escaped = sql.replace(/"/g, '\\"');
-  return execSync(
-    `sqlite3 -json "${dbPath}" "${escaped}"`,
-    { encoding: "utf-8", timeout: 5000 }
-  ).trim();
-};
-
-const parseRows = (raw: string): CalendarEvent[] => {
-  if (!raw) return [];
-
-  const rows = JSON.parse(raw) as Array<{
-    ROWID: number;
-    summary: string;
-    start_date: number;
-    end_date: number;
-    title: string | null;
-  }>;
-
-  return rows.map((row) => ({
-    id: String(row.ROWID),
-    summary: row.summary,
-    start: toJsDate(row.start_date),
-    end: toJsDate(row.end_date),
-    calendarName: row.title ?? "Unknown",
-  }));
 };
 
 /**
- * Query the local macOS Calendar database for today's timed events.
- * Uses sqlite3 CLI (pre-installed on macOS) to avoid native module dependencies.
+ * The event a meeting was most likely held in, for callers without one (the
+ * CLI): a similar title, starting within two hours of the notes.
  */
-export const fetchTodaysEvents = async (): Promise<CalendarEvent[]> => {
-  const dbPath = getDbPath();
+export const findEventForMeeting = async (
+  source: CalendarSource,
+  meeting: Pick<MeetingData, "title" | "createdAt">
+): Promise<CalendarEvent | undefined> => {
+  const created = new Date(meeting.createdAt).getTime();
+  const window = 2 * 60 * 60 * 1000;
+  const events = await source.fetchEvents(new Date(created - window), new Date(created + window));
+  const title = meeting.title.toLowerCase().trim();
 
-  // Build date boundaries for today in Apple epoch seconds
-  const now = new Date();
-  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
-
-  const startApple = Math.floor(startOfDay.getTime() / 1000) - APPLE_EPOCH_OFFSET;
-  const endApple = Math.floor(endOfDay.getTime() / 1000) - APPLE_EPOCH_OFFSET;
-
-  // SQL: join CalendarItem with Calendar to get the calendar name.
-  // Filter for timed events today (exclude all-day where start == end of day).
-  const sql = `
-    SELECT
-      ci.ROWID,
-      ci.summary,
-      ci.start_date,
-      ci.end_date,
-      c.title
-    FROM CalendarItem ci
-    LEFT JOIN Calendar c ON ci.calendar_id = c.ROWID
-    WHERE ci.start_date >= ${startApple}
-      AND ci.start_date < ${endApple}
-      AND ci.start_date != ci.end_date
-      AND ci.summary IS NOT NULL
-    ORDER BY ci.start_date ASC;
-  `.trim();
+  return events
+    .filter((event) => {
+      const summary = event.summary.toLowerCase().trim();
+      return !!summary && !!title && (summary === title || summary.includes(title) || title.includes(summary));
+    })
+    .sort((a, b) => Math.abs(a.start.getTime() - created) - Math.abs(b.start.getTime() - created))[0];
+};
 
-  try {
-    return parseRows(runQuery(dbPath, sql));
-  } catch {
-    // sqlite3 might fail if the database is locked by Calendar.app
-    // Fall back to copying the db first
-    const tmpDb = "/tmp/granola-automator-cal-cache.sqlitedb";
-    try {
-      execSync(`cp "${dbPath}" "${tmpDb}"`, { timeout: 3000 });
-      return parseRows(runQuery(tmpDb, sql));
-    } catch (fallbackErr) {
-      console.error("❌ Failed to read macOS Calendar database:", fallbackErr);
-      return [];
-    }
-  }
+export const fetchTodaysEvents = async (
+  source: CalendarSource,
+  timeZone?: string
+): Promise<CalendarEvent[]> => {
+  const { start, end } = getDayRange(new Date(), timeZone);
+  return source.fetchEvents(start, end);
 };
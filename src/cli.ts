@@ -7,11 +7,63 @@
  *   npx tsx src/cli.ts process <title>       # Process a meeting by title search
  *   npx tsx src/cli.ts process --id <id>     # Process a meeting by ID
  *   npx tsx src/cli.ts reset                 # Reset processed state
+ *   npx tsx src/cli.ts history               # Recent runs from the history database
+ *   npx tsx src/cli.ts show <id>             # Details of a run (run ID or Granola doc ID)
+ *   npx tsx src/cli.ts retry <id>            # Resume a failed run from the step that failed
+ *   npx tsx src/cli.ts sync [--id <id>]      # Apply edits made to processed meetings' notes
+ *   npx tsx src/cli.ts themes                # Themes across saved customer interviews
+ *   npx tsx src/cli.ts digest [--since <7d>] # Post a digest of recently processed meetings
+ *   npx tsx src/cli.ts actions [--all]       # Tracked action items (open ones by default)
+ *   npx tsx src/cli.ts actions done <id>     # Mark a tracked action item done
+ *   npx tsx src/cli.ts export --all          # Write processed meetings to files
+ *   npx tsx src/cli.ts serve                 # Run the Slack approval endpoint
+ *
+ * `latest` and `process` accept --dry-run [--out <path>] to preview the issue tracker
+ * and notifier requests without sending anything; `sync --dry-run` prints the diff.
+ * `latest`, `process` and `retry` accept --profile <name> to override the
+ * route's extraction profile, e.g. --profile interview, and --route <name>
+ * to pick the route instead of matching one. `themes` accepts
+ * --from/--to <YYYY-MM-DD>, --format markdown|csv and --out <path>.
+ * `digest --dry-run` prints the Slack message instead of posting it.
+ * `export` takes --id <id>, --from/--to <YYYY-MM-DD> or --all, plus
+ * --format markdown|json|html and --out <dir> (default: EXPORT_DIR).
  */
-import { loadConfig } from "./config.js";
+import { writeFileSync } from "fs";
+import { loadConfig, type Config } from "./config.js";
 import { createGranolaClient } from "./granola.js";
-import { processMeeting } from "./pipeline.js";
-import { markProcessed, isProcessed, resetState } from "./state.js";
+import { previewMeeting, processMeeting } from "./pipeline.js";
+import {
+  markProcessed,
+  isProcessed,
+  resetState,
+  listRuns,
+  getRun,
+  getCheckpoint,
+  listInterviews,
+  listActionItems,
+  listProposals,
+  type Run,
+  type TrackedActionItem,
+} from "./state.js";
+import { startInteractivityServer } from "./interactivity.js";
+import { syncChangedMeetings, syncMeeting } from "./sync.js";
+import {
+  DEFAULT_ROUTE_NAME,
+  applyRoute,
+  findRoute,
+  findUncheckableRoutes,
+  routeContextFor,
+  routeMeeting,
+  validateRoutes,
+} from "./routing.js";
+import { createCalendarSource, findEventForMeeting, type CalendarEvent } from "./calendar.js";
+import type { MeetingData } from "./types.js";
+import { EXTRACTION_PROFILES, type ExtractionProfile } from "./extract.js";
+import { buildThemeReport, formatThemeReport, THEME_FORMATS, type ThemeFormat } from "./research.js";
+import { runDigest } from "./digest.js";
+import { markActionItemDone } from "./action-items.js";
+import { today } from "./due-dates.js";
+import { EXPORT_FORMATS, exportMeetings, type ExportFormat } from "./export.js";
 
 const loadDotenv = async () => {
   try {
@@ -30,15 +82,160 @@ Usage:
   npx tsx src/cli.ts process <title>       Process meeting matching title
   npx tsx src/cli.ts process --id <id>     Process meeting by Granola doc ID
   npx tsx src/cli.ts reset                 Reset processed state (re-process all)
+  npx tsx src/cli.ts history [--limit <n>] Recent runs and their outcome
+  npx tsx src/cli.ts show <id>             Details of a run (run ID or Granola doc ID)
+  npx tsx src/cli.ts retry <id>            Resume a failed run (run ID or Granola doc ID)
+  npx tsx src/cli.ts sync                  Re-sync processed meetings whose notes changed
+  npx tsx src/cli.ts sync --id <id>        Re-sync one meeting by Granola doc ID
+  npx tsx src/cli.ts serve                 Run the Slack approval endpoint (APPROVAL_MODE)
+  npx tsx src/cli.ts themes                Cluster pain points and feature requests across interviews
+  npx tsx src/cli.ts digest                Post a digest of meetings processed in the last 7 days
+  npx tsx src/cli.ts actions [--all]       Tracked action items, open ones unless --all (ACTION_TRACKING)
+  npx tsx src/cli.ts actions done <id>     Mark a tracked action item done
+  npx tsx src/cli.ts export --id <id>      Write a processed meeting's notes, transcript and outcomes to a file
+  npx tsx src/cli.ts export --all          Write every processed meeting to files
+
+Options (latest, process, sync):
+  --dry-run                                Extract and preview issue tracker/notifier requests, send nothing
+  --out <path>                             Write the dry-run preview to a file or directory
+
+Options (latest, process, retry):
+  --profile <name>                         Extraction profile, overriding the route (${EXTRACTION_PROFILES.join(", ")})
+  --route <name>                           Route to use instead of matching one ("${DEFAULT_ROUTE_NAME}" for the env settings)
+
+Options (digest):
+  --since <7d|YYYY-MM-DD>                  Start of the period, as days ago or a date (default: 7d)
+  --dry-run                                Print the Slack message instead of posting it
+
+Options (themes):
+  --from <YYYY-MM-DD>, --to <YYYY-MM-DD>   Only interviews held in this range (inclusive)
+  --format <markdown|csv>                  Output format (default: markdown, or csv for a .csv --out)
+  --out <path>                             Write the report to a file instead of stdout
+
+Options (export):
+  --from <YYYY-MM-DD>, --to <YYYY-MM-DD>   Meetings held in this range (inclusive)
+  --format <markdown|json|html>            File format (default: EXPORT_FORMAT, or markdown)
+  --out <dir>                              Directory to write to (default: EXPORT_DIR)
 `);
 };
 
+// Removes a boolean flag from args, returning whether it was present
+const takeFlag = (args: string[], flag: string): boolean => {
+  const index = args.indexOf(flag);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+};
+
+// Removes an option and its value from args
+const takeOption = (args: string[], option: string): string | undefined => {
+  const index = args.indexOf(option);
+  if (index === -1 || !args[index + 1]) return undefined;
+  return args.splice(index, 2)[1];
+};
+
+// Local midnight of a YYYY-MM-DD day, `days` later
+const parseDay = (value: string, option: string, days = 0): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    console.error(`❌ ${option} must be a date like 2026-01-31, got "${value}".`);
+    process.exit(1);
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + days);
+};
+
+const RUN_STATUS_ICONS: Record<Run["status"], string> = {
+  running: "⏳",
+  succeeded: "✅",
+  failed: "❌",
+  awaiting_approval: "🗳️ ",
+};
+
+const formatRunDate = (iso: string): string =>
+  new Date(iso).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+const printRun = (run: Run) => {
+  console.log(`${RUN_STATUS_ICONS[run.status]} Run ${run.id}: "${run.meetingTitle}" — ${run.status}\n`);
+  console.log(`   Granola doc:    ${run.granolaDocId}`);
+  if (run.calendarEventId) console.log(`   Calendar event: ${run.calendarEventId}`);
+  if (run.route) console.log(`   Route:          ${run.route}`);
+  console.log(`   Started:        ${formatRunDate(run.startedAt)}`);
+  if (run.finishedAt) console.log(`   Finished:       ${formatRunDate(run.finishedAt)}`);
+  console.log(`   Tickets:        ${run.ticketKeys.join(", ") || "none"}`);
+  if (run.slackTs) console.log(`   Slack message:  ${run.slackChannel} / ${run.slackTs}`);
+  if (run.error) console.log(`   Error:          ${run.error}`);
+  if (run.extraction) {
+    console.log("\n📊 Extraction:");
+    console.log(JSON.stringify(run.extraction, null, 2));
+  }
+};
+
+const ACTION_STATUS_ICONS: Record<TrackedActionItem["status"], string> = {
+  open: "⬜",
+  done: "✅",
+};
+
+const printActionItem = (item: TrackedActionItem, day: string) => {
+  const due = item.dueDate
+    ? `${item.dueDate}${item.status === "open" && item.dueDate < day ? " (overdue)" : ""}`
+    : item.dueText
+      ? `"${item.dueText}"`
+      : "none";
+  console.log(`  ${String(item.id).padStart(4)}. ${ACTION_STATUS_ICONS[item.status]} ${item.description}`);
+  console.log(
+    `        Owner: ${item.owner ?? "unassigned"}  |  Due: ${due}  |  ${item.priority}  |  ` +
+    `From: ${item.meetings.map((m) => m.title).join(", ")}`
+  );
+};
+
 const main = async () => {
   await loadDotenv();
   const config = loadConfig();
-  const granola = createGranolaClient(config.granolaDataDir);
+  const granola = createGranolaClient(config.granolaDataDir, { minConfidence: config.transcriptMinConfidence });
 
   const [command, ...args] = process.argv.slice(2);
+  const dryRun = takeFlag(args, "--dry-run");
+  const outputPath = takeOption(args, "--out");
+  const profile = takeOption(args, "--profile");
+  const routeName = takeOption(args, "--route");
+
+  if (profile && !EXTRACTION_PROFILES.includes(profile as ExtractionProfile)) {
+    console.error(`❌ Unknown profile "${profile}". Available: ${EXTRACTION_PROFILES.join(", ")}`);
+    process.exit(1);
+  }
+  const withProfile = (routed: Config): Config =>
+    profile ? { ...routed, extractionProfile: profile as ExtractionProfile } : routed;
+
+  if (routeName && routeName !== DEFAULT_ROUTE_NAME && !config.routes.some((r) => r.name === routeName)) {
+    console.error(`❌ Unknown route "${routeName}". Available: ${[DEFAULT_ROUTE_NAME, ...config.routes.map((r) => r.name)].join(", ")}`);
+    process.exit(1);
+  }
+
+  // --route wins. Otherwise the calendar event is looked up when a route matches on calendars, and a
+  // route that can't be checked without it stops the command rather than being skipped over.
+  const routeForCli = async (meeting: MeetingData): Promise<Config> => {
+    if (routeName) return withProfile(applyRoute(config, config.routes.find((r) => r.name === routeName)));
+
+    let event: CalendarEvent | undefined;
+    if (config.routes.some((r) => r.match.calendar)) {
+      try {
+        event = await findEventForMeeting(createCalendarSource(config), meeting);
+        if (event) console.log(`📅 Calendar event: "${event.summary}" in ${event.calendarName}`);
+      } catch (err) {
+        console.warn(`⚠️  Couldn't look up the calendar event for "${meeting.title}":`, err);
+      }
+    }
+
+    const context = routeContextFor(meeting, event);
+    const uncheckable = findUncheckableRoutes(config, context);
+    if (uncheckable.length > 0) {
+      const names = uncheckable.map((r) => `"${r.name}"`).join(", ");
+      console.error(`❌ Can't tell which route "${meeting.title}" should take: ${names} match on a calendar or attendees not known here.`);
+      console.error(`   Pick one with --route <name>, or --route ${DEFAULT_ROUTE_NAME} for the env settings.`);
+      process.exit(1);
+    }
+    return withProfile(routeMeeting(config, context));
+  };
 
   if (!command || command === "--help" || command === "-h") {
     printUsage();
@@ -46,7 +243,42 @@ const main = async () => {
   }
 
   if (command === "reset") {
-    resetState();
+    await resetState();
+    return;
+  }
+
+  if (command === "history") {
+    const limit = takeOption(args, "--limit") ?? "20";
+    if (!/^\d+$/.test(limit)) {
+      console.error(`❌ --limit must be a whole number, got "${limit}".`);
+      process.exit(1);
+    }
+    const runs = await listRuns(Number(limit));
+    if (runs.length === 0) {
+      console.log("No runs recorded yet.");
+      return;
+    }
+    for (const run of runs) {
+      console.log(`  ${String(run.id).padStart(4)}. ${RUN_STATUS_ICONS[run.status]} ${run.meetingTitle}`);
+      console.log(
+        `        ${formatRunDate(run.startedAt)}  |  ${run.status}  |  ` +
+        `Tickets: ${run.ticketKeys.join(", ") || "none"}  |  Doc: ${run.granolaDocId}`
+      );
+    }
+    return;
+  }
+
+  if (command === "show") {
+    if (!args[0]) {
+      console.error("❌ Please provide a run ID or Granola doc ID.");
+      process.exit(1);
+    }
+    const run = await getRun(args[0]);
+    if (!run) {
+      console.error(`❌ No run found for "${args[0]}".`);
+      process.exit(1);
+    }
+    printRun(run);
     return;
   }
 
@@ -60,13 +292,120 @@ const main = async () => {
         hour: "numeric",
         minute: "2-digit",
       });
+      const context = routeContextFor({ title: doc.title, workspaceId: doc.workspace_id });
+      const route = findRoute(config, context);
+      const unless = findUncheckableRoutes(config, context).map((r) => r.name);
+      const routeLabel = `${route?.name ?? config.routeName}${unless.length > 0 ? ` unless ${unless.join(" or ")}` : ""}`;
       console.log(`  ${String(i + 1).padStart(2)}. ${doc.title}`);
-      console.log(`      ${date}  |  ID: ${doc.id}`);
+      console.log(`      ${date}  |  ID: ${doc.id}${config.routes.length > 0 ? `  |  Route: ${routeLabel}` : ""}`);
     });
     console.log(`\n  ${docs.length} meetings found.`);
     return;
   }
 
+  if (command === "themes") {
+    const from = takeOption(args, "--from");
+    const to = takeOption(args, "--to");
+    const format = takeOption(args, "--format") ?? (outputPath?.endsWith(".csv") ? "csv" : "markdown");
+    if (!THEME_FORMATS.includes(format as ThemeFormat)) {
+      console.error(`❌ Unknown format "${format}". Available: ${THEME_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+
+    const range = { from: from ? parseDay(from, "--from") : undefined, to: to ? parseDay(to, "--to", 1) : undefined };
+    const interviews = await listInterviews(range);
+    if (interviews.length === 0) {
+      console.log("No interviews saved in that range. Process meetings with the interview profile first.");
+      return;
+    }
+
+    const report = buildThemeReport(interviews, range);
+    const output = formatThemeReport(report, format as ThemeFormat);
+    if (outputPath) {
+      writeFileSync(outputPath, output);
+      console.log(`📝 ${report.themes.length} themes from ${interviews.length} interviews written to ${outputPath}`);
+    } else {
+      console.log(output);
+    }
+    return;
+  }
+
+  if (command === "digest") {
+    const since = takeOption(args, "--since") ?? "7d";
+    const days = /^(\d+)d$/.exec(since);
+    const from = days ? new Date(Date.now() - Number(days[1]) * 86_400_000) : parseDay(since, "--since");
+    await runDigest(config, from, new Date(), { dryRun });
+    return;
+  }
+
+  if (command === "actions") {
+    if (args[0] === "done") {
+      const id = Number(args[1]);
+      if (!Number.isInteger(id)) {
+        console.error("❌ Please provide the ID of an action item (see \"actions\").");
+        process.exit(1);
+      }
+      if (!(await markActionItemDone(config, id, "cli"))) process.exit(1);
+      return;
+    }
+
+    const all = takeFlag(args, "--all");
+    const items = await listActionItems(all ? undefined : "open");
+    if (items.length === 0) {
+      console.log(all ? "No action items tracked yet." : "No open action items.");
+      return;
+    }
+    const day = today(config.calendarTimeZone);
+    for (const item of items) printActionItem(item, day);
+    return;
+  }
+
+  if (command === "export") {
+    const id = takeOption(args, "--id");
+    const from = takeOption(args, "--from");
+    const to = takeOption(args, "--to");
+    const all = takeFlag(args, "--all");
+    if (!id && !from && !to && !all) {
+      console.error("❌ Please choose meetings with --id <id>, --from/--to <YYYY-MM-DD> or --all.");
+      process.exit(1);
+    }
+    const format = takeOption(args, "--format") ?? config.exportFormat;
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      console.error(`❌ Unknown format "${format}". Available: ${EXPORT_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+    const dir = outputPath ?? config.exportDir;
+    if (!dir) {
+      console.error("❌ Please provide --out <dir> or set EXPORT_DIR.");
+      process.exit(1);
+    }
+
+    console.log(`📝 Exporting to ${dir}...`);
+    const paths = await exportMeetings(
+      config,
+      granola,
+      { id, from: from ? parseDay(from, "--from") : undefined, to: to ? parseDay(to, "--to", 1) : undefined },
+      { dir, format: format as ExportFormat, filename: config.exportFilename }
+    );
+    console.log(paths.length > 0 ? `\n  ${paths.length} meetings exported.` : "No processed meetings matched.");
+    return;
+  }
+
+  if (command === "serve") {
+    if (!config.slackSigningSecret) {
+      console.error("❌ SLACK_SIGNING_SECRET is required to verify Slack requests.");
+      process.exit(1);
+    }
+    console.log(`🗳️  Serving approvals for ${(await listProposals()).length} pending proposal(s)...`);
+    startInteractivityServer(config);
+    return;
+  }
+
+  // Commands that file tickets check each route's tracker project up front
+  if (command === "latest" || command === "process" || command === "retry" || command === "sync") {
+    await validateRoutes(config);
+  }
+
   if (command === "latest") {
     console.log("📋 Fetching latest meeting from Granola...\n");
     const docs = await granola.fetchDocuments(1);
@@ -75,18 +414,32 @@ const main = async () => {
       return;
     }
     const meeting = await granola.fetchMeeting(docs[0]);
+    const routed = await routeForCli(meeting);
 
-    if (isProcessed(meeting.id)) {
+    if (dryRun) {
+      await previewMeeting(routed, meeting, outputPath);
+      return;
+    }
+
+    if (await isProcessed(meeting.id)) {
       console.log(`⏭️  Already processed: "${meeting.title}". Use "reset" to re-process.`);
       return;
     }
     
-    const result = await processMeeting(config, meeting);
+    const result = await processMeeting(routed, meeting);
 
-    markProcessed(meeting.id);
+    await markProcessed(meeting.id);
     console.log("\n📊 Results:");
-    console.log(`   Tickets: ${result.jiraTickets.map((t) => t.key).join(", ") || "none"}`);
+    if (result.proposalId) {
+      console.log(`   Tickets: ${result.extraction.engineeringTickets.length} awaiting approval in Slack`);
+    } else {
+      console.log(`   Tickets: ${result.tickets.map((t) => t.key).join(", ") || "none"}`);
+    }
     console.log(`   Action items: ${result.extraction.actionItems.length}`);
+    console.log(`   Notified: ${result.notified.join(", ")}`);
+    if (result.unresolvedAssignees.length > 0) {
+      console.log(`   Unresolved assignees: ${result.unresolvedAssignees.join(", ")}`);
+    }
     return;
   }
 
@@ -101,14 +454,20 @@ const main = async () => {
         process.exit(1);
       }
       const meeting = await granola.fetchMeeting(doc);
+      const routed = await routeForCli(meeting);
+
+      if (dryRun) {
+        await previewMeeting(routed, meeting, outputPath);
+        return;
+      }
 
-      if (isProcessed(meeting.id)) {
+      if (await isProcessed(meeting.id)) {
         console.log(`⏭️  Already processed: "${meeting.title}". Use "reset" to re-process.`);
         return;
       }
 
-      await processMeeting(config, meeting);
-      markProcessed(meeting.id);
+      await processMeeting(routed, meeting);
+      await markProcessed(meeting.id);
       return;
     }
 
@@ -132,8 +491,68 @@ const main = async () => {
 
     console.log(`Found: "${match.title}"`);
     const meeting = await granola.fetchMeeting(match);
-    await processMeeting(config, meeting);
-    markProcessed(meeting.id);
+    const routed = await routeForCli(meeting);
+
+    if (dryRun) {
+      await previewMeeting(routed, meeting, outputPath);
+      return;
+    }
+
+    await processMeeting(routed, meeting);
+    await markProcessed(meeting.id);
+    return;
+  }
+
+  if (command === "retry") {
+    if (!args[0]) {
+      console.error("❌ Please provide a run ID or Granola doc ID.");
+      process.exit(1);
+    }
+    const run = await getRun(args[0]);
+    const docId = run?.granolaDocId ?? args[0];
+
+    if (await isProcessed(docId)) {
+      console.log(`⏭️  Already processed: ${docId}. Use "reset" to re-process.`);
+      return;
+    }
+    if (!(await getCheckpoint(docId))) {
+      console.log("ℹ️  No checkpoint for this meeting — processing from the start.");
+    }
+
+    const docs = await granola.fetchDocuments(100);
+    const doc = docs.find((d) => d.id === docId);
+    if (!doc) {
+      console.error(`❌ Meeting with ID "${docId}" not found.`);
+      process.exit(1);
+    }
+    const meeting = await granola.fetchMeeting(doc);
+    // Keep the route the first attempt used — it may have matched on calendar data the CLI doesn't have
+    const previousRoute = config.routes.find((r) => r.name === run?.route);
+    const keepRoute = !routeName && (previousRoute !== undefined || run?.route === DEFAULT_ROUTE_NAME);
+    const routed = keepRoute ? withProfile(applyRoute(config, previousRoute)) : await routeForCli(meeting);
+
+    await processMeeting(routed, meeting, run?.calendarEventId ?? undefined);
+    await markProcessed(meeting.id);
+    if (run?.calendarEventId) await markProcessed(run.calendarEventId);
+    return;
+  }
+
+  if (command === "sync") {
+    const docId = takeOption(args, "--id");
+    if (!docId) {
+      console.log(`🔄 Checking meetings from the last ${config.syncWindowMs / 3_600_000}h for edited notes...`);
+      await syncChangedMeetings(config, granola, { dryRun });
+      return;
+    }
+
+    const docs = await granola.fetchDocuments(100);
+    const doc = docs.find((d) => d.id === docId);
+    if (!doc) {
+      console.error(`❌ Meeting with ID "${docId}" not found.`);
+      process.exit(1);
+    }
+    const delta = await syncMeeting(config, await granola.fetchMeeting(doc), { dryRun });
+    if (!delta) console.log(`⏭️  Nothing to sync for "${doc.title}".`);
     return;
   }
 
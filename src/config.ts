@@ -1,6 +1,20 @@
 import { z } from "zod";
 import { homedir, platform } from "os";
 import { join } from "path";
+import { isValidTimeZone } from "./timezone.js";
+import { expandHome } from "./paths.js";
+import type { CalDavConfig } from "./calendar-caldav.js";
+import { loadFieldMapping, type JiraFieldMapping } from "./jira-fields.js";
+import { DEFAULT_ROUTE_NAME, loadRoutes, type Route } from "./routing.js";
+import { ISSUE_TRACKERS, type IssueTrackerKind } from "./tracker.js";
+import type { ExtractionProfile, ExtractionSettings } from "./extract.js";
+import { EXTRACTION_BACKENDS, type ExtractionBackend } from "./extractor.js";
+import { SERVICES, configureHttp, type HttpPolicy, type Service } from "./http.js";
+import { DIGEST_DAYS } from "./digest.js";
+import type { SprintCalendar } from "./due-dates.js";
+import { DEFAULT_EXPORT_FILENAME, EXPORT_FORMATS, type ExportFormat } from "./export.js";
+import { NOTIFIERS, type NotifierKind } from "./notifier.js";
+import type { SmtpConfig } from "./smtp.js";
 
 const getDefaultGranolaDir = (): string => {
   const os = platform();
@@ -10,41 +24,381 @@ const getDefaultGranolaDir = (): string => {
   return join(homedir(), ".granola");
 };
 
+const splitList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 const envSchema = z.object({
-  ANTHROPIC_API_KEY: z.string().min(1),
-  JIRA_BASE_URL: z.string().url(),
-  JIRA_EMAIL: z.string().email(),
-  JIRA_API_TOKEN: z.string().min(1),
-  JIRA_POD: z.string().min(1),
+  // Which model API extracts meetings; routes can pick a different one.
+  EXTRACTION_BACKEND: z.enum(EXTRACTION_BACKENDS).default("anthropic"),
+  // Required when the anthropic backend is used.
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+  ANTHROPIC_MODEL: z.string().min(1).default("claude-sonnet-4-20250514"),
+  // Any OpenAI-compatible chat completions API, e.g. a local vLLM, llama.cpp or Ollama server.
+  OPENAI_BASE_URL: z.string().url().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_MODEL: z.string().min(1).optional(),
+  // Output token limits for an extraction, and for the final merge of a chunked long meeting.
+  EXTRACTION_MAX_TOKENS: z.coerce.number().int().min(256).default(4096),
+  EXTRACTION_REDUCE_MAX_TOKENS: z.coerce.number().int().min(256).default(8192),
+  // Times an extraction that fails schema validation is sent back to Claude with the errors.
+  EXTRACTION_REPAIR_ATTEMPTS: z.coerce.number().int().min(0).default(2),
+
+  // Where tickets are filed: jira, github (GitHub Issues) or linear. Routes can pick another.
+  ISSUE_TRACKER: z.enum(ISSUE_TRACKERS).default("jira"),
+
+  // Before creating a ticket, look for an open issue with a similar summary
+  // and comment on it instead. Threshold is word overlap (0–1) to count as a match.
+  TICKET_DEDUPE: z.enum(["true", "false"]).default("true"),
+  TICKET_DUPLICATE_THRESHOLD: z.coerce.number().min(0).max(1).default(0.6),
+
+  // File "Product Insight" issues from customer interviews (interview profile).
+  INSIGHT_ISSUES: z.enum(["true", "false"]).default("false"),
+
+  // Required when JIRA is used.
+  JIRA_BASE_URL: z.string().url().optional(),
+  JIRA_EMAIL: z.string().email().optional(),
+  JIRA_API_TOKEN: z.string().min(1).optional(),
+  // Value for the default pod custom field; required unless a field mapping file is used.
+  JIRA_POD: z.string().min(1).optional(),
+  JIRA_FIELD_MAPPING_FILE: z.string().optional(),
   JIRA_PROJECT_KEY: z.string().min(1).default("ENG"),
+
+  // GitHub Issues: a token that can write issues, and the repository (owner/repo) to file into.
+  // GITHUB_API_URL is only needed for GitHub Enterprise Server, e.g. https://github.example.com/api/v3.
+  GITHUB_TOKEN: z.string().min(1).optional(),
+  GITHUB_REPO: z.string().regex(/^[\w.-]+\/[\w.-]+$/, "must look like owner/repo").optional(),
+  GITHUB_API_URL: z.string().url().default("https://api.github.com").transform((url) => url.replace(/\/+$/, "")),
+
+  // Linear: a personal API key, the key of the team to file into (e.g. ENG), and the
+  // workspace's URL slug for links (linear.app/<workspace>/…).
+  LINEAR_API_KEY: z.string().min(1).optional(),
+  LINEAR_TEAM: z.string().min(1).optional(),
+  LINEAR_WORKSPACE: z.string().min(1).optional(),
+
   SLACK_BOT_TOKEN: z.string().startsWith("xoxb-"),
   SLACK_CHANNEL_ID: z.string().min(1),
+  // Reply in each summary's thread with every ticket's description and acceptance criteria,
+  // and the full notes as a file (needs the files:write scope).
+  SLACK_THREAD_DETAILS: z.enum(["true", "false"]).default("false"),
+  // DM each assignee matched to a Slack user the action items and tickets that are theirs.
+  SLACK_ASSIGNEE_DMS: z.enum(["true", "false"]).default("false"),
+
+  // Where meeting summaries are sent: any of slack, teams, email and webhook, comma-separated.
+  // Routes can pick others. Approvals, sync replies, digests and reminders always use Slack.
+  NOTIFIERS: z.string().default("slack").transform(splitList).pipe(z.array(z.enum(NOTIFIERS)).min(1)),
+
+  // Microsoft Teams incoming webhook (a channel connector or a Workflows webhook).
+  TEAMS_WEBHOOK_URL: z.string().url().optional(),
+
+  // SMTP server for email summaries. SMTP_SECURE=true means TLS from the start (usually port 465);
+  // otherwise STARTTLS is used when the server offers it. EMAIL_FROM may be "Name <address>";
+  // EMAIL_TO is comma-separated.
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.coerce.number().int().min(1).max(65535).default(587),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  EMAIL_FROM: z.string().min(1).optional(),
+  EMAIL_TO: z.string().optional(),
+
+  // JSON webhook for internal tools, signed with HMAC-SHA256 using WEBHOOK_SECRET.
+  WEBHOOK_URL: z.string().url().optional(),
+  WEBHOOK_SECRET: z.string().min(16, "must be at least 16 characters").optional(),
+
+  // Propose tickets in Slack with Approve / Edit / Reject and only file them once approved.
+  // Needs the signing secret and a port for Slack's interactivity requests.
+  APPROVAL_MODE: z.enum(["true", "false"]).default("false"),
+  SLACK_SIGNING_SECRET: z.string().optional(),
+  APPROVAL_PORT: z.coerce.number().int().min(1).max(65535).default(3000),
   GRANOLA_DATA_DIR: z.string().optional(),
 
+  // JSON routing rules choosing JIRA project, pod, Slack channel and profile per meeting.
+  ROUTES_FILE: z.string().optional(),
+
+  // JSON directory mapping names/aliases to JIRA accounts and Slack users.
+  PEOPLE_FILE: z.string().optional(),
+
+  // Look up unmatched assignees via JIRA user search and Slack users.lookupByEmail.
+  PEOPLE_LOOKUP: z.enum(["true", "false"]).default("false"),
+
   // How many minutes after a meeting ends to trigger processing.
   // Gives Granola time to generate enhanced notes. Default: 5 min.
   DELAY_AFTER_MEETING_MINUTES: z.coerce.number().min(1).default(5),
 
   // How often (minutes) to re-fetch today's calendar for new meetings.
   CALENDAR_REFRESH_MINUTES: z.coerce.number().min(5).default(30),
-});
+
+  // Scheduler dry run: extract and preview JIRA/Slack requests without sending them.
+  DRY_RUN: z.enum(["true", "false"]).default("false"),
+
+  // File or directory for dry-run previews. Printed to stdout when unset.
+  DRY_RUN_OUTPUT: z.string().optional(),
+
+  // Where calendar events come from. macOS Calendar.app is only available on macOS.
+  // Its settings are checked when the source is created, so commands that don't read
+  // the calendar work without them.
+  CALENDAR_SOURCE: z.enum(["macos", "ics", "caldav"]).default(platform() === "darwin" ? "macos" : "ics"),
+
+  // Comma-separated .ics files and/or directories (vdir folders are walked recursively).
+  ICS_PATHS: z.string().optional(),
+
+  // CalDAV calendar collection or calendar home URL, plus basic auth credentials.
+  CALDAV_URL: z.string().url().optional(),
+  CALDAV_USERNAME: z.string().optional(),
+  CALDAV_PASSWORD: z.string().optional(),
+
+  // IANA zone for floating calendar times and "today". Defaults to the system zone.
+  CALENDAR_TIMEZONE: z.string().optional(),
+
+  // Sprint calendar for deadlines like "end of sprint": the first day of any sprint, and their length.
+  SPRINT_START: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date like 2026-01-05").optional(),
+  SPRINT_LENGTH_DAYS: z.coerce.number().int().min(1).default(14),
+
+  // Transcript utterances below this speech-recognition confidence (0–1) are dropped.
+  TRANSCRIPT_MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0.5),
+
+  // Re-sync processed meetings whose Granola notes changed: file new tickets, comment on
+  // changed ones, and tell Slack. Only docs created within SYNC_WINDOW_HOURS are checked.
+  SYNC_UPDATES: z.enum(["true", "false"]).default("false"),
+  SYNC_WINDOW_HOURS: z.coerce.number().min(1).default(72),
+  // Reply in the summary's thread with what changed, or edit the summary in place.
+  SYNC_SLACK_MODE: z.enum(["thread", "edit"]).default("thread"),
+
+  // Weekly digest of every processed meeting, posted by the scheduler on DIGEST_DAY at
+  // DIGEST_TIME (calendar time zone) to DIGEST_CHANNEL_ID, or SLACK_CHANNEL_ID when unset.
+  DIGEST_ENABLED: z.enum(["true", "false"]).default("false"),
+  DIGEST_DAY: z.enum(DIGEST_DAYS).default("friday"),
+  DIGEST_TIME: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "must be a 24-hour time like 16:00").default("16:00"),
+  DIGEST_CHANNEL_ID: z.string().min(1).optional(),
+
+  // Keep every action item with its owner, due date and status, marked done from Slack or the CLI.
+  // Due and overdue items are sent to their owner by DM (or the meeting's channel) from
+  // ACTION_REMINDER_TIME each day (calendar time zone).
+  ACTION_TRACKING: z.enum(["true", "false"]).default("false"),
+  ACTION_REMINDERS: z.enum(["off", "dm", "channel"]).default("dm"),
+  ACTION_REMINDER_TIME: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "must be a 24-hour time like 09:00").default("09:00"),
+
+  // Write every processed meeting to EXPORT_DIR (e.g. an Obsidian vault folder). EXPORT_FILENAME
+  // may use {{date}}, {{year}}, {{month}}, {{title}} and {{id}}; slashes make folders.
+  EXPORT_DIR: z.string().optional(),
+  EXPORT_FORMAT: z.enum(EXPORT_FORMATS).default("markdown"),
+  EXPORT_FILENAME: z.string().min(1).default(DEFAULT_EXPORT_FILENAME),
+
+  // Retries for 429 / 5xx / network errors, with exponential backoff from HTTP_RETRY_BASE_MS.
+  HTTP_MAX_RETRIES: z.coerce.number().int().min(0).default(4),
+  HTTP_RETRY_BASE_MS: z.coerce.number().int().min(1).default(1000),
+  HTTP_TIMEOUT_SECONDS: z.coerce.number().min(1).default(30),
+
+  // Max parallel requests per service, e.g. "jira=2,slack=1". Unlisted services keep their defaults.
+  HTTP_CONCURRENCY: z
+    .string()
+    .refine(
+      (value) =>
+        value.split(",").every((entry) => {
+          const [service, limit] = entry.split("=").map((part) => part?.trim());
+          return SERVICES.includes(service as Service) && /^[1-9]\d*$/.test(limit ?? "");
+        }),
+      `must look like jira=2,slack=1 (services: ${SERVICES.join(", ")})`
+    )
+    .optional(),
+})
+  .refine((env) => env.APPROVAL_MODE !== "true" || !!env.SLACK_SIGNING_SECRET, {
+    message: "SLACK_SIGNING_SECRET is required when APPROVAL_MODE=true",
+    path: ["SLACK_SIGNING_SECRET"],
+  })
+  .refine((env) => !env.OPENAI_BASE_URL || !!env.OPENAI_MODEL, {
+    message: "OPENAI_MODEL is required when OPENAI_BASE_URL is set",
+    path: ["OPENAI_MODEL"],
+  })
+  .refine((env) => !env.CALENDAR_TIMEZONE || isValidTimeZone(env.CALENDAR_TIMEZONE), {
+    message: "CALENDAR_TIMEZONE must be an IANA time zone, e.g. Europe/Berlin",
+    path: ["CALENDAR_TIMEZONE"],
+  });
+
+// The default tracker and any a route picks must have their settings
+const checkTrackers = (env: z.infer<typeof envSchema>, routes: Route[]): void => {
+  const used = [
+    { name: DEFAULT_ROUTE_NAME, tracker: env.ISSUE_TRACKER, githubRepo: env.GITHUB_REPO, linearTeam: env.LINEAR_TEAM },
+    ...routes.map((r) => ({
+      name: r.name,
+      tracker: r.tracker ?? env.ISSUE_TRACKER,
+      githubRepo: r.githubRepo ?? env.GITHUB_REPO,
+      linearTeam: r.linearTeam ?? env.LINEAR_TEAM,
+    })),
+  ];
+
+  if (used.some((u) => u.tracker === "jira")) {
+    if (!env.JIRA_BASE_URL || !env.JIRA_EMAIL || !env.JIRA_API_TOKEN) {
+      throw new Error("JIRA_BASE_URL, JIRA_EMAIL and JIRA_API_TOKEN are required for the jira issue tracker");
+    }
+    if (!env.JIRA_POD && !env.JIRA_FIELD_MAPPING_FILE) {
+      throw new Error("JIRA_POD is required unless JIRA_FIELD_MAPPING_FILE is set");
+    }
+  }
+  const github = used.filter((u) => u.tracker === "github");
+  if (github.length > 0 && !env.GITHUB_TOKEN) {
+    throw new Error("GITHUB_TOKEN is required for the github issue tracker");
+  }
+  const withoutRepo = github.find((u) => !u.githubRepo);
+  if (withoutRepo) {
+    throw new Error(`GITHUB_REPO (or "githubRepo" on the route) is required for route "${withoutRepo.name}"`);
+  }
+  const linear = used.filter((u) => u.tracker === "linear");
+  if (linear.length > 0 && (!env.LINEAR_API_KEY || !env.LINEAR_WORKSPACE)) {
+    throw new Error("LINEAR_API_KEY and LINEAR_WORKSPACE are required for the linear issue tracker");
+  }
+  const withoutTeam = linear.find((u) => !u.linearTeam);
+  if (withoutTeam) {
+    throw new Error(`LINEAR_TEAM (or "linearTeam" on the route) is required for route "${withoutTeam.name}"`);
+  }
+};
+
+// The default notifiers and any a route picks must have their settings
+const checkNotifiers = (env: z.infer<typeof envSchema>, routes: Route[]): void => {
+  const used = [
+    {
+      name: DEFAULT_ROUTE_NAME,
+      notifiers: env.NOTIFIERS,
+      teamsWebhookUrl: env.TEAMS_WEBHOOK_URL,
+      emailTo: splitList(env.EMAIL_TO),
+      webhookUrl: env.WEBHOOK_URL,
+    },
+    ...routes.map((r) => ({
+      name: r.name,
+      notifiers: r.notifiers ?? env.NOTIFIERS,
+      teamsWebhookUrl: r.teamsWebhookUrl ?? env.TEAMS_WEBHOOK_URL,
+      emailTo: r.emailTo ?? splitList(env.EMAIL_TO),
+      webhookUrl: r.webhookUrl ?? env.WEBHOOK_URL,
+    })),
+  ];
+
+  const withoutTeams = used.find((u) => u.notifiers.includes("teams") && !u.teamsWebhookUrl);
+  if (withoutTeams) {
+    throw new Error(`TEAMS_WEBHOOK_URL (or "teamsWebhookUrl" on the route) is required for route "${withoutTeams.name}"`);
+  }
+  const email = used.filter((u) => u.notifiers.includes("email"));
+  if (email.length > 0 && (!env.SMTP_HOST || !env.EMAIL_FROM)) {
+    throw new Error("SMTP_HOST and EMAIL_FROM are required for the email notifier");
+  }
+  const withoutRecipients = email.find((u) => u.emailTo.length === 0);
+  if (withoutRecipients) {
+    throw new Error(`EMAIL_TO (or "emailTo" on the route) is required for route "${withoutRecipients.name}"`);
+  }
+  const webhook = used.filter((u) => u.notifiers.includes("webhook"));
+  if (webhook.length > 0 && !env.WEBHOOK_SECRET) {
+    throw new Error("WEBHOOK_SECRET is required for the webhook notifier");
+  }
+  const withoutUrl = webhook.find((u) => !u.webhookUrl);
+  if (withoutUrl) {
+    throw new Error(`WEBHOOK_URL (or "webhookUrl" on the route) is required for route "${withoutUrl.name}"`);
+  }
+};
+
+// The default backend and any a route picks must have their settings
+const checkBackends = (env: z.infer<typeof envSchema>, backends: ExtractionBackend[]): void => {
+  if (backends.includes("anthropic") && !env.ANTHROPIC_API_KEY) {
+    throw new Error("ANTHROPIC_API_KEY is required for the anthropic extraction backend");
+  }
+  if (backends.includes("openai") && !env.OPENAI_BASE_URL) {
+    throw new Error("OPENAI_BASE_URL and OPENAI_MODEL are required for the openai extraction backend");
+  }
+};
 
 export interface Config {
-  anthropicApiKey: string;
-  jiraBaseUrl: string;
-  jiraEmail: string;
-  jiraApiToken: string;
-  jiraPod: string;
+  anthropicApiKey?: string;
+  issueTracker: IssueTrackerKind;
+  /** JIRA settings are only set when JIRA is used */
+  jiraBaseUrl?: string;
+  jiraEmail?: string;
+  jiraApiToken?: string;
+  jiraPod?: string;
+  jiraFieldMapping: JiraFieldMapping;
   jiraProjectKey: string;
+  ticketDedupe: boolean;
+  insightIssues: boolean;
+  ticketDuplicateThreshold: number;
+  githubToken?: string;
+  githubApiUrl: string;
+  /** owner/repo */
+  githubRepo?: string;
+  linearApiKey?: string;
+  /** Team key, e.g. ENG */
+  linearTeam?: string;
+  linearWorkspace?: string;
   slackBotToken: string;
   slackChannelId: string;
+  slackThreadDetails: boolean;
+  slackAssigneeDms: boolean;
+  notifiers: NotifierKind[];
+  teamsWebhookUrl?: string;
+  /** Unset without SMTP_HOST */
+  smtp?: SmtpConfig;
+  emailFrom?: string;
+  emailTo: string[];
+  webhookUrl?: string;
+  webhookSecret?: string;
+  approvalMode: boolean;
+  slackSigningSecret?: string;
+  approvalPort: number;
+  extractionProfile: ExtractionProfile;
+  extraction: ExtractionSettings;
+  /** Routing rules, and the name of the one this config was resolved for */
+  routes: Route[];
+  routeName: string;
   granolaDataDir: string;
+  peopleFile?: string;
+  peopleLookup: boolean;
   delayAfterMeetingMs: number;
   calendarRefreshMs: number;
+  dryRun: boolean;
+  dryRunOutput?: string;
+  calendarSource: "macos" | "ics" | "caldav";
+  icsPaths: string[];
+  caldav?: CalDavConfig;
+  calendarTimeZone?: string;
+  /** For resolving sprint-relative deadlines; unset when SPRINT_START isn't */
+  sprintCalendar?: SprintCalendar;
+  http: HttpPolicy;
+  transcriptMinConfidence: number;
+  syncUpdates: boolean;
+  syncWindowMs: number;
+  syncSlackMode: "thread" | "edit";
+  digestEnabled: boolean;
+  /** 0 = Sunday */
+  digestDay: number;
+  /** "HH:MM" in the calendar time zone */
+  digestTime: string;
+  digestChannelId: string;
+  actionTracking: boolean;
+  actionReminders: "off" | "dm" | "channel";
+  /** "HH:MM" in the calendar time zone */
+  actionReminderTime: string;
+  /** Unset: meetings are only exported on demand (`export` command) */
+  exportDir?: string;
+  exportFormat: ExportFormat;
+  exportFilename: string;
 }
 
+// Settings named for JIRA before the other trackers existed; the old names still work
+const RENAMED_ENV: Record<string, string> = {
+  JIRA_DEDUPE: "TICKET_DEDUPE",
+  JIRA_DUPLICATE_THRESHOLD: "TICKET_DUPLICATE_THRESHOLD",
+  JIRA_INSIGHT_ISSUES: "INSIGHT_ISSUES",
+};
+
+const withRenamedEnv = (env: NodeJS.ProcessEnv): NodeJS.ProcessEnv => {
+  const renamed = { ...env };
+  for (const [oldName, name] of Object.entries(RENAMED_ENV)) {
+    if (renamed[name] === undefined && renamed[oldName] !== undefined) renamed[name] = renamed[oldName];
+  }
+  return renamed;
+};
+
 export const loadConfig = (): Config => {
-  const result = envSchema.safeParse(process.env);
+  const result = envSchema.safeParse(withRenamedEnv(process.env));
 
   if (!result.success) {
     const missing = result.error.issues
@@ -57,17 +411,119 @@ export const loadConfig = (): Config => {
 
   const env = result.data;
 
+  let jiraFieldMapping: JiraFieldMapping;
+  let routes: Route[];
+  try {
+    jiraFieldMapping = loadFieldMapping(expandHome(env.JIRA_FIELD_MAPPING_FILE));
+    routes = loadRoutes(expandHome(env.ROUTES_FILE));
+    checkTrackers(env, routes);
+    checkNotifiers(env, routes);
+    checkBackends(env, [env.EXTRACTION_BACKEND, ...routes.flatMap((r) => (r.backend ? [r.backend] : []))]);
+  } catch (err) {
+    console.error(`\n❌ ${(err as Error).message}\n`);
+    process.exit(1);
+  }
+
+  const http: HttpPolicy = {
+    maxRetries: env.HTTP_MAX_RETRIES,
+    baseDelayMs: env.HTTP_RETRY_BASE_MS,
+    timeoutMs: env.HTTP_TIMEOUT_SECONDS * 1000,
+    concurrency: Object.fromEntries(
+      (env.HTTP_CONCURRENCY ?? "")
+        .split(",")
+        .filter((entry) => entry.trim())
+        .map((entry) => {
+          const [service, limit] = entry.split("=");
+          return [service.trim() as Service, Number(limit)];
+        })
+    ),
+  };
+  configureHttp(http);
+
   return {
     anthropicApiKey: env.ANTHROPIC_API_KEY,
+    issueTracker: env.ISSUE_TRACKER,
     jiraBaseUrl: env.JIRA_BASE_URL,
     jiraEmail: env.JIRA_EMAIL,
     jiraApiToken: env.JIRA_API_TOKEN,
     jiraPod: env.JIRA_POD,
+    jiraFieldMapping,
     jiraProjectKey: env.JIRA_PROJECT_KEY,
+    ticketDedupe: env.TICKET_DEDUPE === "true",
+    insightIssues: env.INSIGHT_ISSUES === "true",
+    ticketDuplicateThreshold: env.TICKET_DUPLICATE_THRESHOLD,
+    githubToken: env.GITHUB_TOKEN,
+    githubApiUrl: env.GITHUB_API_URL,
+    githubRepo: env.GITHUB_REPO,
+    linearApiKey: env.LINEAR_API_KEY,
+    linearTeam: env.LINEAR_TEAM,
+    linearWorkspace: env.LINEAR_WORKSPACE,
     slackBotToken: env.SLACK_BOT_TOKEN,
     slackChannelId: env.SLACK_CHANNEL_ID,
+    slackThreadDetails: env.SLACK_THREAD_DETAILS === "true",
+    slackAssigneeDms: env.SLACK_ASSIGNEE_DMS === "true",
+    notifiers: env.NOTIFIERS,
+    teamsWebhookUrl: env.TEAMS_WEBHOOK_URL,
+    smtp: env.SMTP_HOST
+      ? {
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT,
+          secure: env.SMTP_SECURE === "true",
+          user: env.SMTP_USER || undefined,
+          password: env.SMTP_PASSWORD || undefined,
+        }
+      : undefined,
+    emailFrom: env.EMAIL_FROM,
+    emailTo: splitList(env.EMAIL_TO),
+    webhookUrl: env.WEBHOOK_URL,
+    webhookSecret: env.WEBHOOK_SECRET,
+    approvalMode: env.APPROVAL_MODE === "true",
+    slackSigningSecret: env.SLACK_SIGNING_SECRET,
+    approvalPort: env.APPROVAL_PORT,
+    extractionProfile: "engineering",
+    extraction: {
+      backend: env.EXTRACTION_BACKEND,
+      anthropicModel: env.ANTHROPIC_MODEL,
+      openai: env.OPENAI_BASE_URL
+        ? { baseUrl: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY || undefined, model: env.OPENAI_MODEL! }
+        : undefined,
+      maxTokens: env.EXTRACTION_MAX_TOKENS,
+      reduceMaxTokens: env.EXTRACTION_REDUCE_MAX_TOKENS,
+      repairAttempts: env.EXTRACTION_REPAIR_ATTEMPTS,
+    },
+    routes,
+    routeName: DEFAULT_ROUTE_NAME,
     granolaDataDir: env.GRANOLA_DATA_DIR || getDefaultGranolaDir(),
+    peopleFile: expandHome(env.PEOPLE_FILE),
+    peopleLookup: env.PEOPLE_LOOKUP === "true",
     delayAfterMeetingMs: env.DELAY_AFTER_MEETING_MINUTES * 60 * 1000,
     calendarRefreshMs: env.CALENDAR_REFRESH_MINUTES * 60 * 1000,
+    dryRun: env.DRY_RUN === "true",
+    dryRunOutput: env.DRY_RUN_OUTPUT || undefined,
+    calendarSource: env.CALENDAR_SOURCE,
+    icsPaths: (env.ICS_PATHS ?? "")
+      .split(",")
+      .map((p) => expandHome(p))
+      .filter((p): p is string => !!p),
+    caldav: env.CALDAV_URL
+      ? { url: env.CALDAV_URL, username: env.CALDAV_USERNAME ?? "", password: env.CALDAV_PASSWORD ?? "" }
+      : undefined,
+    calendarTimeZone: env.CALENDAR_TIMEZONE || undefined,
+    sprintCalendar: env.SPRINT_START ? { start: env.SPRINT_START, lengthDays: env.SPRINT_LENGTH_DAYS } : undefined,
+    http,
+    transcriptMinConfidence: env.TRANSCRIPT_MIN_CONFIDENCE,
+    syncUpdates: env.SYNC_UPDATES === "true",
+    syncWindowMs: env.SYNC_WINDOW_HOURS * 60 * 60 * 1000,
+    syncSlackMode: env.SYNC_SLACK_MODE,
+    digestEnabled: env.DIGEST_ENABLED === "true",
+    digestDay: DIGEST_DAYS.indexOf(env.DIGEST_DAY),
+    digestTime: env.DIGEST_TIME,
+    digestChannelId: env.DIGEST_CHANNEL_ID ?? env.SLACK_CHANNEL_ID,
+    actionTracking: env.ACTION_TRACKING === "true",
+    actionReminders: env.ACTION_REMINDERS,
+    actionReminderTime: env.ACTION_REMINDER_TIME,
+    exportDir: expandHome(env.EXPORT_DIR),
+    exportFormat: env.EXPORT_FORMAT,
+    exportFilename: env.EXPORT_FILENAME,
   };
 };
@@ -0,0 +1,293 @@
+/**
+ * Weekly digest: a Slack message per channel covering every meeting processed
+ * in a period. Meetings go to the digest channel, or to their route's channel
+ * when it has one. It's built from the extractions stored with each run, so
+ * the model is called once per extraction backend over the aggregate (for the
+ * overview and merged decisions) rather than once per meeting.
+ */
+import type { Config } from "./config.js";
+import {
+  digestSummarySchema,
+  type Digest,
+  type DigestSummary,
+  type MeetingExtraction,
+} from "./types.js";
+import { createExtractor } from "./extract.js";
+import { splitAssignees } from "./people.js";
+import { applyRoute } from "./routing.js";
+import { issueUrl } from "./tickets.js";
+import { similarity } from "./similarity.js";
+import { buildDigestMessage, postDigest } from "./slack.js";
+import {
+  getActionItem,
+  getActionItemSource,
+  getDigestChannelTimes,
+  getSyncedDocument,
+  listCompletedRuns,
+  markChannelDigestPosted,
+} from "./state.js";
+import { fromWallTime, toWallTime } from "./timezone.js";
+
+export const DIGEST_DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type DigestDay = (typeof DIGEST_DAYS)[number];
+
+export const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Follow-ups worded this alike in different meetings count as the same one
+const SAME_FOLLOW_UP_THRESHOLD = 0.5;
+
+const UNASSIGNED = "Unassigned";
+
+const SUMMARY_PROMPT = `You are writing a digest of a team's meetings. Below are the summary, decisions and follow-ups of every meeting processed in the period.
+
+Rules:
+- The overview covers the period as a whole, not meeting by meeting
+- Merge decisions that are the same, and drop ones a later decision replaced
+- Don't add anything the meetings below don't support
+
+Record the result with the record_meeting_extraction tool.`;
+
+interface DigestMeeting {
+  granolaDocId: string;
+  title: string;
+  /** When the meeting's run finished, which places it in a period */
+  finishedAt: Date;
+  /** The config of the route the meeting took */
+  routed: Config;
+  extraction: MeetingExtraction;
+  ticketsCreated: Array<{ key: string; summary?: string; url: string }>;
+}
+
+// ── Schedule ───────────────────────────────────────────────────────
+
+/** The scheduled digest times either side of `now`, in the calendar time zone. */
+export const digestTimes = (config: Config, now = new Date()): { previous: Date; next: Date } => {
+  const wall = new Date(toWallTime(now, config.calendarTimeZone));
+  const [hour, minute] = config.digestTime.split(":").map(Number);
+  const daysAhead = (config.digestDay - wall.getUTCDay() + 7) % 7;
+  const at = (days: number) =>
+    fromWallTime(
+      Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + days, hour, minute),
+      config.calendarTimeZone
+    );
+
+  const thisWeek = at(daysAhead);
+  return thisWeek > now
+    ? { previous: at(daysAhead - 7), next: thisWeek }
+    : { previous: thisWeek, next: at(daysAhead + 7) };
+};
+
+// ── Aggregation ────────────────────────────────────────────────────
+
+// Items already marked done aren't worth listing again
+const openActionItems = async (granolaDocId: string, extraction: MeetingExtraction): Promise<MeetingExtraction["actionItems"]> => {
+  const open: MeetingExtraction["actionItems"] = [];
+  for (const [index, item] of extraction.actionItems.entries()) {
+    const id = await getActionItemSource(granolaDocId, index);
+    const tracked = id === undefined ? undefined : await getActionItem(id);
+    if (tracked?.status !== "done") open.push(item);
+  }
+  return open;
+};
+
+const gatherMeetings = async (config: Config, since: Date, until: Date): Promise<DigestMeeting[]> => {
+  const meetings: DigestMeeting[] = [];
+
+  for (const run of await listCompletedRuns(since, until)) {
+    // The synced document reflects later edits to the notes, and knows the filed tickets' summaries
+    const document = await getSyncedDocument(run.granolaDocId);
+    const extracted = document?.extraction ?? run.extraction;
+    if (!extracted) continue;
+    // Linked in the tracker the meeting was routed to
+    const routed = applyRoute(config, config.routes.find((r) => r.name === run.route));
+    // Routes that keep their summaries out of Slack keep them out of the digest too
+    if (!routed.notifiers.includes("slack")) continue;
+    const extraction = config.actionTracking
+      ? { ...extracted, actionItems: await openActionItems(run.granolaDocId, extracted) }
+      : extracted;
+
+    meetings.push({
+      granolaDocId: run.granolaDocId,
+      title: run.meetingTitle,
+      finishedAt: new Date(run.finishedAt ?? 0),
+      routed,
+      extraction,
+      ticketsCreated: (document
+        ? document.tickets.flatMap((t) => (t?.action === "created" ? [{ key: t.key, summary: t.summary }] : []))
+        : run.ticketKeys.map((key) => ({ key }))
+      ).map((t) => ({ ...t, url: issueUrl(routed, t.key) })),
+    });
+  }
+  return meetings;
+};
+
+const groupActionItems = (meetings: DigestMeeting[]): Digest["actionItems"] => {
+  const groups = new Map<string, Digest["actionItems"][number]>();
+
+  for (const meeting of meetings) {
+    for (const item of meeting.extraction.actionItems) {
+      // Shared items show up under each person
+      for (const name of item.assignee ? splitAssignees(item.assignee) : [UNASSIGNED]) {
+        const key = name.toLowerCase();
+        const group = groups.get(key) ?? { assignee: name, items: [] };
+        group.items.push({ ...item, meetingTitle: meeting.title });
+        groups.set(key, group);
+      }
+    }
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    a.assignee === UNASSIGNED ? 1 : b.assignee === UNASSIGNED ? -1 : a.assignee.localeCompare(b.assignee)
+  );
+};
+
+const findRecurringFollowUps = (meetings: DigestMeeting[]): Digest["recurringFollowUps"] => {
+  const clusters: Array<{ followUp: string; meetings: DigestMeeting[] }> = [];
+
+  for (const meeting of meetings) {
+    for (const followUp of meeting.extraction.followUps) {
+      const cluster = clusters.find((c) => similarity(c.followUp, followUp) >= SAME_FOLLOW_UP_THRESHOLD);
+      if (!cluster) clusters.push({ followUp, meetings: [meeting] });
+      else if (!cluster.meetings.includes(meeting)) cluster.meetings.push(meeting);
+    }
+  }
+
+  return clusters
+    .filter((c) => c.meetings.length > 1)
+    .sort((a, b) => b.meetings.length - a.meetings.length)
+    .map((c) => ({ followUp: c.followUp, meetingTitles: c.meetings.map((m) => m.title) }));
+};
+
+// One model call over the meetings' summaries, decisions and follow-ups, with the backend they were routed to
+const summarize = async (config: Config, meetings: DigestMeeting[]): Promise<DigestSummary | undefined> => {
+  const extractor = createExtractor(config);
+  console.log(`   Summarizing with ${extractor.name}`);
+
+  const context = meetings
+    .map(({ title, extraction }) =>
+      [
+        `## ${title}`,
+        extraction.meetingSummary,
+        ...(extraction.keyDecisions.length > 0 ? ["Decisions:", ...extraction.keyDecisions.map((d) => `- ${d}`)] : []),
+        ...(extraction.followUps.length > 0 ? ["Follow-ups:", ...extraction.followUps.map((f) => `- ${f}`)] : []),
+      ].join("\n")
+    )
+    .join("\n\n");
+
+  try {
+    return await extractor.extract(`${SUMMARY_PROMPT}\n\n---\n\n${context}`, config.extraction.maxTokens, digestSummarySchema);
+  } catch (err) {
+    console.warn("   ⚠️  Digest summary failed, posting the decisions as extracted:", err);
+    return undefined;
+  }
+};
+
+const groupBy = <T>(items: T[], key: (item: T) => string): T[][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  return [...groups.values()];
+};
+
+// Summaries of meetings never leave the backend their route extracts them with
+const summarizeByBackend = async (
+  meetings: DigestMeeting[]
+): Promise<Pick<Digest, "overview" | "keyDecisions">> => {
+  const overviews: string[] = [];
+  const keyDecisions: string[] = [];
+  for (const group of groupBy(meetings, (m) => m.routed.extraction.backend)) {
+    const summary = await summarize(group[0].routed, group);
+    if (summary?.overview) overviews.push(summary.overview);
+    keyDecisions.push(
+      ...(summary?.keyDecisions ??
+        group.flatMap((m) => m.extraction.keyDecisions.map((decision) => `${decision} (${m.title})`)))
+    );
+  }
+  return { overview: overviews.length > 0 ? overviews.join("\n\n") : undefined, keyDecisions };
+};
+
+// Routes that post to their own Slack channel get their own digest there
+const digestChannel = (config: Config, meeting: DigestMeeting): string =>
+  meeting.routed.slackChannelId === config.slackChannelId ? config.digestChannelId : meeting.routed.slackChannelId;
+
+const buildChannelDigest = async (channel: string, meetings: DigestMeeting[], since: Date, until: Date): Promise<Digest> => {
+  console.log(`   ${channel}: ${meetings.length} meetings`);
+  const { overview, keyDecisions } = await summarizeByBackend(meetings);
+
+  return {
+    channel,
+    since,
+    until,
+    meetingTitles: meetings.map((m) => m.title),
+    overview,
+    keyDecisions,
+    actionItems: groupActionItems(meetings),
+    ticketsCreated: meetings.flatMap((m) => m.ticketsCreated.map((t) => ({ ...t, meetingTitle: m.title }))),
+    recurringFollowUps: findRecurringFollowUps(meetings),
+  };
+};
+
+/**
+ * Aggregate every meeting processed in [since, until), one digest per channel.
+ * A channel in `channelSince` starts from its own time instead. Empty when
+ * there were none.
+ */
+export const buildDigests = async (
+  config: Config,
+  since: Date,
+  until: Date,
+  channelSince = new Map<string, Date>()
+): Promise<Digest[]> => {
+  const digests: Digest[] = [];
+  for (const group of groupBy(await gatherMeetings(config, since, until), (m) => digestChannel(config, m))) {
+    const channel = digestChannel(config, group[0]);
+    const from = channelSince.get(channel) ?? since;
+    const meetings = group.filter((m) => m.finishedAt >= from);
+    if (meetings.length > 0) digests.push(await buildChannelDigest(channel, meetings, from, until));
+  }
+  return digests;
+};
+
+/**
+ * Build the digests for [since, until) and post each to its channel. With
+ * `dryRun` the Slack messages are printed instead. Throws once every digest
+ * has been tried if any failed to post. A `scheduled` digest records each
+ * channel it reaches, and leaves out what a channel already got from a
+ * scheduled digest that failed elsewhere, so retrying only re-posts to the
+ * channels that failed.
+ */
+export const runDigest = async (
+  config: Config,
+  since: Date,
+  until: Date,
+  options: { dryRun?: boolean; scheduled?: boolean } = {}
+): Promise<Digest[]> => {
+  console.log(`\n🗓️  Building digest of meetings processed ${since.toLocaleString()} – ${until.toLocaleString()}...`);
+  const channelSince = options.scheduled ? await getDigestChannelTimes() : undefined;
+  const digests = await buildDigests(config, since, until, channelSince);
+  if (digests.length === 0) {
+    console.log("   No meetings were processed in that period — nothing to post.");
+    return digests;
+  }
+
+  if (options.dryRun) {
+    for (const digest of digests) console.log(JSON.stringify(buildDigestMessage(config, digest), null, 2));
+    console.log("🧪 Dry run — the digest was not posted.\n");
+    return digests;
+  }
+
+  const errors: unknown[] = [];
+  for (const digest of digests) {
+    try {
+      const ts = await postDigest(config, digest);
+      if (options.scheduled) await markChannelDigestPosted(digest.channel, until);
+      console.log(`✅ Posted digest of ${digest.meetingTitles.length} meetings to ${digest.channel} (ts: ${ts})`);
+    } catch (err) {
+      console.error(`   ❌ Failed to post the digest to ${digest.channel}:`, err);
+      errors.push(err);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`${errors.length} of ${digests.length} digests failed to post`, { cause: errors[0] });
+  }
+  return digests;
+};
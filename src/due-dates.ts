@@ -0,0 +1,151 @@
+/**
+ * Due dates as extracted are whatever was said ("Friday", "end of sprint",
+ * "2026-11-03"). These are resolved to a calendar day (YYYY-MM-DD) relative
+ * to when the meeting took place, in the calendar time zone. The phrase is
+ * kept alongside, and one that can't be resolved stays as text.
+ */
+import type { Config } from "./config.js";
+import type { MeetingData } from "./types.js";
+import { toWallTime } from "./timezone.js";
+
+/** Fixed-length sprints, counted forwards and backwards from one that started on `start`. */
+export interface SprintCalendar {
+  /** YYYY-MM-DD */
+  start: string;
+  lengthDays: number;
+}
+
+/** A deadline as said in the meeting, and the day it resolves to. */
+export interface DueDate {
+  text: string;
+  /** YYYY-MM-DD; missing when the phrase couldn't be read as a date */
+  date?: string;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// "fri", "thurs" and "friday" all name Friday
+const indexOfName = (names: string[], word: string): number =>
+  word.length >= 3 ? names.findIndex((name) => name.startsWith(word)) : -1;
+
+// A date that would land this far in the past is meant for next year ("Jan 5" said in December)
+const PAST_DATE_MEANS_NEXT_YEAR_MS = 60 * 24 * 60 * 60 * 1000;
+
+/** Calendar day of `date` in `timeZone`, as a UTC midnight. */
+const dayOf = (date: Date, timeZone?: string): Date => {
+  const wall = new Date(toWallTime(date, timeZone));
+  return new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate()));
+};
+
+const addDays = (day: Date, days: number): Date =>
+  new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() + days));
+
+const isWeekend = (day: Date): boolean => day.getUTCDay() === 0 || day.getUTCDay() === 6;
+
+/** The sprint containing `day`, or `offset` sprints after it. Sprints end on their last weekday. */
+const sprintOf = (day: Date, sprints: SprintCalendar, offset = 0): { start: Date; end: Date } => {
+  const first = new Date(`${sprints.start}T00:00:00Z`);
+  const elapsedDays = Math.round((day.getTime() - first.getTime()) / 86_400_000);
+  const start = addDays(first, (Math.floor(elapsedDays / sprints.lengthDays) + offset) * sprints.lengthDays);
+
+  let end = addDays(start, sprints.lengthDays - 1);
+  while (isWeekend(end) && end > start) end = addDays(end, -1);
+  return { start, end };
+};
+
+// The next `weekday` strictly after `day`
+const nextWeekday = (day: Date, weekday: number): Date => addDays(day, ((weekday - day.getUTCDay() + 6) % 7) + 1);
+
+export const formatIsoDay = (day: Date): string => day.toISOString().slice(0, 10);
+
+/** Today's date (YYYY-MM-DD) in `timeZone`. */
+export const today = (timeZone?: string, now = new Date()): string => formatIsoDay(dayOf(now, timeZone));
+
+/**
+ * Resolve a due-date phrase against the meeting date. Returns YYYY-MM-DD, or
+ * undefined when the phrase isn't understood. Sprint phrases ("end of
+ * sprint", "next sprint") need a sprint calendar.
+ */
+export const normalizeDueDate = (
+  phrase: string,
+  meetingDate: Date,
+  timeZone?: string,
+  sprints?: SprintCalendar
+): string | undefined => {
+  const text = phrase
+    .toLowerCase()
+    .trim()
+    .replace(/^(by|before|on|due|until)\s+/, "")
+    .replace(/^the\s+/, "")
+    .replace(/(\d)(st|nd|rd|th)\b/g, "$1")
+    .replace(/\s+/g, " ");
+  const base = dayOf(meetingDate, timeZone);
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])];
+    const date = new Date(Date.UTC(year, month, day));
+    // Date.UTC rolls "2026-02-30" over into March; that's a misheard date, not a deadline
+    return date.getUTCMonth() === month && date.getUTCDate() === day ? formatIsoDay(date) : undefined;
+  }
+
+  if (/^(today|tonight|eod|end of (the )?day)$/.test(text)) return formatIsoDay(base);
+  if (text === "tomorrow") return formatIsoDay(addDays(base, 1));
+  if (/^(eow|end of (the )?week|this week)$/.test(text)) return formatIsoDay(addDays(base, (5 - base.getUTCDay() + 7) % 7));
+  if (text === "next week") return formatIsoDay(nextWeekday(base, 1));
+  if (/^(eom|end of (the )?month|this month)$/.test(text)) {
+    return formatIsoDay(new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + 1, 0)));
+  }
+
+  if (/\bsprint\b|^eos$/.test(text)) {
+    if (!sprints) return undefined;
+    if (/^(eos|end of (the |this |current |the current )?sprint|this sprint)$/.test(text)) {
+      return formatIsoDay(sprintOf(base, sprints).end);
+    }
+    if (/^end of (the )?next sprint$/.test(text)) return formatIsoDay(sprintOf(base, sprints, 1).end);
+    if (/^((start|beginning) of (the )?)?next sprint$/.test(text)) return formatIsoDay(sprintOf(base, sprints, 1).start);
+    return undefined;
+  }
+
+  const inPeriod = /^in (\d+|a|one|two) (day|week)s?$/.exec(text);
+  if (inPeriod) {
+    const count = { a: 1, one: 1, two: 2 }[inPeriod[1]] ?? Number(inPeriod[1]);
+    return formatIsoDay(addDays(base, count * (inPeriod[2] === "week" ? 7 : 1)));
+  }
+
+  // "friday", "this friday", "next friday" (the one after this coming one)
+  const weekday = /^(this |next )?([a-z]+)$/.exec(text);
+  const weekdayIndex = weekday ? indexOfName(WEEKDAYS, weekday[2]) : -1;
+  if (weekday && weekdayIndex !== -1) {
+    const day = nextWeekday(base, weekdayIndex);
+    return formatIsoDay(weekday[1] === "next " ? addDays(day, 7) : day);
+  }
+
+  // "oct 25", "october 25", "25 october"
+  const monthDay =
+    /^([a-z]+)\.? (\d{1,2})(?:,? (\d{4}))?$/.exec(text) ?? /^(\d{1,2}) ([a-z]+)\.?(?:,? (\d{4}))?$/.exec(text);
+  if (monthDay) {
+    const [monthName, dayNumber] = /^\d/.test(monthDay[1]) ? [monthDay[2], monthDay[1]] : [monthDay[1], monthDay[2]];
+    const month = indexOfName(MONTHS, monthName);
+    if (month === -1) return undefined;
+
+    const year = monthDay[3] ? Number(monthDay[3]) : base.getUTCFullYear();
+    let date = new Date(Date.UTC(year, month, Number(dayNumber)));
+    if (!monthDay[3] && base.getTime() - date.getTime() > PAST_DATE_MEANS_NEXT_YEAR_MS) {
+      date = new Date(Date.UTC(year + 1, month, Number(dayNumber)));
+    }
+    return date.getUTCMonth() === month ? formatIsoDay(date) : undefined;
+  }
+
+  return undefined;
+};
+
+/** A deadline phrase from `meeting`, resolved with the configured time zone and sprint calendar. */
+export const resolveDueDate = (config: Config, text: string, meeting: Pick<MeetingData, "createdAt">): DueDate => ({
+  text,
+  date: normalizeDueDate(text, new Date(meeting.createdAt), config.calendarTimeZone, config.sprintCalendar),
+});
@@ -0,0 +1,344 @@
+/**
+ * Meeting exports: one file per meeting with its notes, transcript, summary,
+ * decisions, action items and ticket links, for a notes vault or an archive.
+ * Markdown starts with YAML front matter, which Obsidian and Logseq read as
+ * page properties; JSON is the same data for scripts; HTML is a standalone page.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { Config } from "./config.js";
+import type { GranolaClient } from "./granola.js";
+import type { GranolaDocument, MeetingData, MeetingExtraction } from "./types.js";
+import { applyRoute } from "./routing.js";
+import { issueUrl } from "./tickets.js";
+import { resolveDueDate, today, type DueDate } from "./due-dates.js";
+import {
+  getActionItem,
+  getActionItemSource,
+  getSyncedDocument,
+  listCompletedRuns,
+} from "./state.js";
+
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: "md", json: "json", html: "html" };
+
+export const DEFAULT_EXPORT_FILENAME = "{{date}} {{title}}";
+
+/** Everything written for one meeting; the JSON format is exactly this. */
+export interface MeetingExport {
+  id: string;
+  title: string;
+  /** Day of the meeting (YYYY-MM-DD) in the calendar time zone */
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+  attendees: string[];
+  summary: string;
+  decisions: string[];
+  actionItems: Array<{
+    description: string;
+    assignee?: string;
+    priority: string;
+    due?: DueDate;
+    /** Only known with action tracking on */
+    done?: boolean;
+  }>;
+  followUps: string[];
+  tickets: Array<{ key: string; summary?: string; url: string }>;
+  /** Enhanced notes as Markdown */
+  notes: string;
+  transcript: string;
+}
+
+/** Assemble the export for a meeting from its extraction and the tickets filed from it. */
+export const buildMeetingExport = async (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  tickets: Array<{ key: string; summary?: string }>
+): Promise<MeetingExport> => {
+  const actionItems: MeetingExport["actionItems"] = [];
+  for (const [index, item] of extraction.actionItems.entries()) {
+    const trackedId = config.actionTracking ? await getActionItemSource(meeting.id, index) : undefined;
+    const tracked = trackedId === undefined ? undefined : await getActionItem(trackedId);
+    actionItems.push({
+      description: item.description,
+      ...(item.assignee ? { assignee: item.assignee } : {}),
+      priority: item.priority,
+      ...(item.dueDate ? { due: resolveDueDate(config, item.dueDate, meeting) } : {}),
+      ...(tracked ? { done: tracked.status === "done" } : {}),
+    });
+  }
+
+  return {
+    id: meeting.id,
+    title: meeting.title,
+    date: today(config.calendarTimeZone, new Date(meeting.createdAt)),
+    createdAt: meeting.createdAt,
+    updatedAt: meeting.updatedAt,
+    attendees: meeting.attendees.map((a) => a.name),
+    summary: extraction.meetingSummary,
+    decisions: extraction.keyDecisions,
+    actionItems,
+    followUps: extraction.followUps,
+    tickets: tickets.map((t) => ({
+      key: t.key,
+      ...(t.summary ? { summary: t.summary } : {}),
+      url: issueUrl(config, t.key),
+    })),
+    notes: meeting.notesMarkdown,
+    transcript: meeting.transcript,
+  };
+};
+
+// ── Formats ────────────────────────────────────────────────────────
+
+const describeDue = (due: DueDate): string =>
+  due.date ? `due ${due.date}${due.text === due.date ? "" : `, "${due.text}"`}` : `due "${due.text}" ⚠️ not a date`;
+
+export const describeActionItem = (item: MeetingExport["actionItems"][number]): string => {
+  const details = [item.priority, ...(item.due ? [describeDue(item.due)] : [])].join(", ");
+  return `${item.description}${item.assignee ? ` — ${item.assignee}` : ""} (${details})`;
+};
+
+// Double-quoted YAML strings are JSON strings
+const yamlList = (key: string, values: string[]): string[] =>
+  values.length > 0 ? [`${key}:`, ...values.map((v) => `  - ${JSON.stringify(v)}`)] : [`${key}: []`];
+
+// The notes sit under a level-2 heading, so their own headings move down to match
+const nestHeadings = (markdown: string): string =>
+  markdown.replace(/^(#{1,4}) /gm, (_, hashes: string) => `${hashes}## `);
+
+const markdownSection = (title: string, lines: string[]): string[] =>
+  lines.length > 0 ? [`## ${title}`, "", ...lines, ""] : [];
+
+const toMarkdown = (record: MeetingExport): string =>
+  [
+    "---",
+    `title: ${JSON.stringify(record.title)}`,
+    `date: ${record.date}`,
+    `granola_id: ${JSON.stringify(record.id)}`,
+    ...yamlList("attendees", record.attendees),
+    ...yamlList("tickets", record.tickets.map((t) => t.key)),
+    "tags:",
+    "  - meeting",
+    "---",
+    "",
+    `# ${record.title}`,
+    "",
+    ...markdownSection("Summary", [record.summary]),
+    ...markdownSection("Decisions", record.decisions.map((d) => `- ${d}`)),
+    // Task checkboxes, so vault task queries pick them up
+    ...markdownSection("Action Items", record.actionItems.map((item) => `- [${item.done ? "x" : " "}] ${describeActionItem(item)}`)),
+    ...markdownSection("Tickets", record.tickets.map((t) => `- [${t.key}](${t.url})${t.summary ? ` ${t.summary}` : ""}`)),
+    ...markdownSection("Follow-ups", record.followUps.map((f) => `- ${f}`)),
+    ...markdownSection("Notes", record.notes ? [nestHeadings(record.notes)] : []),
+    ...markdownSection("Transcript", record.transcript ? [record.transcript.split("\n").join("\n\n")] : []),
+  ].join("\n");
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** The Markdown proseMirrorToMarkdown writes: headings, paragraphs and flat lists. */
+const notesToHtml = (markdown: string): string =>
+  markdown
+    .split(/\n{2,}/)
+    .map((block) => {
+      const heading = /^(#{1,6}) (.*)$/s.exec(block);
+      if (heading) {
+        const level = Math.min(heading[1].length + 2, 6);
+        return `<h${level}>${escapeHtml(heading[2])}</h${level}>`;
+      }
+      const lines = block.split("\n");
+      if (lines.every((line) => /^- /.test(line))) {
+        return `<ul>${lines.map((line) => `<li>${escapeHtml(line.slice(2))}</li>`).join("")}</ul>`;
+      }
+      if (lines.every((line) => /^\d+\. /.test(line))) {
+        return `<ol>${lines.map((line) => `<li>${escapeHtml(line.replace(/^\d+\. /, ""))}</li>`).join("")}</ol>`;
+      }
+      return `<p>${lines.map(escapeHtml).join("<br>")}</p>`;
+    })
+    .join("\n");
+
+const htmlSection = (title: string, body: string | undefined): string =>
+  body ? `<section>\n<h2>${escapeHtml(title)}</h2>\n${body}\n</section>` : "";
+
+const htmlList = (items: string[]): string | undefined =>
+  items.length > 0 ? `<ul>${items.map((item) => `<li>${item}</li>`).join("")}</ul>` : undefined;
+
+const STYLE = `body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;line-height:1.5;color:#222}
+.meta{color:#666}.done{text-decoration:line-through;color:#666}.transcript p{margin:.25rem 0}`;
+
+const toHtml = (record: MeetingExport): string =>
+  [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    `<head><meta charset="utf-8"><meta name="granola-id" content="${escapeHtml(record.id)}"><title>${escapeHtml(record.title)}</title><style>${STYLE}</style></head>`,
+    "<body>",
+    `<h1>${escapeHtml(record.title)}</h1>`,
+    `<p class="meta">${record.date}${record.attendees.length > 0 ? ` · ${escapeHtml(record.attendees.join(", "))}` : ""}</p>`,
+    htmlSection("Summary", `<p>${escapeHtml(record.summary)}</p>`),
+    htmlSection("Decisions", htmlList(record.decisions.map(escapeHtml))),
+    htmlSection(
+      "Action Items",
+      htmlList(record.actionItems.map((item) => `<span${item.done ? ` class="done"` : ""}>${escapeHtml(describeActionItem(item))}</span>`))
+    ),
+    htmlSection(
+      "Tickets",
+      htmlList(record.tickets.map((t) => `<a href="${escapeHtml(t.url)}">${escapeHtml(t.key)}</a>${t.summary ? ` ${escapeHtml(t.summary)}` : ""}`))
+    ),
+    htmlSection("Follow-ups", htmlList(record.followUps.map(escapeHtml))),
+    htmlSection("Notes", record.notes ? notesToHtml(record.notes) : undefined),
+    htmlSection(
+      "Transcript",
+      record.transcript
+        ? `<div class="transcript">${record.transcript.split("\n").map((line) => `<p>${escapeHtml(line)}</p>`).join("\n")}</div>`
+        : undefined
+    ),
+    "</body>",
+    "</html>",
+    "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export const formatMeetingExport = (record: MeetingExport, format: ExportFormat): string => {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(record);
+    case "json":
+      return `${JSON.stringify(record, null, 2)}\n`;
+    case "html":
+      return toHtml(record);
+  }
+};
+
+// ── Files ──────────────────────────────────────────────────────────
+
+// Characters that aren't safe in file names on macOS, Windows or Linux
+const safeName = (value: string): string =>
+  value.replace(/[\\/:*?"<>|\x00-\x1f]/g, "-").replace(/\s+/g, " ").trim().slice(0, 120);
+
+/**
+ * File path for a meeting from `template`, which may use {{date}}, {{year}},
+ * {{month}}, {{title}} and {{id}}. Slashes in the template make folders; the
+ * values themselves are made safe for file names. The extension is added.
+ */
+export const exportFileName = (template: string, record: MeetingExport, format: ExportFormat): string => {
+  const values: Record<string, string> = {
+    date: record.date,
+    year: record.date.slice(0, 4),
+    month: record.date.slice(5, 7),
+    title: record.title,
+    id: record.id,
+  };
+  const name = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? safeName(values[key]) : match
+  );
+  return `${name || record.id}.${EXTENSIONS[format]}`;
+};
+
+export interface ExportOptions {
+  dir: string;
+  format: ExportFormat;
+  filename: string;
+}
+
+// Every format records the Granola ID: front matter, the JSON `id`, an HTML meta tag
+const writtenFor = (path: string, id: string): boolean => {
+  const content = readFileSync(path, "utf8");
+  return content.includes(JSON.stringify(id)) || content.includes(`<meta name="granola-id" content="${escapeHtml(id)}">`);
+};
+
+/**
+ * Write one meeting's export. Returns the file path; the meeting's own earlier
+ * file is replaced. When the name is taken by another meeting (same title on
+ * the same day), a short ID is added to the name instead.
+ */
+export const writeMeetingExport = (record: MeetingExport, options: ExportOptions): string => {
+  let path = join(options.dir, exportFileName(options.filename, record, options.format));
+  if (existsSync(path) && !writtenFor(path, record.id)) {
+    const extension = `.${EXTENSIONS[options.format]}`;
+    path = `${path.slice(0, -extension.length)} (${safeName(record.id.slice(0, 8))})${extension}`;
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, formatMeetingExport(record, options.format));
+  return path;
+};
+
+/** Pipeline sink: export a meeting just processed, when EXPORT_DIR is set. Failures are only logged. */
+export const exportProcessedMeeting = async (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  tickets: Array<{ key: string; summary?: string }>
+): Promise<void> => {
+  if (!config.exportDir) return;
+  try {
+    const record = await buildMeetingExport(config, meeting, extraction, tickets);
+    const path = writeMeetingExport(record, { dir: config.exportDir, format: config.exportFormat, filename: config.exportFilename });
+    console.log(`📝 Exported to ${path}`);
+  } catch (err) {
+    console.warn("   ⚠️  Export failed:", err);
+  }
+};
+
+// ── Processed meetings ─────────────────────────────────────────────
+
+const PAGE_SIZE = 100;
+
+/** Granola docs for `ids`, paging back through the account until all are found. */
+const fetchDocumentsById = async (granola: GranolaClient, ids: Set<string>): Promise<Map<string, GranolaDocument>> => {
+  const found = new Map<string, GranolaDocument>();
+  for (let offset = 0; found.size < ids.size; offset += PAGE_SIZE) {
+    const page = await granola.fetchDocuments(PAGE_SIZE, offset);
+    for (const doc of page) if (ids.has(doc.id)) found.set(doc.id, doc);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return found;
+};
+
+/**
+ * Export processed meetings: the one with `id`, or those held in [from, to),
+ * or all of them. Each uses its latest extraction (including later edits
+ * picked up by sync) and the tickets filed from it. Returns the paths written.
+ */
+export const exportMeetings = async (
+  config: Config,
+  granola: GranolaClient,
+  selection: { id?: string; from?: Date; to?: Date },
+  options: ExportOptions
+): Promise<string[]> => {
+  const runs = (await listCompletedRuns(new Date(0), new Date())).filter(
+    (run) => !selection.id || run.granolaDocId === selection.id
+  );
+  const docs = await fetchDocumentsById(granola, new Set(runs.map((run) => run.granolaDocId)));
+  const paths: string[] = [];
+
+  for (const run of runs) {
+    const doc = docs.get(run.granolaDocId);
+    if (!doc) {
+      console.warn(`   ⚠️  "${run.meetingTitle}" is no longer in Granola — skipped`);
+      continue;
+    }
+    const held = new Date(doc.created_at);
+    if ((selection.from && held < selection.from) || (selection.to && held >= selection.to)) continue;
+
+    const document = await getSyncedDocument(run.granolaDocId);
+    const extraction = document?.extraction ?? run.extraction;
+    if (!extraction) continue;
+    const tickets = document
+      ? document.tickets.flatMap((t) => (t ? [{ key: t.key, summary: t.summary }] : []))
+      : run.ticketKeys.map((key) => ({ key }));
+
+    // Ticket links point into the tracker the meeting was routed to
+    const routed = applyRoute(config, config.routes.find((r) => r.name === run.route));
+    const record = await buildMeetingExport(routed, await granola.fetchMeeting(doc), extraction, tickets);
+    const path = writeMeetingExport(record, options);
+    console.log(`   📝 ${path}`);
+    paths.push(path);
+  }
+  return paths;
+};
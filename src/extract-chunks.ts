@@ -0,0 +1,133 @@
+/**
+ * Map-reduce support for meetings too long for one extraction call: split the
+ * transcript into overlapping time windows, then merge the per-chunk results.
+ */
+import {
+  meetingExtractionSchema,
+  type ActionItem,
+  type EngineeringTicket,
+  type InterviewInsights,
+  type MeetingExtraction,
+  type TranscriptSegment,
+} from "./types.js";
+import { similarity } from "./similarity.js";
+
+// Close enough to count as the same item when chunks overlap
+const SAME_ITEM_THRESHOLD = 0.6;
+
+const PRIORITY_ORDER = ["Lowest", "Low", "Medium", "High", "Highest"] as const;
+
+/** Rough token count — about four characters per token for English text. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const toMs = (iso: string): number => new Date(iso).getTime();
+
+/**
+ * Split segments into chunks of at most `maxTokens`. Each chunk after the
+ * first starts `overlapMs` before the previous one ended, so something said
+ * across a boundary is seen whole at least once. Segments without times get
+ * no overlap.
+ */
+export const chunkTranscript = (
+  segments: TranscriptSegment[],
+  maxTokens: number,
+  overlapMs: number
+): TranscriptSegment[][] => {
+  const chunks: TranscriptSegment[][] = [];
+  let start = 0;
+
+  while (start < segments.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < segments.length && (end === start || tokens + estimateTokens(segments[end].text) <= maxTokens)) {
+      tokens += estimateTokens(segments[end].text);
+      end++;
+    }
+    chunks.push(segments.slice(start, end));
+    if (end >= segments.length) break;
+
+    // Step back over segments inside the overlap window, but always move forward
+    const overlapFrom = toMs(segments[end - 1].end) - overlapMs;
+    let next = end;
+    while (next - 1 > start && toMs(segments[next - 1].start) >= overlapFrom) next--;
+    start = next;
+  }
+
+  return chunks;
+};
+
+// ── Merging ────────────────────────────────────────────────────────
+
+const higherPriority = <P extends string>(order: readonly P[], a: P, b: P): P =>
+  order.indexOf(a) >= order.indexOf(b) ? a : b;
+
+/** Keep the first of each group of near-identical items, folding later copies into it. */
+const dedupe = <T>(items: T[], text: (item: T) => string, combine: (kept: T, dup: T) => T): T[] => {
+  const kept: T[] = [];
+  for (const item of items) {
+    const index = kept.findIndex((k) => similarity(text(k), text(item)) >= SAME_ITEM_THRESHOLD);
+    if (index === -1) kept.push(item);
+    else kept[index] = combine(kept[index], item);
+  }
+  return kept;
+};
+
+const mergeActionItem = (kept: ActionItem, dup: ActionItem): ActionItem => ({
+  ...kept,
+  assignee: kept.assignee ?? dup.assignee,
+  dueDate: kept.dueDate ?? dup.dueDate,
+  priority: higherPriority(["Low", "Medium", "High"], kept.priority, dup.priority),
+});
+
+const mergeTicket = (kept: EngineeringTicket, dup: EngineeringTicket): EngineeringTicket => ({
+  ...kept,
+  description: dup.description.length > kept.description.length ? dup.description : kept.description,
+  priority: higherPriority(PRIORITY_ORDER, kept.priority, dup.priority),
+  acceptanceCriteria: dedupe([...(kept.acceptanceCriteria ?? []), ...(dup.acceptanceCriteria ?? [])], (c) => c, (c) => c),
+  assignee: kept.assignee ?? dup.assignee,
+});
+
+type Severity = InterviewInsights["painPoints"][number]["severity"];
+
+const mergeInsights = (partials: InterviewInsights[]): InterviewInsights => {
+  // Later chunks fill in what earlier ones didn't catch about the interviewee
+  const interviewee = partials.reduce((merged, p) => ({
+    name: merged.name ?? p.interviewee.name,
+    role: merged.role ?? p.interviewee.role,
+    company: merged.company ?? p.interviewee.company,
+    segment: merged.segment || p.interviewee.segment,
+  }), partials[0].interviewee);
+  const sentiments = new Set(partials.map((p) => p.sentiment));
+
+  return {
+    interviewee,
+    sentiment: sentiments.size === 1 ? partials[0].sentiment : "Mixed",
+    painPoints: dedupe(partials.flatMap((p) => p.painPoints), (pp) => pp.description, (kept, dup) => ({
+      ...kept,
+      severity: higherPriority<Severity>(["Low", "Medium", "High"], kept.severity, dup.severity),
+    })),
+    featureRequests: dedupe(partials.flatMap((p) => p.featureRequests), (fr) => fr.description, (kept, dup) => ({
+      ...kept,
+      rationale: kept.rationale ?? dup.rationale,
+    })),
+    jobsToBeDone: dedupe(partials.flatMap((p) => p.jobsToBeDone), (j) => j, (j) => j),
+    quotes: dedupe(partials.flatMap((p) => p.quotes), (q) => q.text, (q) => q),
+  };
+};
+
+/**
+ * Combine per-chunk extractions without another model call: concatenate and
+ * drop near-duplicates from the overlaps. Used as the draft for the reduce
+ * pass, and as the result if that pass fails.
+ */
+export const mergeExtractions = (partials: MeetingExtraction[]): MeetingExtraction =>
+  meetingExtractionSchema.parse({
+    meetingSummary: partials.map((p) => p.meetingSummary).join(" "),
+    keyDecisions: dedupe(partials.flatMap((p) => p.keyDecisions), (d) => d, (d) => d),
+    actionItems: dedupe(partials.flatMap((p) => p.actionItems), (a) => a.description, mergeActionItem),
+    engineeringTickets: dedupe(partials.flatMap((p) => p.engineeringTickets), (t) => t.summary, mergeTicket),
+    followUps: dedupe(partials.flatMap((p) => p.followUps), (f) => f, (f) => f),
+    interview: partials[0]?.interview
+      ? mergeInsights(partials.flatMap((p) => (p.interview ? [p.interview] : [])))
+      : undefined,
+  });
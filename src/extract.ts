@@ -1,5 +1,16 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { meetingExtractionSchema, type MeetingData, type MeetingExtraction } from "./types.js";
+import type { Config } from "./config.js";
+import {
+  engineeringExtractionSchema,
+  interviewExtractionSchema,
+  type MeetingData,
+  type MeetingExtraction,
+  type TranscriptSegment,
+} from "./types.js";
+import { chunkTranscript, estimateTokens, mergeExtractions } from "./extract-chunks.js";
+import { describeSpeakerStats, GROUP_SPEAKER } from "./transcript.js";
+import type { ExtractionBackend, ExtractionSchema, Extractor } from "./extractor.js";
+import { createAnthropicExtractor } from "./extractor-anthropic.js";
+import { createOpenAiExtractor, type OpenAiEndpoint } from "./extractor-openai.js";
 
 const EXTRACTION_PROMPT = `You are a meeting analyst for an engineering team. Given meeting notes and transcript, extract structured data.
 
@@ -9,38 +20,109 @@ Rules:
 - Infer priority from urgency cues in the conversation (blockers = High, nice-to-haves = Low)
 - If someone is clearly assigned something, include their name as assignee
 - Acceptance criteria should be testable statements
+- Give deadlines the way they were said ("Friday", "end of sprint"); they're resolved to dates later
 - Keep summaries concise but complete
 - If no engineering tickets or action items are present, return empty arrays — don't invent work
 
-Respond ONLY with a JSON object matching this schema (no markdown, no backticks):
-{
-  "meetingSummary": "string — 2-3 sentence summary of the meeting",
-  "keyDecisions": ["string — decisions that were made"],
-  "actionItems": [
-    {
-      "description": "string — what needs to be done",
-      "assignee": "string | null — who is responsible",
-      "dueDate": "string | null — any mentioned deadline",
-      "priority": "High | Medium | Low"
-    }
-  ],
-  "engineeringTickets": [
-    {
-      "summary": "string — ticket title, concise and descriptive",
-      "description": "string — detailed description with context from the meeting",
-      "issueType": "Bug | Story | Task | Spike",
-      "priority": "Highest | High | Medium | Low | Lowest",
-      "acceptanceCriteria": ["string — testable acceptance criteria"],
-      "assignee": "string | null"
-    }
-  ],
-  "followUps": ["string — items to revisit or discuss later"]
-}`;
+Record the result with the record_meeting_extraction tool.`;
+
+const interviewPrompt = (insightIssues: boolean) => `You are a product researcher. Given the notes and transcript of a customer interview, extract what we learned about the customer.
+
+Rules:
+- The interviewee is the customer; the interviewers are from our team. Attribute pain points, requests and quotes to the customer, not the interviewers
+- Pain points are problems the customer has today; severity reflects how much the problem costs them
+- Feature requests are things they asked for or clearly wished existed, with the reason they gave
+- Jobs-to-be-done describe the progress the customer is trying to make
+- Quotes must be verbatim from the transcript, with the time shown on that line. Pick the few that best capture their problems and requests
+- Sentiment is the customer's overall feeling toward the product
+- Action items are follow-ups our team owes the customer (send a deck, schedule a demo, loop in support)
+- Key decisions are anything agreed with the customer; leave empty if nothing was
+${
+  insightIssues
+    ? "- Engineering tickets are Product Insight issues for product managers: one per distinct feature request or significant pain point, with the customer segment and supporting quotes in the description. Use the customer's priority, not ours"
+    : "- Leave engineeringTickets empty"
+}
+- Don't invent anything the interview doesn't support
+
+Record the result with the record_meeting_extraction tool.`;
+
+// Prompt and schema by extraction profile, selectable per route or with the CLI's --profile
+const PROFILES = {
+  engineering: {
+    prompt: (_config: Config) => EXTRACTION_PROMPT,
+    schema: engineeringExtractionSchema as ExtractionSchema,
+  },
+  interview: {
+    prompt: (config: Config) => interviewPrompt(config.insightIssues),
+    schema: interviewExtractionSchema as ExtractionSchema,
+  },
+};
+
+export const EXTRACTION_PROFILES = Object.keys(PROFILES) as [ExtractionProfile, ...ExtractionProfile[]];
+export type ExtractionProfile = keyof typeof PROFILES;
+
+/** The profile an extraction was made with — only interviews carry insights. */
+export const profileOf = (extraction: MeetingExtraction): ExtractionProfile =>
+  extraction.interview ? "interview" : "engineering";
+
+export interface ExtractionSettings {
+  backend: ExtractionBackend;
+  anthropicModel: string;
+  openai?: OpenAiEndpoint;
+  maxTokens: number;
+  /** For the reduce pass, which writes out the whole merged extraction */
+  reduceMaxTokens: number;
+  /** Times a result that fails validation is sent back with the errors */
+  repairAttempts: number;
+}
+
+/** The backend selected by env settings or the meeting's route. Config validation ensures it's set up. */
+export const createExtractor = (config: Config): Extractor => {
+  const settings = config.extraction;
+  switch (settings.backend) {
+    case "anthropic":
+      return createAnthropicExtractor(config.anthropicApiKey!, settings.anthropicModel, settings.repairAttempts);
+    case "openai":
+      return createOpenAiExtractor(settings.openai!, settings.repairAttempts);
+  }
+};
+
+// Above this the meeting is extracted chunk by chunk, then merged
+const CHUNK_THRESHOLD_TOKENS = 40_000;
+const CHUNK_TOKENS = 20_000;
+const CHUNK_OVERLAP_MS = 2 * 60_000;
+
+const REDUCE_PROMPT = `This meeting was too long to analyze in one pass. Below are its enhanced notes (if any) and a draft extraction merged from consecutive, overlapping parts of the transcript.
+
+Produce the final extraction for the whole meeting:
+- Merge items that describe the same thing, including duplicates caused by the overlap between parts
+- Write one summary covering the whole meeting
+- Use the notes to fill in gaps, but don't drop items from the draft unless they duplicate another`;
+
+// Who was there and who talked, so commitments can be tied to names
+const describeParticipants = (meeting: MeetingData): string[] => {
+  const lines: string[] = [];
+  if (meeting.attendees.length > 0) {
+    const names = meeting.attendees.map((a) => (a.isNoteTaker ? `${a.name} (note taker)` : a.name));
+    lines.push(`Attendees: ${names.join(", ")}`);
+  }
+  if (meeting.speakerStats.some((s) => s.speaker === GROUP_SPEAKER)) {
+    lines.push(
+      `Transcript lines labelled "${GROUP_SPEAKER}" may be any attendee except the note taker — ` +
+        "work out who from context (names used, who is addressed) before assigning anything."
+    );
+  }
+  if (meeting.speakerStats.length > 0) {
+    lines.push(`Talk time: ${describeSpeakerStats(meeting.speakerStats)}`);
+  }
+  return lines;
+};
 
 const buildMeetingContext = (meeting: MeetingData): string => {
   const parts: string[] = [
     `Meeting: ${meeting.title}`,
     `Date: ${meeting.createdAt}`,
+    ...describeParticipants(meeting),
     "---",
   ];
 
@@ -55,30 +137,105 @@ const buildMeetingContext = (meeting: MeetingData): string => {
   return parts.join("\n\n");
 };
 
-export const extractMeetingData = async (
-  apiKey: string,
+const formatClock = (iso: string): string =>
+  iso ? new Date(iso).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" }) : "?";
+
+const buildChunkContext = (meeting: MeetingData, chunk: TranscriptSegment[], index: number, total: number): string =>
+  [
+    `Meeting: ${meeting.title}`,
+    `Date: ${meeting.createdAt}`,
+    ...describeParticipants(meeting),
+    `Part ${index + 1} of ${total} of the transcript (${formatClock(chunk[0].start)}–${formatClock(chunk[chunk.length - 1].end)}). ` +
+      "Parts overlap slightly. Extract only what is in this part.",
+    "---",
+    `## Transcript\n${chunk.map((segment) => segment.text).join("\n")}`,
+  ].join("\n\n");
+
+// Map: extract each chunk. Reduce: merge locally, then let the model consolidate with the notes.
+const extractInChunks = async (
+  extractor: Extractor,
+  config: Config,
   meeting: MeetingData
 ): Promise<MeetingExtraction> => {
-  const client = new Anthropic({ apiKey });
+  const settings = config.extraction;
+  const { prompt, schema } = PROFILES[config.extractionProfile];
+  // Meetings stored without segments fall back to untimed lines (no overlap)
+  const segments = meeting.transcriptSegments.length > 0
+    ? meeting.transcriptSegments
+    : meeting.transcript.split("\n").map((text) => ({ start: "", end: "", text }));
+  const chunks = chunkTranscript(segments, CHUNK_TOKENS, CHUNK_OVERLAP_MS);
+  console.log(`   Long meeting — extracting in ${chunks.length} chunks`);
+
+  const partials: MeetingExtraction[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    const context = buildChunkContext(meeting, chunk, i, chunks.length);
+    partials.push(
+      await extractor.extract(
+        `${prompt(config)}\n\n---\n\nHere are the meeting notes to analyze:\n\n${context}`,
+        settings.maxTokens,
+        schema
+      )
+    );
+  }
+
+  const draft = mergeExtractions(partials);
+  const notes = meeting.notesMarkdown ? `## Enhanced Notes\n${meeting.notesMarkdown}\n\n` : "";
+  const header = [`Meeting: ${meeting.title}`, `Date: ${meeting.createdAt}`, ...describeParticipants(meeting)].join("\n");
+  try {
+    return await extractor.extract(
+      `${prompt(config)}\n\n---\n\n${REDUCE_PROMPT}\n\n${header}\n\n` +
+        `${notes}## Draft Extraction\n${JSON.stringify(draft, null, 2)}`,
+      settings.reduceMaxTokens,
+      schema
+    );
+  } catch (err) {
+    console.warn("   ⚠️  Reduce pass failed, using the locally merged extraction:", err);
+    return draft;
+  }
+};
+
+// "09:05 AM", "9:05am" and "9:05 AM" are the same time on a transcript line
+const normalizeClock = (clock: string): string => clock.toLowerCase().replace(/\s+/g, "").replace(/^0(?=\d)/, "");
+
+/**
+ * Drop interview quotes whose timestamp isn't the time of any transcript
+ * turn — the model made it up, and likely the quote with it. Without a
+ * timed transcript there's nothing to check against, so quotes are kept.
+ */
+const checkQuoteTimestamps = (meeting: MeetingData, extraction: MeetingExtraction): MeetingExtraction => {
+  const clocks = new Set(
+    meeting.transcript.split("\n").flatMap((line) => {
+      const match = /^\[([^\]]+)\]/.exec(line);
+      return match ? [normalizeClock(match[1])] : [];
+    })
+  );
+  if (!extraction.interview || clocks.size === 0) return extraction;
+
+  const quotes = extraction.interview.quotes.filter((q) => clocks.has(normalizeClock(q.timestamp)));
+  const dropped = extraction.interview.quotes.length - quotes.length;
+  if (dropped === 0) return extraction;
+  console.warn(`   ⚠️  Dropped ${dropped} quotes whose timestamp matches no transcript turn`);
+  return { ...extraction, interview: { ...extraction.interview, quotes } };
+};
+
+export const extractMeetingData = async (config: Config, meeting: MeetingData): Promise<MeetingExtraction> => {
+  const extractor = createExtractor(config);
+  const { prompt, schema } = PROFILES[config.extractionProfile];
+  console.log(`   Using ${extractor.name}, ${config.extractionProfile} profile`);
   const meetingContext = buildMeetingContext(meeting);
 
-  const response = await client.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 4096,
-    messages: [
-      {
-        role: "user",
-        content: `${EXTRACTION_PROMPT}\n\n---\n\nHere are the meeting notes to analyze:\n\n${meetingContext}`,
-      },
-    ],
-  });
-
-  const text = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === "text")
-    .map((block) => block.text)
-    .join("");
-
-  const cleaned = text.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
-  const parsed = JSON.parse(cleaned);
-  return meetingExtractionSchema.parse(parsed);
+  const extraction = checkQuoteTimestamps(
+    meeting,
+    meeting.transcript && estimateTokens(meetingContext) > CHUNK_THRESHOLD_TOKENS
+      ? await extractInChunks(extractor, config, meeting)
+      : await extractor.extract(
+          `${prompt(config)}\n\n---\n\nHere are the meeting notes to analyze:\n\n${meetingContext}`,
+          config.extraction.maxTokens,
+          schema
+        )
+  );
+
+  // Insight issues are opt-in: the prompt asks for none when they're off, this makes sure
+  if (extraction.interview && !config.insightIssues) return { ...extraction, engineeringTickets: [] };
+  return extraction;
 };
@@ -0,0 +1,51 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { createAnthropicClient, withLimit } from "./http.js";
+import { EXTRACTION_TOOL_NAME, extractionTool, extractWithRepair, type Extractor } from "./extractor.js";
+
+/** Claude via the Messages API, with the extraction tool forced. */
+export const createAnthropicExtractor = (apiKey: string, model: string, repairAttempts: number): Extractor => {
+  const client = createAnthropicClient(apiKey);
+
+  return {
+    name: `anthropic (${model})`,
+    extract: (prompt, maxTokens, schema) => {
+      const { name, description, parameters } = extractionTool(schema);
+      const tool: Anthropic.Tool = { name, description, input_schema: parameters as Anthropic.Tool.InputSchema };
+      const messages: Anthropic.MessageParam[] = [{ role: "user", content: prompt }];
+      let last: Anthropic.Message | undefined;
+
+      return extractWithRepair(schema, repairAttempts, async (feedback) => {
+        // Repairs continue the conversation: our tool call, then the errors as its result
+        const lastCall = last?.content.find((block): block is Anthropic.ToolUseBlock => block.type === "tool_use");
+        if (feedback && last && lastCall) {
+          messages.push(
+            { role: "assistant", content: last.content },
+            { role: "user", content: [{ type: "tool_result", tool_use_id: lastCall.id, is_error: true, content: feedback }] }
+          );
+        }
+
+        const response = await withLimit("anthropic", () =>
+          client.messages.create({
+            model,
+            max_tokens: maxTokens,
+            tools: [tool],
+            tool_choice: { type: "tool", name: EXTRACTION_TOOL_NAME },
+            messages,
+          })
+        );
+        last = response;
+
+        const truncated = response.stop_reason === "max_tokens";
+        const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === "tool_use");
+        if (!toolUse) {
+          throw new Error(
+            truncated
+              ? `Extraction hit the ${maxTokens}-token output limit before calling ${EXTRACTION_TOOL_NAME} — raise EXTRACTION_MAX_TOKENS`
+              : `Claude didn't call ${EXTRACTION_TOOL_NAME} (stop reason: ${response.stop_reason})`
+          );
+        }
+        return { input: toolUse.input, truncated };
+      });
+    },
+  };
+};
@@ -0,0 +1,108 @@
+/**
+ * Any OpenAI-compatible chat completions endpoint — vLLM, llama.cpp server,
+ * Ollama, or OpenAI itself. Meant for transcripts that must stay on our own
+ * hardware: point OPENAI_BASE_URL at a local server.
+ *
+ * The extraction tool is offered as a function and forced with tool_choice.
+ * Some local servers ignore tools and answer in plain content instead; that
+ * content is parsed as the tool's JSON input.
+ */
+import { HttpError, request } from "./http.js";
+import {
+  EXTRACTION_TOOL_NAME,
+  extractionTool,
+  extractWithRepair,
+  type ExtractionAttempt,
+  type Extractor,
+} from "./extractor.js";
+
+export interface OpenAiEndpoint {
+  /** e.g. http://localhost:8000/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message: ChatMessage; finish_reason: string | null }>;
+}
+
+const parseInput = (raw: string, truncated: boolean): ExtractionAttempt => {
+  const cleaned = raw.replace(/```json\s*/g, "").replace(/```\s*/g, "").trim();
+  try {
+    return { input: JSON.parse(cleaned), truncated };
+  } catch (err) {
+    return { input: undefined, parseError: `- (root): not valid JSON (${(err as Error).message})`, truncated };
+  }
+};
+
+export const createOpenAiExtractor = (endpoint: OpenAiEndpoint, repairAttempts: number): Extractor => {
+  const url = `${endpoint.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (endpoint.apiKey) headers.Authorization = `Bearer ${endpoint.apiKey}`;
+
+  const complete = async (messages: ChatMessage[], maxTokens: number, tool: ReturnType<typeof extractionTool>) => {
+    const response = await request("openai", url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: endpoint.model,
+        max_tokens: maxTokens,
+        messages,
+        tools: [{ type: "function", function: tool }],
+        tool_choice: { type: "function", function: { name: EXTRACTION_TOOL_NAME } },
+      }),
+    }, { retryUnsafe: true });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new HttpError("openai", response.status, `Chat completions error (${response.status}) from ${url}: ${text}`);
+    }
+
+    const choice = ((await response.json()) as ChatCompletion).choices?.[0];
+    if (!choice) throw new Error(`${url} returned no choices`);
+    return choice;
+  };
+
+  return {
+    name: `openai-compatible (${endpoint.model} at ${endpoint.baseUrl})`,
+    extract: (prompt, maxTokens, schema) => {
+      const tool = extractionTool(schema);
+      const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+      let last: ChatMessage | undefined;
+
+      return extractWithRepair(schema, repairAttempts, async (feedback) => {
+        if (feedback && last) {
+          const call = last.tool_calls?.[0];
+          messages.push(
+            { role: "assistant", content: last.content, tool_calls: last.tool_calls },
+            call ? { role: "tool", tool_call_id: call.id, content: feedback } : { role: "user", content: feedback }
+          );
+        }
+
+        const choice = await complete(messages, maxTokens, tool);
+        last = choice.message;
+
+        const truncated = choice.finish_reason === "length";
+        const raw = choice.message.tool_calls?.[0]?.function.arguments ?? choice.message.content;
+        if (!raw?.trim()) {
+          throw new Error(`${url} returned neither a tool call nor content (finish reason: ${choice.finish_reason})`);
+        }
+        return parseInput(raw, truncated);
+      });
+    },
+  };
+};
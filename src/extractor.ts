@@ -0,0 +1,75 @@
+/**
+ * Extraction backends. Each one sends a prompt to a model, makes it answer
+ * through the same tool definition (generated from the profile's zod
+ * schema), and validates the answer the same way — so the pipeline can't
+ * tell them apart.
+ */
+import type { z } from "zod";
+import type { MeetingExtraction } from "./types.js";
+import { formatZodIssues, toJsonSchema, type JsonSchema } from "./json-schema.js";
+
+export const EXTRACTION_BACKENDS = ["anthropic", "openai"] as const;
+export type ExtractionBackend = (typeof EXTRACTION_BACKENDS)[number];
+
+export interface Extractor {
+  /** Backend and model, for logs */
+  name: string;
+  /** One extraction for `prompt`, validated against `schema` */
+  extract: <T>(prompt: string, maxTokens: number, schema: ExtractionSchema<T>) => Promise<T>;
+}
+
+/**
+ * What the model fills in: a profile's subset of MeetingExtraction, or
+ * another shape entirely (e.g. the digest summary).
+ */
+export type ExtractionSchema<T = MeetingExtraction> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const EXTRACTION_TOOL_NAME = "record_meeting_extraction";
+
+/** The tool the model answers through, generated from the schema it's validated against. */
+export const extractionTool = (schema: z.ZodTypeAny): { name: string; description: string; parameters: JsonSchema } => ({
+  name: EXTRACTION_TOOL_NAME,
+  description: "Record the structured data extracted from the meeting.",
+  parameters: toJsonSchema(schema),
+});
+
+/** What a backend got back from one model call. */
+export interface ExtractionAttempt {
+  /** The tool input, or undefined when it couldn't be read */
+  input: unknown;
+  /** Why the input couldn't be read (e.g. malformed JSON) */
+  parseError?: string;
+  /** The output stopped at the token limit */
+  truncated: boolean;
+}
+
+/**
+ * Validate each attempt against the schema. Invalid output is answered with
+ * the errors (passed to the next `attempt` call as `feedback`), up to
+ * `repairAttempts` times.
+ */
+export const extractWithRepair = async <T>(
+  schema: ExtractionSchema<T>,
+  repairAttempts: number,
+  attempt: (feedback?: string) => Promise<ExtractionAttempt>
+): Promise<T> => {
+  let feedback: string | undefined;
+
+  for (let i = 0; ; i++) {
+    const { input, parseError, truncated } = await attempt(feedback);
+
+    const result = parseError ? undefined : schema.safeParse(input);
+    if (result?.success) return result.data;
+
+    const issues = parseError ?? formatZodIssues(result!.error);
+    if (i >= repairAttempts) {
+      throw new Error(`Extraction failed validation after ${i + 1} attempt(s):\n${issues}`);
+    }
+
+    console.warn(`   ⚠️  Extraction failed validation, asking the model to fix it (repair ${i + 1}/${repairAttempts})`);
+    const cutOff = truncated ? "\n\nYour output was cut off at the token limit. Keep descriptions shorter." : "";
+    feedback =
+      `The input doesn't match the schema:\n${issues}${cutOff}\n\n` +
+      `Call ${EXTRACTION_TOOL_NAME} again with the corrected extraction.`;
+  }
+};
@@ -6,6 +6,9 @@ import type {
   GranolaProseMirrorNode,
   MeetingData,
 } from "./types.js";
+import type { CalendarAttendee } from "./calendar.js";
+import { HttpError, request } from "./http.js";
+import { buildTranscript, collectAttendees } from "./transcript.js";
 
 const GRANOLA_API = "https://api.granola.ai";
 const WORKOS_AUTH_URL = "https://api.workos.com/user_management/authenticate";
@@ -49,7 +52,7 @@ const refreshAccessToken = async (
   refreshToken: string,
   clientId: string
 ): Promise<{ accessToken: string; refreshToken: string; expiresIn: number }> => {
-  const response = await fetch(WORKOS_AUTH_URL, {
+  const response = await request("workos", WORKOS_AUTH_URL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -61,7 +64,7 @@ const refreshAccessToken = async (
 
   if (!response.ok) {
     const body = await response.text();
-    throw new Error(`WorkOS token refresh failed (${response.status}): ${body}`);
+    throw new HttpError("workos", response.status, `WorkOS token refresh failed (${response.status}): ${body}`);
   }
 
   const data = (await response.json()) as {
@@ -119,23 +122,9 @@ const proseMirrorToMarkdown = (node: GranolaProseMirrorNode): string => {
   }
 };
 
-// ── Transcript formatting ──────────────────────────────────────────
-
-const formatTranscript = (utterances: GranolaTranscriptUtterance[]): string =>
-  utterances
-    .map((u) => {
-      const time = new Date(u.start_timestamp).toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-      const source = u.source === "microphone" ? "You" : "Other";
-      return `[${time}] ${source}: ${u.text}`;
-    })
-    .join("\n");
-
 // ── Granola API client ─────────────────────────────────────────────
 
-export const createGranolaClient = (granolaDir: string) => {
+export const createGranolaClient = (granolaDir: string, options: { minConfidence?: number } = {}) => {
   let tokenState: TokenState | null = null;
   let clientId: string;
 
@@ -173,7 +162,7 @@ export const createGranolaClient = (granolaDir: string) => {
 
   const granolaFetch = async (path: string, body: object = {}): Promise<Response> => {
     const token = await ensureToken();
-    return fetch(`${GRANOLA_API}${path}`, {
+    return request("granola", `${GRANOLA_API}${path}`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${token}`,
@@ -183,7 +172,7 @@ export const createGranolaClient = (granolaDir: string) => {
         "X-Client-Version": CLIENT_VERSION,
       },
       body: JSON.stringify(body),
-    });
+    }, { retryUnsafe: true }); // Granola's POSTs only read
   };
 
   const fetchDocuments = async (limit = 100, offset = 0): Promise<GranolaDocument[]> => {
@@ -194,7 +183,7 @@ export const createGranolaClient = (granolaDir: string) => {
     });
 
     if (!response.ok) {
-      throw new Error(`Granola API error (${response.status}): ${await response.text()}`);
+      throw new HttpError("granola", response.status, `Granola API error (${response.status}): ${await response.text()}`);
     }
 
     const data = (await response.json()) as { docs: GranolaDocument[] };
@@ -216,21 +205,27 @@ export const createGranolaClient = (granolaDir: string) => {
     return Array.isArray(data) ? data : [];
   };
 
-  const fetchMeeting = async (doc: GranolaDocument): Promise<MeetingData> => {
+  /** Pass the calendar event's attendees when known; they help name speakers. */
+  const fetchMeeting = async (doc: GranolaDocument, calendarAttendees: CalendarAttendee[] = []): Promise<MeetingData> => {
     const notesMarkdown = doc.last_viewed_panel?.content
       ? proseMirrorToMarkdown(doc.last_viewed_panel.content).trim()
       : "";
 
     const utterances = await fetchTranscript(doc.id);
-    const transcript = formatTranscript(utterances);
+    const attendees = collectAttendees(doc, calendarAttendees);
+    const { segments, speakerStats } = buildTranscript(utterances, attendees, options.minConfidence ?? 0);
 
     return {
       id: doc.id,
       title: doc.title,
       createdAt: doc.created_at,
       updatedAt: doc.updated_at,
+      workspaceId: doc.workspace_id,
       notesMarkdown,
-      transcript,
+      transcript: segments.map((segment) => segment.text).join("\n"),
+      transcriptSegments: segments,
+      attendees,
+      speakerStats,
     };
   };
 
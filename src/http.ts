@@ -0,0 +1,300 @@
+/**
+ * Shared request layer for every outbound call: retries with exponential
+ * backoff and jitter, Retry-After, per-request timeouts and a concurrency
+ * limit per service.
+ *
+ * Failures come out as one of two kinds so callers (the scheduler) can tell
+ * them apart:
+ *   RetriesExhaustedError — 429 / 5xx / network / timeout that kept failing;
+ *                           worth trying again later
+ *   HttpError             — anything else (400 validation, 401, 404 …);
+ *                           retrying won't help
+ * isTransientError() also recognises the Slack and Anthropic SDK errors.
+ */
+import Anthropic from "@anthropic-ai/sdk";
+import { ErrorCode, WebClient, type WebAPICallError } from "@slack/web-api";
+
+export const SERVICES = [
+  "jira",
+  "github",
+  "linear",
+  "granola",
+  "workos",
+  "slack",
+  "teams",
+  "webhook",
+  "smtp",
+  "anthropic",
+  "openai",
+  "caldav",
+] as const;
+export type Service = (typeof SERVICES)[number];
+
+export interface HttpPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+  concurrency: Partial<Record<Service, number>>;
+}
+
+const DEFAULT_CONCURRENCY: Record<Service, number> = {
+  jira: 4,
+  github: 2,
+  linear: 2,
+  granola: 4,
+  workos: 1,
+  slack: 2,
+  teams: 2,
+  webhook: 2,
+  // One mail session at a time; each opens its own connection
+  smtp: 1,
+  anthropic: 2,
+  // Usually a local model server working through one request at a time
+  openai: 1,
+  caldav: 4,
+};
+
+const MAX_DELAY_MS = 30_000;
+// Honour long Retry-After values, but not indefinitely
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+// Long transcripts can keep a model busy well past a normal HTTP timeout
+const EXTRACTION_TIMEOUT_MS = 10 * 60_000;
+const SERVICE_TIMEOUT_MS: Partial<Record<Service, number>> = { openai: EXTRACTION_TIMEOUT_MS };
+
+let policy: HttpPolicy = { maxRetries: 4, baseDelayMs: 1000, timeoutMs: 30_000, concurrency: {} };
+
+/** Called once from loadConfig. */
+export const configureHttp = (next: HttpPolicy): void => {
+  policy = next;
+  limiters.clear();
+  slackClients.clear();
+};
+
+// ── Errors ─────────────────────────────────────────────────────────
+
+export class HttpError extends Error {
+  constructor(
+    readonly service: Service,
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class RetriesExhaustedError extends Error {
+  constructor(
+    readonly service: Service,
+    readonly attempts: number,
+    readonly lastError: unknown
+  ) {
+    super(`${service} request failed after ${attempts} attempts: ${describe(lastError)}`);
+    this.name = "RetriesExhaustedError";
+  }
+}
+
+/**
+ * A request that failed after it may have reached the server, so it wasn't
+ * retried. Not transient: running it again blindly could repeat a create.
+ */
+export class OutcomeUnknownError extends Error {
+  constructor(
+    readonly service: Service,
+    readonly lastError: unknown
+  ) {
+    super(`${service} request failed and may have gone through: ${describe(lastError)}`);
+    this.name = "OutcomeUnknownError";
+  }
+}
+
+const describe = (err: unknown): string => (err instanceof Error ? err.message : String(err));
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+// Methods that mean the same thing when sent twice
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "PROPFIND", "REPORT"]);
+
+// fetch failures from before the request went out, so the server can't have acted on it
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+
+// Happy eyeballs reports one error per address it tried
+const wasNotSent = (err: unknown): boolean => {
+  const cause = (err as { cause?: { code?: unknown; errors?: Array<{ code?: unknown }> } } | undefined)?.cause;
+  const codes = cause?.errors?.length ? cause.errors.map((e) => e.code) : [cause?.code];
+  return codes.every((code) => typeof code === "string" && NOT_SENT_CODES.has(code));
+};
+
+/** True for failures that may succeed later — rate limits, outages, network trouble. */
+export const isTransientError = (err: unknown): boolean => {
+  if (err instanceof RetriesExhaustedError) return true;
+  if (err instanceof HttpError) return isRetryableStatus(err.status);
+
+  if (err instanceof Anthropic.APIConnectionError) return true;
+  if (err instanceof Anthropic.APIError) return err.status !== undefined && isRetryableStatus(err.status);
+
+  const slackError = err as Partial<WebAPICallError> & { statusCode?: number };
+  if (slackError.code === ErrorCode.RequestError || slackError.code === ErrorCode.RateLimitedError) return true;
+  if (slackError.code === ErrorCode.HTTPError) return isRetryableStatus(slackError.statusCode ?? 0);
+
+  // Wrapping errors (e.g. the pipeline's failed-tickets error) defer to their cause
+  return err instanceof Error && err.cause !== undefined ? isTransientError(err.cause) : false;
+};
+
+// ── Concurrency ────────────────────────────────────────────────────
+
+const limiters = new Map<Service, <T>(task: () => Promise<T>) => Promise<T>>();
+
+const createLimiter = (max: number) => {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    // A finishing task hands its slot straight to the next waiter
+    if (active >= max) await new Promise<void>((resolve) => waiting.push(resolve));
+    else active++;
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
+
+/** Run `task` within the service's concurrency limit. */
+export const withLimit = <T>(service: Service, task: () => Promise<T>): Promise<T> => {
+  let limit = limiters.get(service);
+  if (!limit) {
+    limit = createLimiter(policy.concurrency[service] ?? DEFAULT_CONCURRENCY[service]);
+    limiters.set(service, limit);
+  }
+  return limit(task);
+};
+
+// ── Requests ───────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter: anywhere between 0 and the exponential ceiling
+const backoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(MAX_DELAY_MS, policy.baseDelayMs * 2 ** attempt);
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export interface RequestOptions {
+  /**
+   * Retry failures the server may already have acted on: timeouts, network
+   * errors and 5xx. Defaults to true for GET, PUT, DELETE and the other
+   * idempotent methods, false otherwise, so a create that timed out isn't
+   * filed twice. POSTs that only read (searches, GraphQL queries) pass true.
+   */
+  retryUnsafe?: boolean;
+}
+
+/**
+ * fetch() with the shared retry policy. Retryable failures (429, 5xx,
+ * network errors, timeouts) are retried and end in RetriesExhaustedError;
+ * any other response is returned for the caller to handle, usually by
+ * throwing an HttpError. Without `retryUnsafe`, only a 429 or a connection
+ * that never got through is retried; any other failure throws
+ * OutcomeUnknownError. Request bodies must be strings so they can be resent.
+ */
+export const request = async (
+  service: Service,
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> => {
+  const retryUnsafe = options.retryUnsafe ?? SAFE_METHODS.has((init.method ?? "GET").toUpperCase());
+  let lastError: unknown;
+  let attempts = 0;
+
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    attempts++;
+    let retryAfterMs: number | undefined;
+    let retryable: boolean;
+    try {
+      const response = await withLimit(service, () =>
+        fetch(url, { ...init, signal: AbortSignal.timeout(SERVICE_TIMEOUT_MS[service] ?? policy.timeoutMs) })
+      );
+      if (!isRetryableStatus(response.status)) return response;
+
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      lastError = new HttpError(service, response.status, `HTTP ${response.status}: ${await response.text()}`);
+      retryable = retryUnsafe || response.status === 429;
+    } catch (err) {
+      lastError = err; // network error or timeout
+      retryable = retryUnsafe || wasNotSent(err);
+    }
+
+    if (!retryable) throw new OutcomeUnknownError(service, lastError);
+    if (attempt === policy.maxRetries) break;
+    if (retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS) break;
+
+    const delay = retryAfterMs ?? backoffDelay(attempt);
+    console.warn(`   ⏳ ${service} request failed (${describe(lastError)}), retrying in ${Math.round(delay / 1000)}s...`);
+    await sleep(delay);
+  }
+
+  throw new RetriesExhaustedError(service, attempts, lastError);
+};
+
+/**
+ * Run `task` with the shared retry policy, for services that don't go through
+ * fetch (SMTP). Errors `retryable` accepts are retried and end in
+ * RetriesExhaustedError; any other error is thrown as is.
+ */
+export const withRetries = async <T>(
+  service: Service,
+  task: () => Promise<T>,
+  retryable: (err: unknown) => boolean
+): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    try {
+      return await withLimit(service, task);
+    } catch (err) {
+      if (!retryable(err)) throw err;
+      lastError = err;
+    }
+
+    if (attempt === policy.maxRetries) break;
+    const delay = backoffDelay(attempt);
+    console.warn(`   ⏳ ${service} request failed (${describe(lastError)}), retrying in ${Math.round(delay / 1000)}s...`);
+    await sleep(delay);
+  }
+
+  throw new RetriesExhaustedError(service, policy.maxRetries + 1, lastError);
+};
+
+// ── SDK clients ────────────────────────────────────────────────────
+
+// One client per token, so its request queue holds the Slack concurrency limit across callers
+const slackClients = new Map<string, WebClient>();
+
+/** Slack client using the shared policy. The SDK handles Retry-After itself. */
+export const createSlackClient = (token: string): WebClient => {
+  let client = slackClients.get(token);
+  if (!client) {
+    client = new WebClient(token, {
+      timeout: policy.timeoutMs,
+      maxRequestConcurrency: policy.concurrency.slack ?? DEFAULT_CONCURRENCY.slack,
+      retryConfig: { retries: policy.maxRetries, factor: 2, minTimeout: policy.baseDelayMs, randomize: true },
+    });
+    slackClients.set(token, client);
+  }
+  return client;
+};
+
+/** Anthropic client using the shared retry count. Wrap calls in withLimit("anthropic", …). */
+export const createAnthropicClient = (apiKey: string): Anthropic =>
+  new Anthropic({ apiKey, maxRetries: policy.maxRetries, timeout: EXTRACTION_TIMEOUT_MS });
@@ -0,0 +1,433 @@
+/**
+ * Minimal iCalendar (RFC 5545) parser with recurrence expansion.
+ *
+ * Covers what meeting calendars actually use: VEVENT with DTSTART/DTEND or
+ * DURATION, TZID parameters, RRULE (DAILY/WEEKLY/MONTHLY/YEARLY with
+ * INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH, BYSETPOS), RDATE,
+ * EXDATE and RECURRENCE-ID overrides. Anything fancier is ignored.
+ */
+import { fromWallTime, resolveTimeZoneId, toWallTime } from "./timezone.js";
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export interface IcsOccurrence {
+  /** The VEVENT this occurrence came from (an override if one applied). */
+  event: IcsComponent;
+  uid: string;
+  start: Date;
+  end: Date;
+  /** Original start of this instance for recurring events, null otherwise. */
+  recurrenceId: Date | null;
+}
+
+interface IcsDateValue {
+  wallTime: number;
+  timeZone?: string;
+  allDay: boolean;
+}
+
+interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: Array<{ ordinal: number; weekday: number }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  weekStart: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Upper bound on rule periods walked per event, so a broken rule can't hang the scheduler
+const MAX_PERIODS = 20_000;
+
+// ── Parsing ────────────────────────────────────────────────────────
+
+const unfoldLines = (text: string): string[] =>
+  text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n").filter((l) => l.length > 0);
+
+const parseLine = (line: string): IcsProperty | null => {
+  // Split on the first ":" that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const head = line.slice(0, colon);
+  const value = line.slice(colon + 1);
+  const segments = head.match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  const [name, ...paramParts] = segments;
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value };
+};
+
+/** Parse iCalendar text into its top-level components (usually VCALENDARs). */
+export const parseIcs = (text: string): IcsComponent[] => {
+  const roots: IcsComponent[] = [];
+  const stack: IcsComponent[] = [];
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseLine(line);
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      const component: IcsComponent = { type: prop.value.toUpperCase(), properties: [], components: [] };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.components.push(component);
+      else roots.push(component);
+      stack.push(component);
+    } else if (prop.name === "END") {
+      stack.pop();
+    } else {
+      stack[stack.length - 1]?.properties.push(prop);
+    }
+  }
+
+  return roots;
+};
+
+export const getProperty = (component: IcsComponent, name: string): IcsProperty | undefined =>
+  component.properties.find((p) => p.name === name);
+
+export const getProperties = (component: IcsComponent, name: string): IcsProperty[] =>
+  component.properties.filter((p) => p.name === name);
+
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+
+export const getText = (component: IcsComponent, name: string): string | undefined => {
+  const prop = getProperty(component, name);
+  return prop ? unescapeText(prop.value) : undefined;
+};
+
+// ── Dates ──────────────────────────────────────────────────────────
+
+const parseDateString = (raw: string, tzid: string | undefined, defaultTimeZone?: string): IcsDateValue | null => {
+  const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, z] = match;
+  const wallTime = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h ?? 0), Number(mi ?? 0), Number(s ?? 0));
+
+  if (h === undefined) return { wallTime, allDay: true };
+  if (z) return { wallTime, timeZone: "UTC", allDay: false };
+
+  const resolved = tzid ? resolveTimeZoneId(tzid) : undefined;
+  if (tzid && !resolved) {
+    console.warn(`⚠️  Unknown TZID "${tzid}", treating time as floating`);
+  }
+  return { wallTime, timeZone: resolved ?? defaultTimeZone, allDay: false };
+};
+
+const parseDateProperty = (prop: IcsProperty, defaultTimeZone?: string): IcsDateValue | null =>
+  parseDateString(prop.value, prop.params.TZID, defaultTimeZone);
+
+const parseDateList = (props: IcsProperty[], defaultTimeZone?: string): IcsDateValue[] =>
+  props.flatMap((prop) =>
+    prop.value
+      .split(",")
+      .map((v) => parseDateString(v, prop.params.TZID, defaultTimeZone))
+      .filter((v): v is IcsDateValue => v !== null)
+  );
+
+const toInstant = (value: IcsDateValue): Date => fromWallTime(value.wallTime, value.timeZone);
+
+/** Parse an RFC 5545 DURATION such as "PT1H30M" or "-P1D" into ms. */
+export const parseDuration = (raw: string): number => {
+  const match = raw.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    Number(w ?? 0) * 7 * DAY_MS +
+    Number(d ?? 0) * DAY_MS +
+    Number(h ?? 0) * 3_600_000 +
+    Number(m ?? 0) * 60_000 +
+    Number(s ?? 0) * 1000;
+  return sign === "-" ? -ms : ms;
+};
+
+// ── Recurrence ─────────────────────────────────────────────────────
+
+const parseRule = (raw: string, defaultTimeZone?: string): RecurrenceRule | null => {
+  const parts = Object.fromEntries(
+    raw.split(";").map((p) => {
+      const [k, v] = p.split("=");
+      return [k.toUpperCase(), v ?? ""];
+    })
+  );
+
+  const freq = parts.FREQ as RecurrenceRule["freq"];
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+
+  const numbers = (v?: string): number[] => (v ? v.split(",").map(Number).filter((n) => !isNaN(n)) : []);
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(",") : [])
+    .map((d: string) => {
+      const m = d.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+      return m ? { ordinal: Number(m[1] ?? 0), weekday: WEEKDAYS.indexOf(m[2]) } : null;
+    })
+    .filter((d): d is { ordinal: number; weekday: number } => d !== null);
+
+  const untilValue = parts.UNTIL ? parseDateString(parts.UNTIL, undefined, defaultTimeZone) : null;
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL ?? 1) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    // A date-only UNTIL includes that whole day
+    until: untilValue
+      ? new Date(toInstant(untilValue).getTime() + (untilValue.allDay ? DAY_MS - 1 : 0))
+      : undefined,
+    byDay,
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+  };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/** Candidate days (as wall-time midnights) within one month for BYDAY/BYMONTHDAY. */
+const expandMonth = (year: number, month: number, rule: RecurrenceRule, fallbackDay: number): number[] => {
+  const total = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map((d) => (d < 0 ? total + d + 1 : d))
+      .filter((d) => d >= 1 && d <= total);
+  } else if (rule.byDay.length === 0) {
+    days = fallbackDay <= total ? [fallbackDay] : [];
+  } else {
+    days = Array.from({ length: total }, (_, i) => i + 1);
+  }
+
+  if (rule.byDay.length > 0) {
+    days = days.filter((day) => {
+      const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+      return rule.byDay.some((bd) => {
+        if (bd.weekday !== weekday) return false;
+        if (bd.ordinal === 0) return true;
+        const nth = bd.ordinal > 0 ? Math.ceil(day / 7) : -Math.ceil((total - day + 1) / 7);
+        return nth === bd.ordinal;
+      });
+    });
+  }
+
+  return days.sort((a, b) => a - b).map((day) => Date.UTC(year, month, day));
+};
+
+const applySetPos = (candidates: number[], setPos: number[]): number[] => {
+  if (setPos.length === 0) return candidates;
+  return setPos
+    .map((pos) => candidates[pos > 0 ? pos - 1 : candidates.length + pos])
+    .filter((c): c is number => c !== undefined)
+    .sort((a, b) => a - b);
+};
+
+/**
+ * Walk the rule period by period, yielding start wall times in order.
+ * The time of day always comes from DTSTART (BYHOUR etc. are not supported).
+ */
+function* iterateRule(rule: RecurrenceRule, dtstart: number): Generator<number> {
+  const start = new Date(dtstart);
+  const timeOfDay = dtstart - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const startDay = dtstart - timeOfDay;
+  const monthOk = (wall: number) =>
+    rule.byMonth.length === 0 || rule.byMonth.includes(new Date(wall).getUTCMonth() + 1);
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let days: number[] = [];
+
+    if (rule.freq === "DAILY") {
+      const day = startDay + period * rule.interval * DAY_MS;
+      const d = new Date(day);
+      const weekdayOk = rule.byDay.length === 0 || rule.byDay.some((bd) => bd.weekday === d.getUTCDay());
+      const monthDayOk = rule.byMonthDay.length === 0 || expandMonth(d.getUTCFullYear(), d.getUTCMonth(), { ...rule, byDay: [] }, 0).includes(day);
+      if (weekdayOk && monthDayOk) days = [day];
+    } else if (rule.freq === "WEEKLY") {
+      const offset = (start.getUTCDay() - rule.weekStart + 7) % 7;
+      const weekStartDay = startDay - offset * DAY_MS + period * rule.interval * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((bd) => bd.weekday) : [start.getUTCDay()];
+      days = weekdays
+        .map((wd) => weekStartDay + ((wd - rule.weekStart + 7) % 7) * DAY_MS)
+        .sort((a, b) => a - b);
+    } else if (rule.freq === "MONTHLY") {
+      const totalMonths = start.getUTCMonth() + period * rule.interval;
+      const year = start.getUTCFullYear() + Math.floor(totalMonths / 12);
+      days = expandMonth(year, totalMonths % 12, rule, start.getUTCDate());
+    } else {
+      const year = start.getUTCFullYear() + period * rule.interval;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map((m) => m - 1) : [start.getUTCMonth()];
+      days = months.sort((a, b) => a - b).flatMap((m) => expandMonth(year, m, rule, start.getUTCDate()));
+    }
+
+    days = applySetPos(days.filter(monthOk), rule.bySetPos);
+    for (const day of days) yield day + timeOfDay;
+  }
+}
+
+// ── Expansion ──────────────────────────────────────────────────────
+
+const instanceKey = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+/**
+ * Expand every VEVENT in a calendar into concrete timed occurrences whose
+ * start falls within [rangeStart, rangeEnd). All-day and cancelled events
+ * are skipped. Floating times use `defaultTimeZone` (or the process zone).
+ */
+export const expandEvents = (
+  calendar: IcsComponent,
+  rangeStart: Date,
+  rangeEnd: Date,
+  defaultTimeZone?: string
+): IcsOccurrence[] => {
+  const events = calendar.type === "VEVENT"
+    ? [calendar]
+    : calendar.components.filter((c) => c.type === "VEVENT");
+
+  // Overrides of individual instances, keyed by UID then original start
+  const overrides = new Map<string, Map<number, IcsComponent>>();
+  for (const event of events) {
+    const recurrenceIdProp = getProperty(event, "RECURRENCE-ID");
+    const uid = getText(event, "UID");
+    if (!recurrenceIdProp || !uid) continue;
+    const recurrenceId = parseDateProperty(recurrenceIdProp, defaultTimeZone);
+    if (!recurrenceId) continue;
+    if (!overrides.has(uid)) overrides.set(uid, new Map());
+    overrides.get(uid)!.set(instanceKey(toInstant(recurrenceId)), event);
+  }
+
+  const occurrences: IcsOccurrence[] = [];
+  const inRange = (start: Date) => start >= rangeStart && start < rangeEnd;
+  const isCancelled = (event: IcsComponent) => getText(event, "STATUS")?.toUpperCase() === "CANCELLED";
+
+  const eventDuration = (event: IcsComponent, start: IcsDateValue): number => {
+    const endProp = getProperty(event, "DTEND");
+    const end = endProp ? parseDateProperty(endProp, defaultTimeZone) : null;
+    if (end) return toInstant(end).getTime() - toInstant(start).getTime();
+    const duration = getProperty(event, "DURATION");
+    return duration ? parseDuration(duration.value) : 0;
+  };
+
+  const buildOccurrence = (
+    event: IcsComponent,
+    uid: string,
+    recurrenceId: Date | null
+  ): IcsOccurrence | null => {
+    const startProp = getProperty(event, "DTSTART");
+    const start = startProp ? parseDateProperty(startProp, defaultTimeZone) : null;
+    if (!start || start.allDay) return null;
+
+    const startDate = toInstant(start);
+    return { event, uid, start: startDate, end: new Date(startDate.getTime() + eventDuration(event, start)), recurrenceId };
+  };
+
+  for (const event of events) {
+    if (getProperty(event, "RECURRENCE-ID")) continue; // handled via the master
+    const uid = getText(event, "UID") ?? "";
+    const startProp = getProperty(event, "DTSTART");
+    const start = startProp ? parseDateProperty(startProp, defaultTimeZone) : null;
+    if (!start || start.allDay || isCancelled(event)) continue;
+
+    const ruleProp = getProperty(event, "RRULE");
+    const rdates = parseDateList(getProperties(event, "RDATE"), defaultTimeZone);
+    const eventOverrides = overrides.get(uid);
+
+    if (!ruleProp && rdates.length === 0) {
+      const occurrence = buildOccurrence(event, uid, null);
+      if (occurrence && inRange(occurrence.start)) occurrences.push(occurrence);
+      continue;
+    }
+
+    const duration = eventDuration(event, start);
+    const exdates = new Set(
+      parseDateList(getProperties(event, "EXDATE"), defaultTimeZone).map((d) => instanceKey(toInstant(d)))
+    );
+
+    const emit = (wallTime: number) => {
+      const instanceStart = fromWallTime(wallTime, start.timeZone);
+      const key = instanceKey(instanceStart);
+      if (exdates.has(key)) return;
+
+      const override = eventOverrides?.get(key);
+      if (override) {
+        if (isCancelled(override)) return;
+        const occurrence = buildOccurrence(override, uid, instanceStart);
+        if (occurrence && inRange(occurrence.start)) occurrences.push(occurrence);
+        return;
+      }
+
+      if (inRange(instanceStart)) {
+        occurrences.push({
+          event,
+          uid,
+          start: instanceStart,
+          end: new Date(instanceStart.getTime() + duration),
+          recurrenceId: instanceStart,
+        });
+      }
+    };
+
+    const seen = new Set<number>();
+    const emitOnce = (wallTime: number) => {
+      if (seen.has(wallTime)) return;
+      seen.add(wallTime);
+      emit(wallTime);
+    };
+
+    // DTSTART is always the first instance, whether or not it matches the rule
+    emitOnce(start.wallTime);
+    for (const rdate of rdates) {
+      emitOnce(rdate.timeZone === start.timeZone ? rdate.wallTime : toWallTime(toInstant(rdate), start.timeZone));
+    }
+
+    const rule = ruleProp ? parseRule(ruleProp.value, start.timeZone ?? defaultTimeZone) : null;
+    if (!rule) continue;
+
+    // Overrides may move an instance into range from outside it, so walk a
+    // little past the range end before stopping
+    const stopAt = rangeEnd.getTime() + 7 * DAY_MS;
+    // COUNT includes DTSTART, which was emitted above
+    let produced = 1;
+    for (const wallTime of iterateRule(rule, start.wallTime)) {
+      if (wallTime <= start.wallTime) continue;
+      if (rule.count !== undefined && produced >= rule.count) break;
+      const instant = fromWallTime(wallTime, start.timeZone);
+      if (rule.until && instant > rule.until) break;
+      if (instant.getTime() > stopAt) break;
+      produced++;
+      emitOnce(wallTime);
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,193 @@
+/**
+ * Local HTTP endpoint for Slack interactivity (button clicks and modal
+ * submissions from approval messages, and action items marked done).
+ *
+ * Point the Slack app's Interactivity Request URL at
+ * `https://<your tunnel>/slack/interactivity` — e.g. via ngrok or
+ * Cloudflare Tunnel, since Slack has to reach this machine.
+ */
+import { createServer, type IncomingMessage, type Server } from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Config } from "./config.js";
+import type { EngineeringTicket } from "./types.js";
+import { markActionItemDone } from "./action-items.js";
+import { decideTicket, retryProposal } from "./approvals.js";
+import { awaitsDecision } from "./proposals.js";
+import { getProposal } from "./state.js";
+import {
+  ACTION_ITEM_DONE,
+  APPROVAL_ACTIONS,
+  EDIT_TICKET_CALLBACK,
+  decodeTicketRef,
+  openEditTicketModal,
+} from "./slack.js";
+
+const INTERACTIVITY_PATH = "/slack/interactivity";
+// Slack recommends rejecting requests older than five minutes (replay protection)
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface BlockActionsPayload {
+  type: "block_actions";
+  trigger_id: string;
+  user: { id: string };
+  /** Buttons carry `value`, select menus `selected_option` */
+  actions: Array<{ action_id: string; value?: string; selected_option?: { value: string } }>;
+  channel?: { id: string };
+  message?: { ts: string; thread_ts?: string };
+}
+
+interface ViewSubmissionPayload {
+  type: "view_submission";
+  user: { id: string };
+  view: {
+    callback_id: string;
+    private_metadata: string;
+    state: { values: Record<string, Record<string, { value?: string | null; selected_option?: { value: string } }>> };
+  };
+}
+
+type InteractivityPayload = BlockActionsPayload | ViewSubmissionPayload | { type: string };
+
+export const verifySlackSignature = (
+  signingSecret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined
+): boolean => {
+  if (!timestamp || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_REQUEST_AGE_SECONDS) return false;
+
+  const expected = `v0=${createHmac("sha256", signingSecret).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+  const a = Buffer.from(signature);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+
+const readEdits = (payload: ViewSubmissionPayload): Partial<EngineeringTicket> => {
+  const values = payload.view.state.values;
+  const text = (block: string) => values[block]?.value?.value ?? undefined;
+  const criteria = text("acceptanceCriteria");
+
+  return {
+    ...(text("summary") ? { summary: text("summary")! } : {}),
+    ...(text("description") ? { description: text("description")! } : {}),
+    ...(values.priority?.value?.selected_option
+      ? { priority: values.priority.value.selected_option.value as EngineeringTicket["priority"] }
+      : {}),
+    acceptanceCriteria: criteria ? criteria.split("\n").map((l) => l.trim()).filter(Boolean) : [],
+  };
+};
+
+const handlePayload = async (config: Config, payload: InteractivityPayload): Promise<void> => {
+  if (payload.type === "block_actions") {
+    const { actions, user, trigger_id, channel, message } = payload as BlockActionsPayload;
+    for (const action of actions) {
+      if (action.action_id === ACTION_ITEM_DONE) {
+        const id = Number(action.value ?? action.selected_option?.value);
+        const thread = channel && message ? { channel: channel.id, ts: message.thread_ts ?? message.ts } : undefined;
+        if (Number.isInteger(id)) await markActionItemDone(config, id, user.id, thread);
+        continue;
+      }
+
+      if (!action.value) continue;
+      if (action.action_id === APPROVAL_ACTIONS.retry) {
+        await retryProposal(config, action.value);
+        continue;
+      }
+      const { proposalId, index } = decodeTicketRef(action.value);
+
+      if (action.action_id === APPROVAL_ACTIONS.approve) {
+        await decideTicket(config, proposalId, index, { type: "approve" }, user.id);
+      } else if (action.action_id === APPROVAL_ACTIONS.reject) {
+        await decideTicket(config, proposalId, index, { type: "reject" }, user.id);
+      } else if (action.action_id === APPROVAL_ACTIONS.edit) {
+        const proposal = await getProposal(proposalId);
+        const proposed = proposal?.tickets[index];
+        if (proposal && proposed && awaitsDecision(proposed)) {
+          await openEditTicketModal(config, trigger_id, proposal, index);
+        }
+      }
+    }
+    return;
+  }
+
+  if (payload.type === "view_submission") {
+    const submission = payload as ViewSubmissionPayload;
+    if (submission.view.callback_id !== EDIT_TICKET_CALLBACK) return;
+    const { proposalId, index } = decodeTicketRef(submission.view.private_metadata);
+    await decideTicket(config, proposalId, index, { type: "edit", changes: readEdits(submission) }, submission.user.id);
+  }
+};
+
+export const startInteractivityServer = (config: Config): Server => {
+  // Checked here rather than in loadConfig: with action tracking on, only the
+  // processes that take the clicks need it
+  if (!config.slackSigningSecret) {
+    throw new Error("SLACK_SIGNING_SECRET is required to verify Slack requests");
+  }
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== "POST" || req.url?.split("?")[0] !== INTERACTIVITY_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch {
+      res.writeHead(413).end();
+      return;
+    }
+
+    const valid = verifySlackSignature(
+      config.slackSigningSecret ?? "",
+      req.headers["x-slack-request-timestamp"] as string | undefined,
+      body,
+      req.headers["x-slack-signature"] as string | undefined
+    );
+    if (!valid) {
+      console.warn("⚠️  Rejected Slack interactivity request with a bad signature");
+      res.writeHead(401).end();
+      return;
+    }
+
+    let payload: InteractivityPayload;
+    try {
+      payload = JSON.parse(new URLSearchParams(body).get("payload") ?? "");
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    // Slack wants an answer within 3 seconds; the issue tracker can take longer, so ack first
+    res.writeHead(200).end();
+    handlePayload(config, payload).catch((err) => {
+      console.error("❌ Failed to handle Slack interaction:", err);
+    });
+  });
+
+  server.listen(config.approvalPort, () => {
+    console.log(`   🔐 Slack interactivity endpoint on http://localhost:${config.approvalPort}${INTERACTIVITY_PATH}`);
+  });
+
+  return server;
+};
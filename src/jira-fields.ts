@@ -0,0 +1,295 @@
+/**
+ * Declarative mapping from extracted tickets to a JIRA project's fields.
+ *
+ * Every project has its own issue types, priority scheme and custom fields,
+ * so none of that is hardcoded. JIRA_FIELD_MAPPING_FILE points at JSON like:
+ *
+ *   {
+ *     "issueTypes": { "Spike": { "name": "Task", "labels": ["spike"] } },
+ *     "priorities": { "Highest": "P0", "High": "P1", "Medium": "P2", "Low": "P3", "Lowest": "P4" },
+ *     "customFields": { "customfield_10089": [{ "value": "{{pod}}" }] },
+ *     "labels": ["from-granola"],
+ *     "components": ["Backend"],
+ *     "epic": { "key": "ENG-100" },
+ *     "dueDate": true
+ *   }
+ *
+ * Strings anywhere in customFields may use {{placeholders}} — see
+ * TemplateContext. Without a file, the defaults reproduce the original setup.
+ */
+import { existsSync, readFileSync } from "fs";
+import { z } from "zod";
+import type { Config } from "./config.js";
+import { ENGINEERING_ISSUE_TYPES, ISSUE_TYPES, type EngineeringTicket, type MeetingData } from "./types.js";
+import { HttpError, request } from "./http.js";
+
+const PRIORITIES = ["Highest", "High", "Medium", "Low", "Lowest"] as const;
+
+const issueTypeTargetSchema = z.union([
+  z.string().min(1),
+  z.object({ name: z.string().min(1), labels: z.array(z.string()).default([]) }),
+]);
+
+export const fieldMappingSchema = z.object({
+  issueTypes: z.record(z.enum(ISSUE_TYPES), issueTypeTargetSchema).default({}),
+  // null = the project has no priority field, so don't send one
+  priorities: z.record(z.enum(PRIORITIES), z.string().min(1)).nullable().default({}),
+  customFields: z.record(z.string().regex(/^customfield_\d+$/, "must look like customfield_12345"), z.unknown()).default({}),
+  labels: z.array(z.string().regex(/^\S+$/, "labels cannot contain spaces")).default([]),
+  components: z.array(z.string()).default([]),
+  epic: z
+    .object({
+      key: z.string().min(1),
+      // "parent" on current JIRA Cloud; older company-managed projects use an Epic Link custom field
+      field: z.string().default("parent"),
+    })
+    .optional(),
+  // true = set JIRA's due date field; off by default since not every create screen has it
+  dueDate: z.boolean().default(false),
+});
+
+export type FieldMappingFile = z.infer<typeof fieldMappingSchema>;
+
+export interface JiraFieldMapping {
+  issueTypes: Record<EngineeringTicket["issueType"], { name: string; labels: string[] }>;
+  priorities: Record<EngineeringTicket["priority"], string> | null;
+  customFields: Record<string, unknown>;
+  labels: string[];
+  components: string[];
+  epic?: { key: string; field: string };
+  /** Set JIRA's due date from the ticket's deadline */
+  dueDate: boolean;
+}
+
+/** Values available to {{placeholders}} in custom field templates. */
+export interface TemplateContext {
+  pod?: string;
+  projectKey: string;
+  meeting: { id: string; title: string; date: string };
+  ticket: { summary: string; issueType: string; priority: string; assignee: string };
+}
+
+const DEFAULT_ISSUE_TYPES: JiraFieldMapping["issueTypes"] = {
+  Bug: { name: "Bug", labels: [] },
+  Story: { name: "Story", labels: [] },
+  Task: { name: "Task", labels: [] },
+  Spike: { name: "Task", labels: ["spike"] },
+  Insight: { name: "Product Insight", labels: [] },
+};
+
+// The pod field every ticket carried before mappings were configurable
+const DEFAULT_CUSTOM_FIELDS = { customfield_10089: [{ value: "{{pod}}" }] };
+
+export const resolveFieldMapping = (file?: FieldMappingFile): JiraFieldMapping => {
+  const issueTypes = { ...DEFAULT_ISSUE_TYPES };
+  for (const [type, target] of Object.entries(file?.issueTypes ?? {})) {
+    issueTypes[type as EngineeringTicket["issueType"]] =
+      typeof target === "string" ? { name: target, labels: [] } : target;
+  }
+
+  const priorities = file?.priorities === null
+    ? null
+    : Object.fromEntries(PRIORITIES.map((p) => [p, file?.priorities?.[p] ?? p])) as JiraFieldMapping["priorities"];
+
+  return {
+    issueTypes,
+    priorities,
+    customFields: file ? file.customFields : DEFAULT_CUSTOM_FIELDS,
+    labels: file?.labels ?? [],
+    components: file?.components ?? [],
+    epic: file?.epic,
+    dueDate: file?.dueDate ?? false,
+  };
+};
+
+export const loadFieldMapping = (path?: string): JiraFieldMapping => {
+  if (!path) return resolveFieldMapping();
+  if (!existsSync(path)) {
+    throw new Error(`JIRA field mapping not found at ${path}. Check JIRA_FIELD_MAPPING_FILE.`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid JIRA field mapping ${path}: ${(err as Error).message}. Check JIRA_FIELD_MAPPING_FILE.`);
+  }
+
+  const result = fieldMappingSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `  ${i.path.join(".")}: ${i.message}`).join("\n");
+    throw new Error(`Invalid JIRA field mapping ${path}:\n${issues}`);
+  }
+  return resolveFieldMapping(result.data);
+};
+
+// ── Rendering ──────────────────────────────────────────────────────
+
+const lookupPath = (context: TemplateContext, path: string): string => {
+  const value = path.split(".").reduce<unknown>(
+    (obj, key) => (obj && typeof obj === "object" ? (obj as Record<string, unknown>)[key] : undefined),
+    context
+  );
+  return value === undefined || value === null ? "" : String(value);
+};
+
+/** Replace {{placeholders}} in every string nested within `value`. */
+export const renderTemplate = (value: unknown, context: TemplateContext): unknown => {
+  if (typeof value === "string") {
+    return value.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => lookupPath(context, path));
+  }
+  if (Array.isArray(value)) return value.map((v) => renderTemplate(v, context));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, renderTemplate(v, context)]));
+  }
+  return value;
+};
+
+export const buildTemplateContext = (
+  config: Config,
+  ticket: EngineeringTicket,
+  meeting: MeetingData
+): TemplateContext => ({
+  pod: config.jiraPod,
+  projectKey: config.jiraProjectKey,
+  meeting: { id: meeting.id, title: meeting.title, date: meeting.createdAt.slice(0, 10) },
+  ticket: {
+    summary: ticket.summary,
+    issueType: ticket.issueType,
+    priority: ticket.priority,
+    assignee: ticket.assignee ?? "",
+  },
+});
+
+/**
+ * Mapped fields for one ticket: issue type, priority, labels, components,
+ * epic and custom fields. Summary, description and assignee are added by
+ * the caller.
+ */
+export const buildMappedFields = (
+  mapping: JiraFieldMapping,
+  context: TemplateContext,
+  ticket: EngineeringTicket,
+  extraLabels: string[] = []
+): Record<string, unknown> => {
+  const issueType = mapping.issueTypes[ticket.issueType];
+  const labels = [...new Set([...extraLabels, ...mapping.labels, ...issueType.labels])];
+
+  return {
+    issuetype: { name: issueType.name },
+    ...(mapping.priorities ? { priority: { name: mapping.priorities[ticket.priority] } } : {}),
+    ...(labels.length > 0 ? { labels } : {}),
+    ...(mapping.components.length > 0 ? { components: mapping.components.map((name) => ({ name })) } : {}),
+    ...(mapping.epic
+      ? { [mapping.epic.field]: mapping.epic.field === "parent" ? { key: mapping.epic.key } : mapping.epic.key }
+      : {}),
+    ...(renderTemplate(mapping.customFields, context) as Record<string, unknown>),
+  };
+};
+
+// ── Validation against createmeta ──────────────────────────────────
+
+interface CreateMetaField {
+  fieldId: string;
+  name: string;
+  required: boolean;
+  hasDefaultValue?: boolean;
+  allowedValues?: Array<{ name?: string; value?: string }>;
+}
+
+// Fields the pipeline always fills, or that JIRA fills itself
+const ALWAYS_SET = new Set(["project", "issuetype", "summary", "description", "reporter", "assignee"]);
+
+/**
+ * Check the mapping against what the project actually accepts, so a typo
+ * fails once at startup instead of on every ticket. Throws listing every problem.
+ */
+export const validateFieldMapping = async (config: Config, mapping: JiraFieldMapping): Promise<void> => {
+  const headers = {
+    Authorization: `Basic ${Buffer.from(`${config.jiraEmail}:${config.jiraApiToken}`).toString("base64")}`,
+    Accept: "application/json",
+  };
+  const base = `${config.jiraBaseUrl}/rest/api/3/issue/createmeta/${encodeURIComponent(config.jiraProjectKey)}/issuetypes`;
+
+  const getJson = async <T>(url: string): Promise<T> => {
+    const response = await request("jira", url, { headers });
+    if (!response.ok) {
+      throw new HttpError("jira", response.status, `JIRA createmeta error (${response.status}): ${await response.text()}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  const { issueTypes } = await getJson<{ issueTypes: Array<{ id: string; name: string }> }>(base);
+  const problems: string[] = [];
+
+  // Rendered empty, it would leave blank field values and stray separators behind
+  if (!config.jiraPod && /\{\{\s*pod\s*\}\}/.test(JSON.stringify(mapping.customFields))) {
+    problems.push("customFields use {{pod}}, but no pod is set (JIRA_POD, or the route's jiraPod)");
+  }
+
+  // Interview routes only file insights, and only when enabled; engineering routes never do
+  const usedTypes = config.extractionProfile === "interview"
+    ? (config.insightIssues ? (["Insight"] as const) : [])
+    : ENGINEERING_ISSUE_TYPES;
+  const usedTypeNames = [...new Set(usedTypes.map((type) => mapping.issueTypes[type].name))];
+  for (const typeName of usedTypeNames) {
+    const issueType = issueTypes.find((t) => t.name.toLowerCase() === typeName.toLowerCase());
+    if (!issueType) {
+      problems.push(
+        `issue type "${typeName}" doesn't exist in ${config.jiraProjectKey} ` +
+        `(available: ${issueTypes.map((t) => t.name).join(", ")})`
+      );
+      continue;
+    }
+
+    const { fields } = await getJson<{ fields: CreateMetaField[] }>(`${base}/${issueType.id}?maxResults=200`);
+    const byId = new Map(fields.map((f) => [f.fieldId, f]));
+    const where = `on "${typeName}"`;
+
+    const set = new Set([
+      ...Object.keys(mapping.customFields),
+      ...(mapping.priorities ? ["priority"] : []),
+      ...(mapping.components.length > 0 ? ["components"] : []),
+      ...(mapping.epic ? [mapping.epic.field] : []),
+      "labels",
+    ]);
+
+    for (const fieldId of set) {
+      if (fieldId === "labels") continue; // always sent (source label) and present on default screens
+      if (!byId.has(fieldId)) problems.push(`field ${fieldId} is not on the create screen ${where}`);
+    }
+
+    if (mapping.dueDate && !byId.has("duedate")) {
+      problems.push(`field duedate is not on the create screen ${where} (remove "dueDate": true to leave it out)`);
+    }
+
+    const priorityField = byId.get("priority");
+    if (mapping.priorities && priorityField?.allowedValues) {
+      const allowed = priorityField.allowedValues.map((v) => v.name);
+      for (const name of new Set(Object.values(mapping.priorities))) {
+        if (!allowed.includes(name)) problems.push(`priority "${name}" not allowed ${where} (allowed: ${allowed.join(", ")})`);
+      }
+    }
+
+    const componentField = byId.get("components");
+    if (mapping.components.length > 0 && componentField?.allowedValues) {
+      const allowed = componentField.allowedValues.map((v) => v.name);
+      for (const name of mapping.components) {
+        if (!allowed.includes(name)) problems.push(`component "${name}" doesn't exist ${where}`);
+      }
+    }
+
+    for (const field of fields) {
+      if (field.required && !field.hasDefaultValue && !ALWAYS_SET.has(field.fieldId) && !set.has(field.fieldId)) {
+        problems.push(`required field ${field.fieldId} ("${field.name}") ${where} is not mapped`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `JIRA field mapping doesn't match project ${config.jiraProjectKey}:\n` +
+      problems.map((p) => `  - ${p}`).join("\n")
+    );
+  }
+};
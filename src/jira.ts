@@ -1,5 +1,32 @@
+/**
+ * JIRA Cloud issue tracker: REST API v3 issues with Atlassian document
+ * format descriptions, fields from the configured mapping (jira-fields.ts).
+ */
 import type { Config } from "./config.js";
-import type { EngineeringTicket, JiraTicketResult } from "./types.js";
+import type { AssigneeResolution, EngineeringTicket, MeetingData, TicketResult } from "./types.js";
+import { buildMappedFields, buildTemplateContext, validateFieldMapping } from "./jira-fields.js";
+import { HttpError, request, type RequestOptions } from "./http.js";
+import type { DueDate } from "./due-dates.js";
+import {
+  COMMENT_LEADS,
+  assigneeIds,
+  describeDueDate,
+  describeTracker,
+  dueDateOf,
+  formatMeetingDate,
+  searchKeywords,
+  sourceLabel,
+  type CommentReason,
+  type IssueCandidate,
+  type IssueTracker,
+} from "./tracker.js";
+
+interface JiraIssueSummary {
+  key: string;
+  id: string;
+  self: string;
+  fields: { summary: string; labels?: string[] };
+}
 
 const buildAuthHeader = (email: string, token: string): string =>
   `Basic ${Buffer.from(`${email}:${token}`).toString("base64")}`;
@@ -7,21 +34,27 @@ const buildAuthHeader = (email: string, token: string): string =>
 const jiraFetch = async (
   config: Config,
   path: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  requestOptions?: RequestOptions
 ): Promise<Response> => {
   const url = `${config.jiraBaseUrl}/rest/api/3${path}`;
-  return fetch(url, {
-    ...options,
-    headers: {
-      Authorization: buildAuthHeader(config.jiraEmail, config.jiraApiToken),
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      ...options.headers,
+  return request(
+    "jira",
+    url,
+    {
+      ...options,
+      headers: {
+        Authorization: buildAuthHeader(config.jiraEmail!, config.jiraApiToken!),
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...options.headers,
+      },
     },
-  });
+    requestOptions
+  );
 };
 
-const formatDescription = (ticket: EngineeringTicket): object => ({
+const formatDescription = (ticket: EngineeringTicket, due?: DueDate): object => ({
   type: "doc",
   version: 1,
   content: [
@@ -50,24 +83,51 @@ const formatDescription = (ticket: EngineeringTicket): object => ({
           },
         ]
       : []),
+    // Keep the name Claude heard even when it maps to a JIRA account
+    ...(ticket.assignee
+      ? [
+          {
+            type: "paragraph",
+            content: [{ type: "text", text: `Owner mentioned in meeting: ${ticket.assignee}` }],
+          },
+        ]
+      : []),
+    ...(due ? [{ type: "paragraph", content: [{ type: "text", text: describeDueDate(due) }] }] : []),
   ],
 });
 
-export const createJiraTicket = async (
+/** The exact request body `createJiraTicket` sends for a ticket. */
+export const buildIssueRequest = (
   config: Config,
-  ticket: EngineeringTicket
-): Promise<JiraTicketResult> => {
-  const body = {
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  assignees?: AssigneeResolution
+): object => {
+  // JIRA takes a single assignee
+  const [accountId] = assigneeIds(ticket, assignees, (person) => person.jiraAccountId);
+  const due = dueDateOf(config, ticket, meeting);
+
+  const context = buildTemplateContext(config, ticket, meeting);
+
+  return {
     fields: {
       project: { key: config.jiraProjectKey },
       summary: ticket.summary,
-      description: formatDescription(ticket),
-      issuetype: { name: ticket.issueType === "Spike" ? "Task" : ticket.issueType },
-      customfield_10089: [{ value: config.jiraPod }],
-      priority: { name: ticket.priority },
-      ...(ticket.issueType === "Spike" ? { labels: ["spike"] } : {}),
+      description: formatDescription(ticket, due),
+      ...buildMappedFields(config.jiraFieldMapping, context, ticket, [sourceLabel(meeting.id)]),
+      ...(accountId ? { assignee: { accountId } } : {}),
+      ...(due?.date && config.jiraFieldMapping.dueDate ? { duedate: due.date } : {}),
     },
   };
+};
+
+const createJiraTicket = async (
+  config: Config,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  assignees?: AssigneeResolution
+): Promise<TicketResult> => {
+  const body = buildIssueRequest(config, ticket, meeting, assignees);
 
   const response = await jiraFetch(config, "/issue", {
     method: "POST",
@@ -76,28 +136,100 @@ export const createJiraTicket = async (
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`JIRA API error (${response.status}): ${error}`);
+    throw new HttpError("jira", response.status, `JIRA API error (${response.status}): ${error}`);
   }
 
-  const data = (await response.json()) as { key: string; id: string; self: string };
-  return { key: data.key, id: data.id, self: data.self, summary: ticket.summary };
+  const data = (await response.json()) as { key: string; id: string };
+  return { key: data.key, id: data.id, summary: ticket.summary, action: "created" };
 };
 
-export const createJiraTickets = async (
-  config: Config,
-  tickets: EngineeringTicket[]
-): Promise<JiraTicketResult[]> => {
-  const results: JiraTicketResult[] = [];
-
-  for (const ticket of tickets) {
-    try {
-      const result = await createJiraTicket(config, ticket);
-      console.log(`  ✅ Created ${result.key}: ${result.summary}`);
-      results.push(result);
-    } catch (err) {
-      console.error(`  ❌ Failed to create ticket "${ticket.summary}":`, err);
-    }
+// ── Duplicate detection ────────────────────────────────────────────
+
+const searchIssues = async (config: Config, jql: string): Promise<JiraIssueSummary[]> => {
+  const response = await jiraFetch(config, "/search/jql", {
+    method: "POST",
+    body: JSON.stringify({ jql, fields: ["summary", "labels"], maxResults: 20 }),
+  }, { retryUnsafe: true });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError("jira", response.status, `JIRA search error (${response.status}): ${error}`);
   }
 
-  return results;
+  const data = (await response.json()) as { issues?: JiraIssueSummary[] };
+  return data.issues ?? [];
+};
+
+const findCandidates = async (config: Config, ticket: EngineeringTicket, meeting: MeetingData): Promise<IssueCandidate[]> => {
+  const project = `project = "${config.jiraProjectKey}"`;
+  const keywords = searchKeywords(ticket).join(" ");
+
+  const [fromMeeting, similar] = await Promise.all([
+    searchIssues(config, `${project} AND labels = "${sourceLabel(meeting.id)}"`),
+    keywords
+      ? searchIssues(config, `${project} AND statusCategory != Done AND summary ~ "${keywords}" ORDER BY updated DESC`)
+      : Promise.resolve([]),
+  ]);
+
+  return [
+    ...fromMeeting.map((issue) => ({ issue, sameMeeting: true })),
+    ...similar.map((issue) => ({ issue, sameMeeting: issue.fields.labels?.includes(sourceLabel(meeting.id)) ?? false })),
+  ].map(({ issue, sameMeeting }) => ({ key: issue.key, id: issue.id, summary: issue.fields.summary, sameMeeting }));
+};
+
+const formatComment = (
+  config: Config,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  reason: CommentReason
+): object => {
+  const description = formatDescription(ticket, dueDateOf(config, ticket, meeting)) as { content: object[] };
+
+  return {
+    type: "doc",
+    version: 1,
+    content: [
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: COMMENT_LEADS[reason] },
+          { type: "text", text: meeting.title, marks: [{ type: "strong" }] },
+          { type: "text", text: ` (${formatMeetingDate(meeting)}) as "${ticket.summary}":` },
+        ],
+      },
+      ...description.content,
+    ],
+  };
+};
+
+const commentOnJiraTicket = async (
+  config: Config,
+  issueKey: string,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  reason: CommentReason
+): Promise<void> => {
+  const response = await jiraFetch(config, `/issue/${issueKey}/comment`, {
+    method: "POST",
+    body: JSON.stringify({ body: formatComment(config, ticket, meeting, reason) }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError("jira", response.status, `JIRA API error (${response.status}): ${error}`);
+  }
 };
+
+export const createJiraTracker = (config: Config): IssueTracker => ({
+  name: describeTracker(config),
+  issueUrl: (key) => `${config.jiraBaseUrl}/browse/${key}`,
+  buildCreateRequest: async (ticket, meeting, assignees) => ({
+    method: "POST",
+    url: `${config.jiraBaseUrl}/rest/api/3/issue`,
+    body: buildIssueRequest(config, ticket, meeting, assignees),
+  }),
+  createIssue: (ticket, meeting, assignees) => createJiraTicket(config, ticket, meeting, assignees),
+  findCandidates: (ticket, meeting) => findCandidates(config, ticket, meeting),
+  comment: (issue, ticket, meeting, reason) => commentOnJiraTicket(config, issue.key, ticket, meeting, reason),
+  validate: () => validateFieldMapping(config, config.jiraFieldMapping),
+});
@@ -0,0 +1,54 @@
+/**
+ * Minimal zod → JSON Schema conversion for tool definitions. Covers the zod
+ * types the extraction schemas use; anything else throws, so a new field
+ * can't silently become unconstrained in the tool the model sees.
+ */
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+const describe = (json: JsonSchema, description: string | undefined): JsonSchema =>
+  description ? { ...json, description } : json;
+
+export const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return describe({ type: "string" }, schema.description);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return describe({ type: "number" }, schema.description);
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return describe({ type: "boolean" }, schema.description);
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return describe({ type: "string", enum: def.values }, schema.description);
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return describe({ type: "array", items: toJsonSchema(def.type) }, schema.description);
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      return describe(
+        {
+          type: "object",
+          properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toJsonSchema(field)])),
+          required: Object.keys(shape).filter((key) => !shape[key].isOptional()),
+        },
+        schema.description
+      );
+    }
+    // Wrappers: the description may sit on the wrapper or on the inner type
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return describe(toJsonSchema(def.innerType), schema.description);
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return describe({ ...toJsonSchema(def.innerType), default: def.defaultValue() }, schema.description);
+    case z.ZodFirstPartyTypeKind.ZodNullable: {
+      const { description, ...inner } = toJsonSchema(def.innerType);
+      return describe({ anyOf: [inner, { type: "null" }] }, schema.description ?? (description as string | undefined));
+    }
+    default:
+      throw new Error(`toJsonSchema: unsupported zod type ${def.typeName}`);
+  }
+};
+
+/** One line per issue, e.g. "engineeringTickets.0.priority: Invalid enum value…" — fed back to the model. */
+export const formatZodIssues = (error: z.ZodError): string =>
+  error.issues.map((issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`).join("\n");
@@ -0,0 +1,73 @@
+/**
+ * Sending a meeting's summary to every notifier its route uses. Each one is
+ * tried even when another fails, and what each sent is recorded so a retry
+ * only resends to the ones that failed.
+ */
+import type { Config } from "./config.js";
+import type { MeetingNotification, Notifier, NotifierKind, NotifierRequest } from "./notifier.js";
+import { createSlackNotifier } from "./slack.js";
+import { createTeamsNotifier } from "./notifier-teams.js";
+import { createEmailNotifier } from "./notifier-email.js";
+import { createWebhookNotifier } from "./notifier-webhook.js";
+
+export const createNotifier = (config: Config, kind: NotifierKind): Notifier => {
+  switch (kind) {
+    case "slack":
+      return createSlackNotifier(config);
+    case "teams":
+      return createTeamsNotifier(config);
+    case "email":
+      return createEmailNotifier(config);
+    case "webhook":
+      return createWebhookNotifier(config);
+  }
+};
+
+export const createNotifiers = (config: Config): Notifier[] => config.notifiers.map((kind) => createNotifier(config, kind));
+
+/** Where the config's summaries go, for logs, e.g. "Slack C0123 + email to team@example.com". */
+export const describeNotifiers = (config: Config): string =>
+  createNotifiers(config)
+    .map((notifier) => notifier.name)
+    .join(" + ");
+
+/** What each notifier would send, for dry-run previews. */
+export const buildNotificationPreviews = async (config: Config, notification: MeetingNotification): Promise<NotifierRequest[]> =>
+  (await Promise.all(createNotifiers(config).map((notifier) => notifier.buildRequests(notification)))).flat();
+
+/**
+ * Send to every notifier that isn't in `sent` yet and record what it returned
+ * there ("" when there's nothing to update it by), calling `onSent` after each
+ * send or update so the caller can persist it. With `refresh`, summaries sent earlier are
+ * rewritten where the notifier allows it. Returns the errors; a failing
+ * notifier doesn't stop the others.
+ */
+export const sendNotifications = async (
+  notifiers: Notifier[],
+  notification: MeetingNotification,
+  sent: Partial<Record<NotifierKind, string>>,
+  options: { refresh?: boolean; onSent?: () => Promise<void> } = {}
+): Promise<unknown[]> => {
+  const errors: unknown[] = [];
+
+  for (const notifier of notifiers) {
+    const reference = sent[notifier.kind];
+    try {
+      if (reference === undefined) {
+        console.log(`📣 Sending summary to ${notifier.name}...`);
+        sent[notifier.kind] = (await notifier.send(notification)) ?? "";
+        await options.onSent?.();
+        console.log(`   Sent to ${notifier.name}${sent[notifier.kind] ? ` (${sent[notifier.kind]})` : ""}`);
+      } else if (options.refresh && reference && notifier.update) {
+        console.log(`📣 Updating the earlier summary in ${notifier.name}...`);
+        await notifier.update(reference, notification);
+        await options.onSent?.();
+      }
+    } catch (err) {
+      console.error(`  ❌ Failed to notify ${notifier.name}:`, err);
+      errors.push(err);
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,76 @@
+/**
+ * Email over SMTP: the summary, decisions, action items, ticket links and
+ * follow-ups, as HTML with a plaintext alternative for clients that prefer it.
+ * The notes and transcript are left out; the export has those.
+ */
+import type { Config } from "./config.js";
+import { buildMeetingExport, describeActionItem, escapeHtml, type MeetingExport } from "./export.js";
+import { sendMail, type EmailMessage } from "./smtp.js";
+import { describeNotification, type MeetingNotification, type Notifier, type NotifierRequest } from "./notifier.js";
+
+const textSection = (title: string, lines: string[]): string[] =>
+  lines.length > 0 ? [title, ...lines.map((line) => `  • ${line}`), ""] : [];
+
+const toText = (record: MeetingExport, notification: MeetingNotification): string =>
+  [
+    record.title,
+    [record.date, ...(record.attendees.length > 0 ? [record.attendees.join(", ")] : [])].join(" · "),
+    "",
+    record.summary,
+    "",
+    ...textSection("Engineering Tickets", record.tickets.map((t) => `${t.key}${t.summary ? ` ${t.summary}` : ""} — ${t.url}`)),
+    ...(notification.proposedTickets ? [`${notification.proposedTickets} tickets awaiting approval in Slack`, ""] : []),
+    ...textSection("Key Decisions", record.decisions),
+    ...textSection("Action Items", record.actionItems.map(describeActionItem)),
+    ...textSection("Follow-ups", record.followUps),
+  ].join("\n");
+
+const htmlSection = (title: string, items: string[]): string =>
+  items.length > 0 ? `<h3>${escapeHtml(title)}</h3>\n<ul>${items.map((item) => `<li>${item}</li>`).join("")}</ul>` : "";
+
+const toHtml = (record: MeetingExport, notification: MeetingNotification): string =>
+  [
+    `<div style="font-family:system-ui,sans-serif;line-height:1.5;color:#222">`,
+    `<h2>${escapeHtml(record.title)}</h2>`,
+    `<p style="color:#666">${record.date}${record.attendees.length > 0 ? ` · ${escapeHtml(record.attendees.join(", "))}` : ""}</p>`,
+    `<p>${escapeHtml(record.summary)}</p>`,
+    htmlSection(
+      "Engineering Tickets",
+      record.tickets.map((t) => `<a href="${escapeHtml(t.url)}">${escapeHtml(t.key)}</a>${t.summary ? ` ${escapeHtml(t.summary)}` : ""}`)
+    ),
+    notification.proposedTickets ? `<p>🗳️ ${notification.proposedTickets} tickets awaiting approval in Slack</p>` : "",
+    htmlSection("Key Decisions", record.decisions.map(escapeHtml)),
+    htmlSection("Action Items", record.actionItems.map((item) => escapeHtml(describeActionItem(item)))),
+    htmlSection("Follow-ups", record.followUps.map(escapeHtml)),
+    "</div>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export const createEmailNotifier = (config: Config): Notifier => {
+  const buildMessage = async (notification: MeetingNotification): Promise<EmailMessage> => {
+    const { meeting, extraction, tickets } = notification;
+    const record = await buildMeetingExport(config, meeting, extraction, tickets);
+    return {
+      from: config.emailFrom!,
+      to: config.emailTo,
+      subject: describeNotification(notification),
+      text: toText(record, notification),
+      html: toHtml(record, notification),
+    };
+  };
+
+  const buildRequests = async (notification: MeetingNotification): Promise<NotifierRequest[]> => [
+    { notifier: "email", destination: config.emailTo.join(", "), body: await buildMessage(notification) },
+  ];
+
+  return {
+    kind: "email",
+    name: `email to ${config.emailTo.join(", ")}`,
+    buildRequests,
+    send: async (notification) => {
+      await sendMail(config.smtp!, await buildMessage(notification), config.http.timeoutMs);
+      return undefined;
+    },
+  };
+};
@@ -0,0 +1,81 @@
+/**
+ * Microsoft Teams incoming webhooks. The summary is posted as an Adaptive
+ * Card, which both the classic Office 365 connector webhooks and
+ * Workflows ("Post to a channel when a webhook request is received") accept.
+ */
+import type { Config } from "./config.js";
+import { HttpError, request } from "./http.js";
+import { buildMeetingExport, describeActionItem, type MeetingExport } from "./export.js";
+import type { MeetingNotification, Notifier, NotifierRequest } from "./notifier.js";
+
+const heading = (text: string): object => ({ type: "TextBlock", text, weight: "Bolder", spacing: "Medium", wrap: true });
+
+// Card TextBlocks render Markdown lists and links
+const list = (title: string, items: string[]): object[] =>
+  items.length > 0
+    ? [heading(title), { type: "TextBlock", text: items.map((item) => `- ${item}`).join("\n"), wrap: true, spacing: "Small" }]
+    : [];
+
+const buildCard = (record: MeetingExport, notification: MeetingNotification): object => ({
+  type: "message",
+  attachments: [
+    {
+      contentType: "application/vnd.microsoft.card.adaptive",
+      contentUrl: null,
+      content: {
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+        type: "AdaptiveCard",
+        version: "1.4",
+        msteams: { width: "Full" },
+        body: [
+          { type: "TextBlock", text: `${notification.extraction.interview ? "🎙️" : "📋"} ${record.title}`, size: "Large", weight: "Bolder", wrap: true },
+          {
+            type: "TextBlock",
+            text: [`📅 ${record.date}`, ...(record.attendees.length > 0 ? [`👥 ${record.attendees.join(", ")}`] : [])].join(" · "),
+            isSubtle: true,
+            spacing: "None",
+            wrap: true,
+          },
+          { type: "TextBlock", text: record.summary, wrap: true },
+          ...list("Engineering Tickets", record.tickets.map((t) => `[${t.key}](${t.url})${t.summary ? ` ${t.summary}` : ""}`)),
+          ...(notification.proposedTickets
+            ? [heading(`🗳️ ${notification.proposedTickets} tickets awaiting approval in Slack`)]
+            : []),
+          ...list("Key Decisions", record.decisions),
+          ...list("Action Items", record.actionItems.map(describeActionItem)),
+          ...list("Follow-ups", record.followUps),
+        ],
+      },
+    },
+  ],
+});
+
+export const createTeamsNotifier = (config: Config): Notifier => {
+  const url = config.teamsWebhookUrl!;
+
+  const buildRequest = async (notification: MeetingNotification): Promise<NotifierRequest> => {
+    const { meeting, extraction, tickets } = notification;
+    const record = await buildMeetingExport(config, meeting, extraction, tickets);
+    return { notifier: "teams", destination: url, body: buildCard(record, notification) };
+  };
+
+  return {
+    kind: "teams",
+    name: "Microsoft Teams",
+    buildRequests: async (notification) => [await buildRequest(notification)],
+    send: async (notification) => {
+      const { body } = await buildRequest(notification);
+      const response = await request("teams", url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      // Connector webhooks answer 200 "1"; Workflows answer 202 with no body
+      if (!response.ok) {
+        const error = await response.text();
+        throw new HttpError("teams", response.status, `Teams webhook error (${response.status}): ${error}`);
+      }
+      return undefined;
+    },
+  };
+};
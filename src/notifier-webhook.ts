@@ -0,0 +1,92 @@
+/**
+ * Generic JSON webhooks for internal tools. The body is the meeting's JSON
+ * export (see export.ts) wrapped in an event envelope, signed like Slack
+ * signs its requests:
+ *
+ *   X-Granola-Timestamp: 1760000000
+ *   X-Granola-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>" with WEBHOOK_SECRET>
+ *   X-Granola-Delivery: <id, the same for every attempt at the same event>
+ *
+ * Receivers should recompute the signature over the raw body, compare in
+ * constant time, and reject timestamps more than a few minutes old. Requests
+ * are retried, so they should also ignore a delivery ID they've already handled.
+ */
+import { createHash, createHmac } from "crypto";
+import type { Config } from "./config.js";
+import { HttpError, request } from "./http.js";
+import { buildMeetingExport, type MeetingExport } from "./export.js";
+import type { MeetingNotification, Notifier, NotifierRequest } from "./notifier.js";
+
+const WEBHOOK_EVENT = "meeting.processed";
+
+export interface WebhookPayload {
+  event: typeof WEBHOOK_EVENT;
+  /** Name of the route the meeting took */
+  route: string;
+  /** Approval mode: tickets awaiting review in Slack, not yet in `meeting.tickets`. A second event follows once all are decided. */
+  proposedTickets?: number;
+  meeting: MeetingExport;
+}
+
+/** Signature headers for `body`, sent at `timestamp` (seconds). */
+const signWebhook = (secret: string, body: string, timestamp: number): Record<string, string> => ({
+  "X-Granola-Timestamp": String(timestamp),
+  "X-Granola-Signature": `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`,
+});
+
+// Derived rather than random so a retry of the run, not just of the request, sends the same ID.
+// Edited notes change `updatedAt` and are a new delivery.
+const deliveryId = ({ meeting, proposedTickets }: MeetingNotification): string =>
+  createHash("sha256")
+    .update(`${meeting.id}\n${meeting.updatedAt}\n${proposedTickets ? "proposed" : "processed"}`)
+    .digest("hex")
+    .slice(0, 32);
+
+export const createWebhookNotifier = (config: Config): Notifier => {
+  const url = config.webhookUrl!;
+
+  const buildPayload = async (notification: MeetingNotification): Promise<WebhookPayload> => {
+    const { meeting, extraction, tickets, proposedTickets } = notification;
+    return {
+      event: WEBHOOK_EVENT,
+      route: config.routeName,
+      ...(proposedTickets ? { proposedTickets } : {}),
+      meeting: await buildMeetingExport(config, meeting, extraction, tickets),
+    };
+  };
+
+  const buildRequests = async (notification: MeetingNotification): Promise<NotifierRequest[]> => [
+    { notifier: "webhook", destination: url, body: await buildPayload(notification) },
+  ];
+
+  return {
+    kind: "webhook",
+    name: `webhook ${new URL(url).host}`,
+    buildRequests,
+    send: async (notification) => {
+      const body = JSON.stringify(await buildPayload(notification));
+      // Retries resend the same signature, so its timestamp is at most a few minutes old.
+      // Receivers drop repeated delivery IDs, so a request that may have gone through is safe to resend.
+      const response = await request(
+        "webhook",
+        url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Granola-Event": WEBHOOK_EVENT,
+            "X-Granola-Delivery": deliveryId(notification),
+            ...signWebhook(config.webhookSecret!, body, Math.floor(Date.now() / 1000)),
+          },
+          body,
+        },
+        { retryUnsafe: true }
+      );
+      if (!response.ok) {
+        const error = await response.text();
+        throw new HttpError("webhook", response.status, `Webhook error (${response.status}): ${error}`);
+      }
+      return undefined;
+    },
+  };
+};
@@ -0,0 +1,71 @@
+/**
+ * Notifiers: where the summary of a processed meeting is sent. Slack, Microsoft
+ * Teams, email and signed JSON webhooks all take the same notification, so a
+ * route can send to any mix of them. NOTIFIERS picks the default set; a route
+ * can pick its own.
+ */
+import type { AssigneeResolution, MeetingData, MeetingExtraction, TicketResult } from "./types.js";
+
+export const NOTIFIERS = ["slack", "teams", "email", "webhook"] as const;
+export type NotifierKind = (typeof NOTIFIERS)[number];
+
+/** What every notifier is told about a processed meeting. */
+export interface MeetingNotification {
+  meeting: MeetingData;
+  extraction: MeetingExtraction;
+  tickets: TicketResult[];
+  /** Lines up with extraction.engineeringTickets, null where a ticket wasn't filed; for per-ticket detail */
+  ticketResults?: Array<TicketResult | null>;
+  assignees?: AssigneeResolution;
+  /** Tracked IDs of the action items, in order (action tracking) */
+  actionItemIds?: number[];
+  /** Approval mode: tickets posted to Slack for review instead of filed */
+  proposedTickets?: number;
+  /**
+   * Slack's thread replies and DMs by follow-up key, filled in as they're posted so
+   * a refresh can rewrite them. The caller keeps it with the checkpoint.
+   */
+  slackFollowUps?: Record<string, SlackMessageRef>;
+}
+
+export interface SlackMessageRef {
+  channel: string;
+  ts: string;
+}
+
+/** What a notifier would send, for dry-run previews. */
+export interface NotifierRequest {
+  notifier: NotifierKind;
+  /** Slack API method, webhook URL or email recipients */
+  destination: string;
+  body: object;
+}
+
+export interface Notifier {
+  kind: NotifierKind;
+  /** Where it sends, for logs and messages, e.g. "Slack C0123" */
+  name: string;
+  /** Everything `send` would send, in order (Slack also replies in the summary's thread) */
+  buildRequests: (notification: MeetingNotification) => Promise<NotifierRequest[]>;
+  /** Send the summary. Returns a reference to it when it can be updated later (Slack's message ts). */
+  send: (notification: MeetingNotification) => Promise<string | undefined>;
+  /** Rewrite a summary sent earlier, e.g. once a retry filed the tickets that failed */
+  update?: (reference: string, notification: MeetingNotification) => Promise<void>;
+}
+
+// ── Shared between notifiers ───────────────────────────────────────
+
+/** The one-line outcome, e.g. "📋 Sprint Planning — 2 tickets created, 1 already tracked, 4 action items". */
+export const describeNotification = ({ meeting, extraction, tickets, proposedTickets }: MeetingNotification): string => {
+  const createdCount = tickets.filter((t) => t.action === "created").length;
+  const existingCount = tickets.length - createdCount;
+  const filed = proposedTickets
+    ? `${proposedTickets} tickets awaiting approval`
+    : `${createdCount} tickets created${existingCount > 0 ? `, ${existingCount} already tracked` : ""}`;
+
+  if (extraction.interview) {
+    const { painPoints, featureRequests } = extraction.interview;
+    return `🎙️ ${meeting.title} — ${painPoints.length} pain points, ${featureRequests.length} feature requests`;
+  }
+  return `📋 ${meeting.title} — ${filed}, ${extraction.actionItems.length} action items`;
+};
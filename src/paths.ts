@@ -0,0 +1,8 @@
+/**
+ * File settings may start with `~`, from the env or a routes file alike.
+ */
+import { homedir } from "os";
+
+/** `~` or `~/…` resolved against the home directory; blank means unset. */
+export const expandHome = (path: string | undefined): string | undefined =>
+  path?.trim().replace(/^~(?=$|\/)/, homedir()) || undefined;
@@ -0,0 +1,192 @@
+/**
+ * Resolves the free-text assignee names Claude extracts ("Sam", "sarah k.")
+ * to real JIRA, GitHub and Linear accounts and Slack users.
+ *
+ * Sources, in order:
+ *   1. PEOPLE_FILE — a JSON directory with names, aliases and optional IDs
+ *   2. PEOPLE_LOOKUP=true — JIRA user search (when JIRA is configured) and
+ *      Slack users.lookupByEmail to fill in whatever IDs the file doesn't have
+ */
+import { existsSync, readFileSync } from "fs";
+import { z } from "zod";
+import type { Config } from "./config.js";
+import type { AssigneeResolution, MeetingExtraction, ResolvedPerson } from "./types.js";
+import { HttpError, createSlackClient, request } from "./http.js";
+
+const personSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional(),
+  aliases: z.array(z.string()).default([]),
+  jiraAccountId: z.string().optional(),
+  githubUsername: z.string().optional(),
+  linearUserId: z.string().optional(),
+  slackUserId: z.string().optional(),
+});
+
+const peopleFileSchema = z.union([
+  z.array(personSchema),
+  z.object({ people: z.array(personSchema) }).transform((f) => f.people),
+]);
+
+type Person = z.infer<typeof personSchema>;
+
+// Lookups are slow and rarely change — cache them for the life of the process
+const lookupCache = new Map<string, Promise<Partial<ResolvedPerson>>>();
+
+const normalize = (name: string): string =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}@.\s-]/gu, "").replace(/\s+/g, " ").trim();
+
+/** "Sam and Priya", "Sam/Priya", "Sam, Priya" → ["Sam", "Priya"] */
+export const splitAssignees = (assignee: string): string[] =>
+  assignee
+    .split(/\s*(?:,|&|\/|\band\b)\s*/i)
+    .map((n) => n.trim())
+    .filter(Boolean);
+
+export const loadPeople = (path: string | undefined): Person[] => {
+  if (!path) return [];
+  if (!existsSync(path)) {
+    throw new Error(`People directory not found at ${path}. Check PEOPLE_FILE.`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid people directory ${path}: ${(err as Error).message}. Check PEOPLE_FILE.`);
+  }
+
+  const result = peopleFileSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `  ${i.path.join(".")}: ${i.message}`).join("\n");
+    throw new Error(`Invalid people directory ${path}:\n${issues}`);
+  }
+  return result.data;
+};
+
+const matchPerson = (people: Person[], name: string): Person | undefined => {
+  const wanted = normalize(name);
+  if (!wanted) return undefined;
+
+  const exact = people.find(
+    (p) =>
+      normalize(p.name) === wanted ||
+      p.aliases.some((a) => normalize(a) === wanted) ||
+      (p.email && normalize(p.email) === wanted)
+  );
+  if (exact) return exact;
+
+  // "Sarah" → "Sarah Kim", but only when exactly one person has that first name
+  const byFirstName = people.filter((p) => normalize(p.name).split(" ")[0] === wanted);
+  return byFirstName.length === 1 ? byFirstName[0] : undefined;
+};
+
+export const createPeopleDirectory = (config: Config) => {
+  const people = loadPeople(config.peopleFile);
+  const slack = config.peopleLookup ? createSlackClient(config.slackBotToken) : null;
+
+  const searchJiraUser = async (query: string): Promise<{ accountId: string; emailAddress?: string } | undefined> => {
+    const url = `${config.jiraBaseUrl}/rest/api/3/user/search?query=${encodeURIComponent(query)}`;
+    const response = await request("jira", url, {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${config.jiraEmail}:${config.jiraApiToken}`).toString("base64")}`,
+        Accept: "application/json",
+      },
+    });
+    if (!response.ok) {
+      throw new HttpError("jira", response.status, `JIRA user search error (${response.status}): ${await response.text()}`);
+    }
+
+    const users = (await response.json()) as Array<{
+      accountId: string;
+      accountType: string;
+      active: boolean;
+      emailAddress?: string;
+    }>;
+    const humans = users.filter((u) => u.accountType === "atlassian" && u.active);
+    // Ambiguous matches are worse than none — don't guess
+    return humans.length === 1 ? humans[0] : undefined;
+  };
+
+  const lookupSlackUser = async (email: string): Promise<string | undefined> => {
+    const result = await slack!.users.lookupByEmail({ email });
+    return result.user?.id;
+  };
+
+  const lookup = (key: string, email: string | undefined, name: string): Promise<Partial<ResolvedPerson>> => {
+    if (!lookupCache.has(key)) {
+      lookupCache.set(key, (async () => {
+        const found: Partial<ResolvedPerson> = {};
+        found.email = email;
+        if (config.jiraBaseUrl) {
+          try {
+            const jiraUser = await searchJiraUser(email ?? name);
+            found.jiraAccountId = jiraUser?.accountId;
+            found.email ??= jiraUser?.emailAddress;
+          } catch (err) {
+            console.warn(`   ⚠️  JIRA user lookup failed for "${name}":`, err);
+          }
+        }
+        if (found.email) {
+          try {
+            found.slackUserId = await lookupSlackUser(found.email);
+          } catch {
+            // users_not_found — leave unset
+          }
+        }
+        return found;
+      })());
+    }
+    return lookupCache.get(key)!;
+  };
+
+  const resolve = async (name: string): Promise<ResolvedPerson | null> => {
+    const person = matchPerson(people, name);
+    const resolved: ResolvedPerson = {
+      name: person?.name ?? name,
+      email: person?.email,
+      jiraAccountId: person?.jiraAccountId,
+      githubUsername: person?.githubUsername,
+      linearUserId: person?.linearUserId,
+      slackUserId: person?.slackUserId,
+    };
+
+    const complete = resolved.jiraAccountId && resolved.slackUserId;
+    if (slack && !complete) {
+      const found = await lookup(normalize(person?.email ?? resolved.name), resolved.email, resolved.name);
+      resolved.email ??= found.email;
+      resolved.jiraAccountId ??= found.jiraAccountId;
+      resolved.slackUserId ??= found.slackUserId;
+    }
+
+    return resolved.jiraAccountId || resolved.githubUsername || resolved.linearUserId || resolved.slackUserId
+      ? resolved
+      : null;
+  };
+
+  return { resolve };
+};
+
+export type PeopleDirectory = ReturnType<typeof createPeopleDirectory>;
+
+/**
+ * Resolve every assignee mentioned in an extraction. Keys of `people` are the
+ * individual names as split from the raw assignee strings.
+ */
+export const resolveAssignees = async (
+  directory: PeopleDirectory,
+  extraction: MeetingExtraction
+): Promise<AssigneeResolution> => {
+  const names = new Set(
+    [...extraction.actionItems, ...extraction.engineeringTickets]
+      .flatMap((item) => (item.assignee ? splitAssignees(item.assignee) : []))
+  );
+
+  const resolution: AssigneeResolution = { people: {}, unresolved: [] };
+  for (const name of names) {
+    const person = await directory.resolve(name);
+    if (person) resolution.people[name] = person;
+    else resolution.unresolved.push(name);
+  }
+  return resolution;
+};
@@ -1,45 +1,327 @@
+import { existsSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
 import type { Config } from "./config.js";
-import type { MeetingData, PipelineResult } from "./types.js";
+import type {
+  AssigneeResolution,
+  DryRunPreview,
+  TicketResult,
+  MeetingData,
+  MeetingExtraction,
+  PipelineResult,
+} from "./types.js";
 import { extractMeetingData } from "./extract.js";
-import { createJiraTickets } from "./jira.js";
-import { postSlackSummary } from "./slack.js";
+import { buildIssuePreview, fileTicket } from "./tickets.js";
+import { describeTracker } from "./tracker.js";
+import { buildNotificationPreviews, createNotifiers, sendNotifications } from "./notifications.js";
+import type { MeetingNotification, NotifierKind } from "./notifier.js";
+import { createPeopleDirectory, resolveAssignees } from "./people.js";
+import { describeRoute } from "./routing.js";
+import { notifyProposal, proposeTickets } from "./approvals.js";
+import { updateApprovalMessage } from "./slack.js";
+import { OutcomeUnknownError, isTransientError } from "./http.js";
+import { recordInterview } from "./research.js";
+import { trackActionItems } from "./action-items.js";
+import { exportProcessedMeeting } from "./export.js";
+import {
+  clearCheckpoint,
+  failRun,
+  finishRun,
+  getCheckpoint,
+  saveCheckpoint,
+  saveSyncedDocument,
+  startRun,
+  type Checkpoint,
+} from "./state.js";
 
+export const logExtraction = (extraction: MeetingExtraction): void => {
+  console.log(
+    `   Found: ${extraction.actionItems.length} action items, ` +
+    `${extraction.engineeringTickets.length} engineering tickets, ` +
+    `${extraction.keyDecisions.length} decisions`
+  );
+};
+
+// Without a people file or lookups there's nothing to resolve against
+export const resolvePeople = async (config: Config, extraction: MeetingExtraction): Promise<AssigneeResolution> => {
+  if (!config.peopleFile && !config.peopleLookup) return { people: {}, unresolved: [] };
+
+  console.log("👥 Resolving assignees...");
+  const resolution = await resolveAssignees(createPeopleDirectory(config), extraction);
+  const resolvedCount = Object.keys(resolution.people).length;
+  console.log(`   Resolved ${resolvedCount} people`);
+  if (resolution.unresolved.length > 0) {
+    console.warn(`   ⚠️  Unresolved assignees: ${resolution.unresolved.join(", ")}`);
+  }
+  return resolution;
+};
+
+/**
+ * Extract, file tickets and send the summary to the route's notifiers,
+ * recording the run in the history database. `calendarEventId` links the run
+ * to the event that triggered it.
+ *
+ * Each step is checkpointed, so after a failure the next attempt reuses the
+ * extraction, skips tickets that were already filed and only sends the
+ * summary to notifiers that don't have it yet.
+ */
 export const processMeeting = async (
   config: Config,
-  meeting: MeetingData
+  meeting: MeetingData,
+  calendarEventId?: string
 ): Promise<PipelineResult> => {
+  const runId = await startRun({
+    granolaDocId: meeting.id,
+    calendarEventId,
+    meetingTitle: meeting.title,
+    route: config.routes.length > 0 ? config.routeName : undefined,
+  });
+
+  try {
+    const result = await runPipeline(config, meeting);
+    await finishRun(runId, {
+      status: result.proposalId ? "awaiting_approval" : "succeeded",
+      extraction: result.extraction,
+      ticketKeys: result.tickets.map((t) => t.key),
+      slackChannel: result.slackMessageTs ? config.slackChannelId : undefined,
+      slackTs: result.slackMessageTs,
+    });
+    return result;
+  } catch (err) {
+    const checkpoint = await getCheckpoint(meeting.id);
+    await failRun(runId, err, {
+      extraction: checkpoint?.extraction,
+      ticketKeys: checkpoint?.tickets.flatMap((t) => (t ? [t.key] : [])),
+    });
+    throw err;
+  }
+};
+
+const runPipeline = async (config: Config, meeting: MeetingData): Promise<PipelineResult> => {
   console.log(`\n🚀 Processing: "${meeting.title}" (${meeting.id})`);
+  if (config.routes.length > 0) console.log(`🧭 Route: ${describeRoute(config)}`);
+
+  const checkpoint: Checkpoint = (await getCheckpoint(meeting.id)) ?? { tickets: [], notified: {} };
+  const save = () => saveCheckpoint(meeting.id, checkpoint);
 
   // Step 1: Extract structured data
-  console.log("📊 Extracting action items and tickets with Claude...");
-  const extraction = await extractMeetingData(config.anthropicApiKey, meeting);
-  console.log(
-    `   Found: ${extraction.actionItems.length} action items, ` +
-    `${extraction.engineeringTickets.length} engineering tickets, ` +
-    `${extraction.keyDecisions.length} decisions`
-  );
+  let extraction = checkpoint.extraction;
+  if (extraction) {
+    console.log("📊 Reusing extraction from the previous attempt");
+  } else {
+    console.log("📊 Extracting action items and tickets...");
+    extraction = await extractMeetingData(config, meeting);
+    checkpoint.extraction = extraction;
+    await save();
+  }
+  logExtraction(extraction);
+  await recordInterview(meeting, extraction);
+
+  if (!checkpoint.assignees) {
+    checkpoint.assignees = await resolvePeople(config, extraction);
+    await save();
+  }
+  const assignees = checkpoint.assignees;
+
+  // A retry links the same items again rather than adding them twice
+  const actionItemIds = config.actionTracking
+    ? await trackActionItems(config, meeting, extraction, assignees)
+    : undefined;
 
-  // Step 2: Create JIRA tickets
-  let jiraTickets: PipelineResult["jiraTickets"] = [];
-  if (extraction.engineeringTickets.length > 0) {
-    console.log("🎫 Creating JIRA tickets...");
-    jiraTickets = await createJiraTickets(config, extraction.engineeringTickets);
+  // Approval mode: the summary goes out with the tickets as proposals; the tracker
+  // is only touched once someone approves them in Slack
+  if (config.approvalMode && extraction.engineeringTickets.length > 0) {
+    console.log("🗳️  Posting tickets to Slack for approval...");
+    const proposal = await proposeTickets(config, meeting, extraction, assignees, actionItemIds);
+    await saveSyncedDocument({
+      granolaDocId: meeting.id,
+      updatedAt: meeting.updatedAt,
+      route: config.routeName,
+      extraction,
+      tickets: extraction.engineeringTickets.map(() => null),
+      slackChannel: proposal.channel,
+      slackTs: proposal.ts,
+    });
+    await clearCheckpoint(meeting.id);
+    console.log(`   Posted proposal ${proposal.id} (ts: ${proposal.ts})`);
+    // The proposal stands in for the Slack summary. The other notifiers are kept with
+    // it rather than failing the run, which would post the proposal again.
+    const notified = await notifyProposal(config, proposal);
+    if (notified.unsent?.length) {
+      console.warn(`   ⚠️  Not sent to ${notified.unsent.join(", ")} — retried on the next decision or from the message`);
+      await updateApprovalMessage(config, notified);
+    }
+    await exportProcessedMeeting(config, meeting, extraction, []);
+    console.log(`✅ Done processing "${meeting.title}" — ${proposal.tickets.length} tickets awaiting approval\n`);
+
+    return {
+      meetingId: meeting.id,
+      meetingTitle: meeting.title,
+      extraction,
+      tickets: [],
+      slackMessageTs: proposal.ts,
+      notified: ["slack", ...(Object.keys(notified.notified?.proposed ?? {}) as NotifierKind[])],
+      unresolvedAssignees: assignees.unresolved,
+      proposalId: proposal.id,
+    };
+  }
+
+  // Step 2: File tickets — only the ones not filed by an earlier attempt
+  const tickets = extraction.engineeringTickets;
+  const uncertain = new Set(checkpoint.uncertain);
+  let filedNow = 0;
+  const ticketErrors: unknown[] = [];
+  if (tickets.length > 0) {
+    console.log(`🎫 Creating tickets in ${describeTracker(config)}...`);
+    for (const [i, ticket] of tickets.entries()) {
+      const previous = checkpoint.tickets[i];
+      if (previous) {
+        console.log(`  ♻️  Filed by a previous attempt: ${previous.key}`);
+        continue;
+      }
+      try {
+        checkpoint.tickets[i] = await fileTicket(config, ticket, meeting, assignees, { uncertain: uncertain.has(i) });
+        uncertain.delete(i);
+        filedNow++;
+      } catch (err) {
+        console.error(`  ❌ Failed to create ticket "${ticket.summary}":`, err);
+        checkpoint.tickets[i] = null;
+        // It may exist already, so the retry looks for it before creating
+        if (err instanceof OutcomeUnknownError) uncertain.add(i);
+        ticketErrors.push(err);
+      }
+      checkpoint.uncertain = [...uncertain];
+      await save();
+    }
   } else {
     console.log("🎫 No engineering tickets to create.");
   }
+  const filed = checkpoint.tickets.filter((t): t is TicketResult => t !== null);
 
-  // Step 3: Post to Slack
-  console.log("💬 Posting summary to Slack...");
-  const slackMessageTs = await postSlackSummary(config, meeting, extraction, jiraTickets);
-  console.log(`   Posted to Slack (ts: ${slackMessageTs})`);
+  // Step 3: Send the summary to each notifier that doesn't have it yet, and refresh
+  // the ones that can be updated (Slack) with newly filed tickets
+  checkpoint.slackChannel ??= config.slackChannelId;
+  const notifiers = createNotifiers({ ...config, slackChannelId: checkpoint.slackChannel });
+  const notification: MeetingNotification = {
+    meeting,
+    extraction,
+    tickets: filed,
+    ticketResults: checkpoint.tickets,
+    assignees,
+    actionItemIds,
+    slackFollowUps: (checkpoint.slackFollowUps ??= {}),
+  };
+  const notifyErrors = await sendNotifications(notifiers, notification, checkpoint.notified, {
+    refresh: filedNow > 0,
+    onSent: save,
+  });
 
+  if (ticketErrors.length > 0) {
+    // The cause decides whether this counts as transient: any permanent failure makes the whole run permanent
+    throw new Error(
+      `${ticketErrors.length} of ${tickets.length} tickets failed in ${describeTracker(config)} for "${meeting.title}" — ` +
+      `run "retry ${meeting.id}" to file them`,
+      { cause: ticketErrors.find((err) => !isTransientError(err)) ?? ticketErrors[0] }
+    );
+  }
+  if (notifyErrors.length > 0) {
+    throw new Error(
+      `${notifyErrors.length} of ${notifiers.length} notifiers failed for "${meeting.title}" — ` +
+      `run "retry ${meeting.id}" to send to them`,
+      { cause: notifyErrors.find((err) => !isTransientError(err)) ?? notifyErrors[0] }
+    );
+  }
+
+  // Snapshot for re-syncing when the notes are edited later
+  await saveSyncedDocument({
+    granolaDocId: meeting.id,
+    updatedAt: meeting.updatedAt,
+    route: config.routeName,
+    extraction,
+    tickets: checkpoint.tickets,
+    slackChannel: checkpoint.slackChannel,
+    slackTs: checkpoint.notified.slack,
+  });
+  await clearCheckpoint(meeting.id);
+  await exportProcessedMeeting(config, meeting, extraction, filed);
   console.log(`✅ Done processing "${meeting.title}"\n`);
 
   return {
     meetingId: meeting.id,
     meetingTitle: meeting.title,
     extraction,
-    jiraTickets,
-    slackMessageTs,
+    tickets: filed,
+    slackMessageTs: checkpoint.notified.slack,
+    notified: notifiers.map((notifier) => notifier.kind),
+    unresolvedAssignees: assignees.unresolved,
+  };
+};
+
+// Shaped like the tracker's own keys, so the preview links look right
+const placeholderKey = (config: Config, n: number): string => {
+  switch (config.issueTracker) {
+    case "jira":
+      return `${config.jiraProjectKey}-DRYRUN${n}`;
+    case "github":
+      return `${config.githubRepo}#DRYRUN${n}`;
+    case "linear":
+      return `${config.linearTeam}-DRYRUN${n}`;
+  }
+};
+
+/**
+ * Dry run: extract, then render the issue tracker and notifier requests that
+ * `processMeeting` would send — without sending them. Written to `outputPath`
+ * (a file, or a directory to get `<meetingId>.json`) or printed to stdout.
+ */
+export const previewMeeting = async (
+  config: Config,
+  meeting: MeetingData,
+  outputPath?: string
+): Promise<DryRunPreview> => {
+  console.log(`\n🧪 Dry run: "${meeting.title}" (${meeting.id})`);
+  if (config.routes.length > 0) console.log(`🧭 Route: ${describeRoute(config)}`);
+
+  console.log("📊 Extracting action items and tickets...");
+  const extraction = await extractMeetingData(config, meeting);
+  logExtraction(extraction);
+  const assignees = await resolvePeople(config, extraction);
+
+  // Placeholder results so the previews show where ticket links would go
+  const placeholderTickets: TicketResult[] = extraction.engineeringTickets.map((ticket, i) => ({
+    key: placeholderKey(config, i + 1),
+    id: "",
+    summary: ticket.summary,
+    action: "created",
+  }));
+
+  const preview: DryRunPreview = {
+    meetingId: meeting.id,
+    meetingTitle: meeting.title,
+    extraction,
+    assignees,
+    issueRequests: await Promise.all(
+      extraction.engineeringTickets.map((ticket) => buildIssuePreview(config, ticket, meeting, assignees))
+    ),
+    notifierRequests: await buildNotificationPreviews(config, {
+      meeting,
+      extraction,
+      tickets: placeholderTickets,
+      ticketResults: placeholderTickets,
+      assignees,
+    }),
   };
+
+  const json = JSON.stringify(preview, null, 2);
+  if (outputPath) {
+    const file = existsSync(outputPath) && statSync(outputPath).isDirectory()
+      ? join(outputPath, `${meeting.id}.json`)
+      : outputPath;
+    writeFileSync(file, json);
+    console.log(`📝 Preview written to ${file}`);
+  } else {
+    console.log(json);
+  }
+
+  console.log(`🧪 Dry run complete — nothing was created or posted.\n`);
+  return preview;
 };
@@ -0,0 +1,51 @@
+/**
+ * Tickets proposed for approval. They're stored in the state database
+ * (state.ts), so approvals still work after a restart.
+ */
+import type {
+  AssigneeResolution,
+  EngineeringTicket,
+  TicketResult,
+  MeetingData,
+  MeetingExtraction,
+} from "./types.js";
+import type { NotifierKind } from "./notifier.js";
+
+export type ProposalTicketStatus = "pending" | "approved" | "rejected" | "failed";
+
+export interface ProposedTicket {
+  ticket: EngineeringTicket;
+  status: ProposalTicketStatus;
+  result?: TicketResult;
+  decidedBy?: string;
+  error?: string;
+  /** Filing may have gone through without hearing back; approving again looks for the issue first */
+  uncertain?: boolean;
+}
+
+/** Pending, or failed to file — either way it still takes Approve / Edit / Reject. */
+export const awaitsDecision = (proposed: ProposedTicket): boolean =>
+  proposed.status === "pending" || proposed.status === "failed";
+
+/** Tickets posted to Slack for review, waiting on Approve / Edit / Reject. */
+export interface Proposal {
+  id: string;
+  routeName: string;
+  channel: string;
+  ts: string;
+  meeting: MeetingData;
+  extraction: MeetingExtraction;
+  assignees: AssigneeResolution;
+  /** Tracked IDs of the extraction's action items, when action tracking is on */
+  actionItemIds?: number[];
+  tickets: ProposedTicket[];
+  /**
+   * What the route's other notifiers (Teams, email, webhook) were sent, like a
+   * checkpoint's: `proposed` when the tickets went up for review, `decided` once
+   * every ticket was decided
+   */
+  notified?: { proposed: Partial<Record<NotifierKind, string>>; decided: Partial<Record<NotifierKind, string>> };
+  /** Notifiers the last attempt failed to reach, retried from the message */
+  unsent?: NotifierKind[];
+  createdAt: string;
+}
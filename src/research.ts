@@ -0,0 +1,232 @@
+/**
+ * Research repository: every interview's insights are saved locally (see
+ * state.ts), and `themes` clusters pain points and feature requests across
+ * interviews so recurring problems stand out from one-off remarks.
+ *
+ * Clustering is word overlap, the same measure used for duplicate tickets,
+ * with a lower bar since different customers word the same problem differently.
+ */
+import type { InterviewInsights, MeetingData, MeetingExtraction } from "./types.js";
+import { saveInterview, type InterviewRecord } from "./state.js";
+import { similarity, tokenize } from "./similarity.js";
+
+// Lower than the duplicate-ticket threshold: a theme groups related complaints, not restatements
+const SAME_THEME_THRESHOLD = 0.4;
+// Quotes are long and descriptions short, so a few shared words are enough to link them
+const QUOTE_THRESHOLD = 0.2;
+
+export const THEME_FORMATS = ["markdown", "csv"] as const;
+export type ThemeFormat = (typeof THEME_FORMATS)[number];
+
+export type InterviewQuote = InterviewInsights["quotes"][number];
+
+export interface ThemeMention {
+  granolaDocId: string;
+  meetingTitle: string;
+  meetingDate: string;
+  customer: string;
+  description: string;
+  /** Severity of a pain point, or why a feature was requested */
+  detail?: string;
+  /** Quotes from the same interview that back this mention up */
+  quotes: InterviewQuote[];
+}
+
+export interface Theme {
+  kind: "Pain point" | "Feature request";
+  /** The mention that best represents the rest */
+  title: string;
+  /** Distinct customers, in order of first mention */
+  customers: string[];
+  mentions: ThemeMention[];
+}
+
+export interface ThemeReport {
+  from?: Date;
+  /** Exclusive */
+  to?: Date;
+  interviews: number;
+  customers: number;
+  themes: Theme[];
+}
+
+// ── Recording ──────────────────────────────────────────────────────
+
+const domainOf = (email?: string): string | undefined => email?.split("@")[1]?.toLowerCase();
+
+/**
+ * Who the interview was with: the company if the model caught it, else the
+ * email domain of an attendee from outside the note taker's company, else
+ * the interviewee's name.
+ */
+const customerOf = (meeting: MeetingData, insights: InterviewInsights): string => {
+  const ownDomain = domainOf(meeting.attendees.find((a) => a.isNoteTaker)?.email);
+  const external = meeting.attendees.find((a) => !a.isNoteTaker && domainOf(a.email) && domainOf(a.email) !== ownDomain);
+  return insights.interviewee.company ?? domainOf(external?.email) ?? insights.interviewee.name ?? meeting.title;
+};
+
+/** Save the meeting's interview insights, if it has any, to the research repository. */
+export const recordInterview = async (meeting: MeetingData, extraction: MeetingExtraction): Promise<void> => {
+  if (!extraction.interview) return;
+
+  await saveInterview({
+    granolaDocId: meeting.id,
+    meetingTitle: meeting.title,
+    meetingDate: new Date(meeting.createdAt).toISOString(),
+    customer: customerOf(meeting, extraction.interview),
+    insights: extraction.interview,
+  });
+  console.log("🗂️  Saved interview insights to the research repository");
+};
+
+// ── Clustering ─────────────────────────────────────────────────────
+
+// Crude suffix stripping so "exports" matches "export" and "scheduled" matches "schedule"
+const stem = (word: string): string => word.replace(/(ing|ed|es|(?<!s)s)$/, "").replace(/e$/, "") || word;
+
+const themeText = (text: string): string => tokenize(text).map(stem).join(" ");
+
+const distinctCustomers = (customers: string[]): string[] => {
+  const seen = new Map<string, string>();
+  for (const customer of customers) {
+    const key = customer.trim().toLowerCase();
+    if (!seen.has(key)) seen.set(key, customer);
+  }
+  return [...seen.values()];
+};
+
+type Stemmed = { mention: ThemeMention; text: string };
+
+// The mention most similar to all the others reads best as the theme's title
+const representative = (cluster: Stemmed[]): string => {
+  const scored = cluster.map((m) => ({
+    description: m.mention.description,
+    score: cluster.reduce((sum, other) => sum + similarity(m.text, other.text), 0),
+  }));
+  return scored.reduce((best, s) => (s.score > best.score ? s : best)).description;
+};
+
+/** Greedy clustering: each mention joins the theme it overlaps most with, or starts a new one. */
+const clusterMentions = (kind: Theme["kind"], mentions: ThemeMention[]): Theme[] => {
+  const clusters: Stemmed[][] = [];
+
+  for (const mention of mentions) {
+    const item = { mention, text: themeText(mention.description) };
+    let best: Stemmed[] | undefined;
+    let bestScore = 0;
+    for (const cluster of clusters) {
+      const score = Math.max(...cluster.map((m) => similarity(m.text, item.text)));
+      if (score >= SAME_THEME_THRESHOLD && score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+    if (best) best.push(item);
+    else clusters.push([item]);
+  }
+
+  return clusters.map((cluster) => ({
+    kind,
+    title: representative(cluster),
+    customers: distinctCustomers(cluster.map((m) => m.mention.customer)),
+    mentions: cluster.map((m) => m.mention),
+  }));
+};
+
+/** Themes across `interviews`, most widespread first. */
+export const buildThemeReport = (interviews: InterviewRecord[], range: { from?: Date; to?: Date } = {}): ThemeReport => {
+  const mention = (record: InterviewRecord, description: string, detail?: string | null): ThemeMention => ({
+    granolaDocId: record.granolaDocId,
+    meetingTitle: record.meetingTitle,
+    meetingDate: record.meetingDate,
+    customer: record.customer,
+    description,
+    detail: detail ?? undefined,
+    quotes: record.insights.quotes.filter((q) => similarity(themeText(q.text), themeText(description)) >= QUOTE_THRESHOLD),
+  });
+
+  const painPoints = interviews.flatMap((r) => r.insights.painPoints.map((p) => mention(r, p.description, p.severity)));
+  const requests = interviews.flatMap((r) => r.insights.featureRequests.map((f) => mention(r, f.description, f.rationale)));
+
+  const byReach = (a: Theme, b: Theme) => b.customers.length - a.customers.length || b.mentions.length - a.mentions.length;
+
+  return {
+    ...range,
+    interviews: interviews.length,
+    customers: distinctCustomers(interviews.map((r) => r.customer)).length,
+    themes: [
+      ...clusterMentions("Pain point", painPoints).sort(byReach),
+      ...clusterMentions("Feature request", requests).sort(byReach),
+    ],
+  };
+};
+
+// ── Output ─────────────────────────────────────────────────────────
+
+const formatDay = (date: Date): string =>
+  date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const describeRange = (report: ThemeReport): string => {
+  if (!report.from && !report.to) return "all interviews";
+  // `to` is exclusive; show the last day it includes
+  const to = report.to ? formatDay(new Date(report.to.getTime() - 1)) : "now";
+  return `${report.from ? formatDay(report.from) : "the start"} – ${to}`;
+};
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const markdownSection = (title: string, themes: Theme[]): string[] => {
+  if (themes.length === 0) return [];
+  const lines = [`## ${title}`, ""];
+
+  for (const theme of themes) {
+    lines.push(`### ${theme.title}`, "");
+    lines.push(`${plural(theme.customers.length, "customer")}, ${plural(theme.mentions.length, "mention")}: ${theme.customers.join(", ")}`, "");
+    for (const m of theme.mentions) {
+      const detail = m.detail ? ` _(${m.detail})_` : "";
+      lines.push(`- **${m.customer}**: ${m.description}${detail} — ${m.meetingTitle}, ${formatDay(new Date(m.meetingDate))} (\`${m.granolaDocId}\`)`);
+      for (const q of m.quotes) lines.push(`  > “${q.text}” — ${q.speaker}, ${q.timestamp}`);
+    }
+    lines.push("");
+  }
+  return lines;
+};
+
+const toMarkdown = (report: ThemeReport): string =>
+  [
+    "# Interview Themes",
+    "",
+    `${plural(report.interviews, "interview")} with ${plural(report.customers, "customer")}, ${describeRange(report)}`,
+    "",
+    ...markdownSection("Pain Points", report.themes.filter((t) => t.kind === "Pain point")),
+    ...markdownSection("Feature Requests", report.themes.filter((t) => t.kind === "Feature request")),
+  ].join("\n");
+
+const csvField = (value: string | number): string => {
+  // Spreadsheets run text starting like a formula; a leading ' keeps it text
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per mention, so a spreadsheet can filter and pivot by theme or customer
+const toCsv = (report: ThemeReport): string => {
+  const header = ["kind", "theme", "customers", "customer", "meeting_id", "meeting_title", "meeting_date", "mention", "detail", "quotes"];
+  const rows = report.themes.flatMap((theme) =>
+    theme.mentions.map((m) => [
+      theme.kind,
+      theme.title,
+      theme.customers.length,
+      m.customer,
+      m.granolaDocId,
+      m.meetingTitle,
+      m.meetingDate.slice(0, 10),
+      m.description,
+      m.detail ?? "",
+      m.quotes.map((q) => `“${q.text}” — ${q.speaker}, ${q.timestamp}`).join(" | "),
+    ])
+  );
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+};
+
+export const formatThemeReport = (report: ThemeReport, format: ThemeFormat): string =>
+  format === "csv" ? toCsv(report) : toMarkdown(report);
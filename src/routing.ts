@@ -0,0 +1,254 @@
+/**
+ * Rule-based routing of meetings to issue trackers and projects, Slack
+ * channels and other notifiers, and extraction profiles and backends. ROUTES_FILE points at JSON like:
+ *
+ *   {
+ *     "routes": [
+ *       {
+ *         "name": "customer-calls",
+ *         "match": { "attendeeDomains": ["acme.com"], "title": "(?i)interview|discovery" },
+ *         "jiraProjectKey": "CX",
+ *         "slackChannelId": "C0CUSTOMER"
+ *       },
+ *       { "name": "platform", "match": { "calendar": "Platform Team" }, "jiraPod": "Platform" },
+ *       { "name": "web", "match": { "title": "(?i)frontend" }, "tracker": "github", "githubRepo": "acme/web" },
+ *       { "name": "leadership", "match": { "calendar": "Staff" }, "notifiers": ["email"], "emailTo": "staff@acme.com" }
+ *     ]
+ *   }
+ *
+ * Routes are tried in order and the first match wins. Every condition given
+ * in `match` must hold; list values match if any entry does. Meetings that
+ * match nothing use the default route built from the env settings. Anything
+ * a route leaves out falls back to the env settings too.
+ */
+import { existsSync, readFileSync } from "fs";
+import { z } from "zod";
+import type { Config } from "./config.js";
+import type { CalendarEvent } from "./calendar.js";
+import type { MeetingAttendee, MeetingData } from "./types.js";
+import { EXTRACTION_PROFILES, type ExtractionProfile } from "./extract.js";
+import { EXTRACTION_BACKENDS, type ExtractionBackend } from "./extractor.js";
+import { loadFieldMapping, type JiraFieldMapping } from "./jira-fields.js";
+import { expandHome } from "./paths.js";
+import { ISSUE_TRACKERS, describeTracker, type IssueTrackerKind } from "./tracker.js";
+import { createIssueTracker } from "./tickets.js";
+import { NOTIFIERS, type NotifierKind } from "./notifier.js";
+import { describeNotifiers } from "./notifications.js";
+
+const stringOrList = z.union([z.string(), z.array(z.string())]).transform((v) => (Array.isArray(v) ? v : [v]));
+
+const routeSchema = z.object({
+  name: z.string().min(1),
+  match: z
+    .object({
+      calendar: stringOrList.optional(),
+      title: z.string().optional(),
+      attendeeDomains: stringOrList.optional(),
+      workspaceId: stringOrList.optional(),
+    })
+    .default({}),
+  tracker: z.enum(ISSUE_TRACKERS).optional(),
+  githubRepo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, "must look like owner/repo").optional(),
+  linearTeam: z.string().min(1).optional(),
+  jiraProjectKey: z.string().min(1).optional(),
+  jiraPod: z.string().min(1).optional(),
+  jiraFieldMappingFile: z.string().optional(),
+  slackChannelId: z.string().min(1).optional(),
+  notifiers: z.array(z.enum(NOTIFIERS)).min(1).optional(),
+  teamsWebhookUrl: z.string().url().optional(),
+  emailTo: stringOrList.optional(),
+  webhookUrl: z.string().url().optional(),
+  profile: z.enum(EXTRACTION_PROFILES).optional(),
+  backend: z.enum(EXTRACTION_BACKENDS).optional(),
+  insightIssues: z.boolean().optional(),
+});
+
+const routesFileSchema = z.object({ routes: z.array(routeSchema) });
+
+export interface Route {
+  name: string;
+  match: {
+    calendar?: string[];
+    title?: RegExp;
+    attendeeDomains?: string[];
+    workspaceId?: string[];
+  };
+  tracker?: IssueTrackerKind;
+  githubRepo?: string;
+  linearTeam?: string;
+  jiraProjectKey?: string;
+  jiraPod?: string;
+  jiraFieldMapping?: JiraFieldMapping;
+  slackChannelId?: string;
+  notifiers?: NotifierKind[];
+  teamsWebhookUrl?: string;
+  emailTo?: string[];
+  webhookUrl?: string;
+  profile?: ExtractionProfile;
+  backend?: ExtractionBackend;
+  insightIssues?: boolean;
+}
+
+/** What's known about a meeting when routing it. Unset when unknown, e.g. the CLI found no calendar event. */
+export interface RouteContext {
+  title: string;
+  calendarName?: string;
+  attendeeEmails?: string[];
+  workspaceId?: string;
+}
+
+export const DEFAULT_ROUTE_NAME = "default";
+
+// Accept the common "(?i)" prefix for case-insensitive patterns
+const compileTitlePattern = (pattern: string): RegExp => {
+  const insensitive = pattern.startsWith("(?i)");
+  return new RegExp(insensitive ? pattern.slice(4) : pattern, insensitive ? "i" : "");
+};
+
+export const loadRoutes = (path?: string): Route[] => {
+  if (!path) return [];
+  if (!existsSync(path)) {
+    throw new Error(`Routes file not found at ${path}. Check ROUTES_FILE.`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid routes file ${path}: ${(err as Error).message}. Check ROUTES_FILE.`);
+  }
+
+  const result = routesFileSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `  ${i.path.join(".")}: ${i.message}`).join("\n");
+    throw new Error(`Invalid routes file ${path}:\n${issues}`);
+  }
+
+  return result.data.routes.map((route) => {
+    let title: RegExp | undefined;
+    try {
+      title = route.match.title ? compileTitlePattern(route.match.title) : undefined;
+    } catch (err) {
+      throw new Error(`Invalid title pattern in route "${route.name}": ${(err as Error).message}`);
+    }
+
+    return {
+      ...route,
+      match: {
+        calendar: route.match.calendar?.map((c) => c.toLowerCase()),
+        title,
+        attendeeDomains: route.match.attendeeDomains?.map((d) => d.toLowerCase().replace(/^@/, "")),
+        workspaceId: route.match.workspaceId,
+      },
+      jiraFieldMapping: route.jiraFieldMappingFile ? loadFieldMapping(expandHome(route.jiraFieldMappingFile)) : undefined,
+    };
+  });
+};
+
+const matches = (route: Route, context: RouteContext): boolean => {
+  const { calendar, title, attendeeDomains, workspaceId } = route.match;
+
+  if (calendar && !(context.calendarName && calendar.includes(context.calendarName.toLowerCase()))) return false;
+  if (title && !title.test(context.title)) return false;
+  if (workspaceId && !(context.workspaceId && workspaceId.includes(context.workspaceId))) return false;
+  if (attendeeDomains) {
+    const domains = (context.attendeeEmails ?? []).map((e) => e.split("@")[1]?.toLowerCase());
+    if (!domains.some((d) => d && attendeeDomains.includes(d))) return false;
+  }
+  return true;
+};
+
+export const findRoute = (config: Config, context: RouteContext): Route | undefined =>
+  config.routes.find((route) => matches(route, context));
+
+/**
+ * The config a meeting should be processed with: the env settings with the
+ * matching route's overrides applied.
+ */
+export const applyRoute = (config: Config, route: Route | undefined): Config =>
+  route
+    ? {
+        ...config,
+        routeName: route.name,
+        issueTracker: route.tracker ?? config.issueTracker,
+        githubRepo: route.githubRepo ?? config.githubRepo,
+        linearTeam: route.linearTeam ?? config.linearTeam,
+        jiraProjectKey: route.jiraProjectKey ?? config.jiraProjectKey,
+        jiraPod: route.jiraPod ?? config.jiraPod,
+        jiraFieldMapping: route.jiraFieldMapping ?? config.jiraFieldMapping,
+        slackChannelId: route.slackChannelId ?? config.slackChannelId,
+        notifiers: route.notifiers ?? config.notifiers,
+        teamsWebhookUrl: route.teamsWebhookUrl ?? config.teamsWebhookUrl,
+        emailTo: route.emailTo ?? config.emailTo,
+        webhookUrl: route.webhookUrl ?? config.webhookUrl,
+        extractionProfile: route.profile ?? config.extractionProfile,
+        extraction: { ...config.extraction, backend: route.backend ?? config.extraction.backend },
+        insightIssues: route.insightIssues ?? config.insightIssues,
+      }
+    : config;
+
+export const routeMeeting = (config: Config, context: RouteContext): Config =>
+  applyRoute(config, findRoute(config, context));
+
+/** Without a calendar event, attendees come from the Granola doc when it lists any with emails. */
+export const routeContextFor = (
+  meeting: Pick<MeetingData, "title" | "workspaceId"> & { attendees?: MeetingAttendee[] },
+  event?: CalendarEvent
+): RouteContext => {
+  const docEmails = meeting.attendees?.flatMap((a) => (a.email ? [a.email] : [])) ?? [];
+  return {
+    title: meeting.title,
+    calendarName: event?.calendarName,
+    attendeeEmails: event
+      ? [...event.attendees.map((a) => a.email), ...(event.organizer ? [event.organizer.email] : [])]
+      : docEmails.length > 0
+        ? docEmails
+        : undefined,
+    workspaceId: meeting.workspaceId,
+  };
+};
+
+/**
+ * Routes ahead of the one `context` matches that might have matched instead:
+ * their other conditions hold, but they match on a calendar or attendees the
+ * context doesn't know. Routing without them could send a meeting to the
+ * wrong project, channel or extraction backend.
+ */
+export const findUncheckableRoutes = (config: Config, context: RouteContext): Route[] => {
+  const uncheckable: Route[] = [];
+  for (const route of config.routes) {
+    if (matches(route, context)) break;
+    const calendarUnknown = !!route.match.calendar && context.calendarName === undefined;
+    const attendeesUnknown = !!route.match.attendeeDomains && context.attendeeEmails === undefined;
+    if (!calendarUnknown && !attendeesUnknown) continue;
+
+    const knowable = {
+      ...route.match,
+      calendar: calendarUnknown ? undefined : route.match.calendar,
+      attendeeDomains: attendeesUnknown ? undefined : route.match.attendeeDomains,
+    };
+    if (matches({ ...route, match: knowable }, context)) uncheckable.push(route);
+  }
+  return uncheckable;
+};
+
+export const describeRoute = (config: Config): string =>
+  `${config.routeName} → ${describeTracker(config)}, ` +
+  `${describeNotifiers(config)}, ${config.extractionProfile} profile via ${config.extraction.backend}`;
+
+/**
+ * Check the project of the default route and of every route with its own
+ * tracker, project or mapping: the JIRA field mapping, or that the GitHub
+ * repository or Linear team exists.
+ */
+export const validateRoutes = async (config: Config): Promise<void> => {
+  const seen = new Set<string>();
+  for (const routed of [config, ...config.routes.map((r) => applyRoute(config, r))]) {
+    const key = routed.issueTracker === "jira"
+      ? `jira:${routed.jiraProjectKey}:${routed.extractionProfile}:${routed.insightIssues}:${JSON.stringify(routed.jiraFieldMapping)}`
+      : describeTracker(routed);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    await createIssueTracker(routed).validate();
+  }
+};
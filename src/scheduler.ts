@@ -1,8 +1,17 @@
 import { loadConfig } from "./config.js";
-import { fetchTodaysEvents, type CalendarEvent } from "./calendar.js";
+import { createCalendarSource, fetchTodaysEvents, type CalendarEvent, type CalendarSource } from "./calendar.js";
 import { createGranolaClient } from "./granola.js";
-import { processMeeting } from "./pipeline.js";
-import { isProcessed, markProcessed } from "./state.js";
+import { previewMeeting, processMeeting } from "./pipeline.js";
+import { getLastDigestTime, isProcessed, markDigestPosted, markProcessed } from "./state.js";
+import { loadPeople } from "./people.js";
+import { routeContextFor, routeMeeting, validateRoutes } from "./routing.js";
+import { startInteractivityServer } from "./interactivity.js";
+import { isTransientError } from "./http.js";
+import { syncChangedMeetings } from "./sync.js";
+import { DIGEST_DAYS, digestTimes, runDigest, WEEK_MS } from "./digest.js";
+import { sendDueReminders } from "./action-items.js";
+import { describeTracker } from "./tracker.js";
+import { describeNotifiers } from "./notifications.js";
 import type { Config } from "./config.js";
 import type { GranolaClient } from "./granola.js";
 
@@ -19,13 +28,13 @@ const scheduledEventIds = new Set<string>();
 const formatTime = (date: Date): string =>
   date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
 
-const scheduleProcessing = (
+const scheduleProcessing = async (
   config: Config,
   granola: GranolaClient,
   event: CalendarEvent,
-): void => {
+): Promise<void> => {
   if (scheduledEventIds.has(event.id)) return;
-  if (isProcessed(event.id)) {
+  if (await isProcessed(event.id)) {
     console.log(`   ⏭️  Already processed: "${event.summary}"`);
     return;
   }
@@ -61,13 +70,16 @@ const scheduleProcessing = (
         return;
       }
 
-      if (isProcessed(matchingDoc.id)) {
+      if (await isProcessed(matchingDoc.id)) {
         console.log(`   ⏭️  Granola doc already processed: ${matchingDoc.id}`);
-        markProcessed(event.id); // mark calendar event too
+        await markProcessed(event.id); // mark calendar event too
         return;
       }
 
-      const meeting = await granola.fetchMeeting(matchingDoc);
+      const meeting = await granola.fetchMeeting(matchingDoc, [
+        ...event.attendees,
+        ...(event.organizer ? [event.organizer] : []),
+      ]);
 
       // Skip if Granola hasn't generated notes yet
       if (!meeting.notesMarkdown && !meeting.transcript) {
@@ -79,17 +91,30 @@ const scheduleProcessing = (
           scheduleProcessing(config, granola, {
             ...event,
             end: new Date(), // pretend it just ended so delay kicks in again
-          });
+          }).catch((err) => console.error(`   ❌ Failed to reschedule "${event.summary}":`, err));
         }, 2 * 60 * 1000);
         return;
       }
 
-      await processMeeting(config, meeting);
-      markProcessed(event.id);
-      markProcessed(matchingDoc.id);
+      const routed = routeMeeting(config, routeContextFor(meeting, event));
+
+      if (config.dryRun) {
+        // Nothing is marked processed; scheduledEventIds keeps it from re-firing this session
+        await previewMeeting(routed, meeting, config.dryRunOutput);
+        return;
+      }
+
+      await processMeeting(routed, meeting, event.id);
+      await markProcessed(event.id);
+      await markProcessed(matchingDoc.id);
     } catch (err) {
-      console.error(`   ❌ Failed to process "${event.summary}":`, err);
-      scheduledEventIds.delete(event.id);
+      if (isTransientError(err)) {
+        console.error(`   ⚠️  Temporary failure for "${event.summary}", will retry on the next calendar refresh:`, err);
+        scheduledEventIds.delete(event.id);
+      } else {
+        // Retrying won't fix a validation or auth error, so leave it scheduled (not re-run) for this session
+        console.error(`   ❌ Failed to process "${event.summary}" — fix the cause, then use the CLI "retry" command:`, err);
+      }
     }
   }, effectiveDelay);
 };
@@ -140,10 +165,14 @@ const findMatchingDoc = (
   return timeMatches[0];
 };
 
-const refreshSchedule = async (config: Config, granola: GranolaClient): Promise<void> => {
+const refreshSchedule = async (
+  config: Config,
+  granola: GranolaClient,
+  calendar: CalendarSource,
+): Promise<void> => {
   try {
     console.log(`\n📅 Fetching today's calendar... (${new Date().toLocaleTimeString()})`);
-    const events = await fetchTodaysEvents();
+    const events = await fetchTodaysEvents(calendar, config.calendarTimeZone);
 
     if (events.length === 0) {
       console.log("   No meetings on the calendar today.");
@@ -160,32 +189,110 @@ const refreshSchedule = async (config: Config, granola: GranolaClient): Promise<
 
       // Schedule processing for meetings that have a future trigger time
       // or recently ended ones we haven't processed yet
-      scheduleProcessing(config, granola, event);
+      await scheduleProcessing(config, granola, event);
     }
   } catch (err) {
     console.error("❌ Calendar refresh failed:", err);
   }
+
+  if (config.syncUpdates) {
+    try {
+      await syncChangedMeetings(config, granola, { dryRun: config.dryRun });
+    } catch (err) {
+      console.error("❌ Sync of updated notes failed:", err);
+    }
+  }
+
+  // Checked on every refresh, so reminders go out within one refresh of ACTION_REMINDER_TIME
+  if (config.actionTracking && !config.dryRun) {
+    try {
+      await sendDueReminders(config);
+    } catch (err) {
+      console.error("❌ Action item reminders failed:", err);
+    }
+  }
+};
+
+// ── Weekly digest ──────────────────────────────────────────────────
+
+// Covers everything since the last scheduled digest, or the week before `until` for the first one
+const postScheduledDigest = async (config: Config, until: Date): Promise<void> => {
+  try {
+    const since = (await getLastDigestTime()) ?? new Date(until.getTime() - WEEK_MS);
+    await runDigest(config, since, until, { dryRun: config.dryRun, scheduled: true });
+    if (!config.dryRun) await markDigestPosted(until);
+  } catch (err) {
+    // Not marked as posted, so the next digest covers this period too, for the channels that missed it
+    console.error("❌ Weekly digest failed:", err);
+  }
+};
+
+const scheduleDigest = (config: Config): void => {
+  const { next } = digestTimes(config);
+  console.log(`   🗓️  Next digest: ${next.toLocaleString("en-US", { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}`);
+
+  setTimeout(async () => {
+    await postScheduledDigest(config, next);
+    scheduleDigest(config);
+  }, next.getTime() - Date.now());
 };
 
 const main = async () => {
   await loadDotenv();
   const config = loadConfig();
-  const granola = createGranolaClient(config.granolaDataDir);
+  const granola = createGranolaClient(config.granolaDataDir, { minConfidence: config.transcriptMinConfidence });
+  const calendar = createCalendarSource(config);
+
+  // Fail fast on a broken people file rather than on the first meeting
+  const people = loadPeople(config.peopleFile);
+  await validateRoutes(config);
 
   const delayMin = config.delayAfterMeetingMs / 60_000;
   const refreshMin = config.calendarRefreshMs / 60_000;
 
   console.log(`\n🟢 Granola Meeting Automator (calendar-driven)`);
   console.log(`   Granola data: ${config.granolaDataDir}`);
-  console.log(`   JIRA project: ${config.jiraProjectKey}`);
+  console.log(`   Calendar source: ${calendar.name}`);
+  console.log(`   Issue tracker: ${describeTracker(config)}`);
+  console.log(`   Notifications: ${describeNotifiers(config)}`);
+  if (config.routes.length > 0) {
+    console.log(`   Routes: ${config.routes.map((r) => r.name).join(", ")} (fallback: ${config.routeName})`);
+  }
+  if (config.peopleFile || config.peopleLookup) {
+    console.log(`   People directory: ${people.length} entries${config.peopleLookup ? " + JIRA/Slack lookup" : ""}`);
+  }
   console.log(`   Process ${delayMin} min after meeting ends`);
   console.log(`   Calendar refresh every ${refreshMin} min`);
+  if (config.syncUpdates) {
+    console.log(`   Re-syncing edited notes (last ${config.syncWindowMs / 3_600_000}h, Slack: ${config.syncSlackMode})`);
+  }
+  if (config.digestEnabled) {
+    console.log(`   Weekly digest: ${DIGEST_DAYS[config.digestDay]}s at ${config.digestTime} → ${config.digestChannelId}`);
+  }
+  if (config.actionTracking) {
+    const reminders = config.actionReminders === "off" ? "no reminders" : `${config.actionReminders} reminders from ${config.actionReminderTime}`;
+    console.log(`   Tracking action items (${reminders})`);
+  }
+  if (config.dryRun) {
+    console.log(`   🧪 Dry run: previews → ${config.dryRunOutput ?? "stdout"}, nothing is created or posted`);
+  }
+
+  // Approve / Edit / Reject clicks on proposed tickets, and "Done" on action items, come back through here
+  if (config.approvalMode || config.actionTracking) startInteractivityServer(config);
 
   // Initial schedule
-  await refreshSchedule(config, granola);
+  await refreshSchedule(config, granola, calendar);
+
+  if (config.digestEnabled) {
+    // Catch up on a digest that came due while the scheduler wasn't running
+    const lastDigest = await getLastDigestTime();
+    const { previous } = digestTimes(config);
+    if (lastDigest && lastDigest < previous) await postScheduledDigest(config, previous);
+    scheduleDigest(config);
+  }
 
   // Re-fetch calendar periodically to pick up new/changed meetings
-  setInterval(() => refreshSchedule(config, granola), config.calendarRefreshMs);
+  setInterval(() => refreshSchedule(config, granola, calendar), config.calendarRefreshMs);
 };
 
 main().catch((err) => {
@@ -0,0 +1,24 @@
+/**
+ * Word-overlap similarity, used to spot the same ticket or action item
+ * worded differently (JIRA duplicates, re-syncs, merging extraction chunks).
+ */
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into", "is", "it",
+  "of", "on", "or", "should", "so", "that", "the", "to", "when", "with", "add", "update",
+]);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w));
+
+// Dice coefficient over distinct words: 1 = same words, 0 = nothing shared
+export const similarity = (a: string, b: string): number => {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
@@ -1,22 +1,118 @@
-import { WebClient } from "@slack/web-api";
 import type { Config } from "./config.js";
-import type { MeetingData, MeetingExtraction, JiraTicketResult } from "./types.js";
+import type {
+  ActionItem,
+  AssigneeResolution,
+  Digest,
+  EngineeringTicket,
+  ExtractionDelta,
+  InterviewInsights,
+  MeetingData,
+  MeetingExtraction,
+  TicketResult,
+  TicketAction,
+} from "./types.js";
+import { splitAssignees } from "./people.js";
+import { awaitsDecision, type Proposal, type ProposedTicket } from "./proposals.js";
+import type { TrackedActionItem } from "./state.js";
+import { createSlackClient } from "./http.js";
+import { issueUrl } from "./tickets.js";
+import { resolveDueDate } from "./due-dates.js";
+import { describeSpeakerStats } from "./transcript.js";
+import type { MeetingNotification, Notifier } from "./notifier.js";
+import type { ChatPostMessageArguments, FilesUploadV2Arguments } from "@slack/web-api";
 
-const buildBlocks = (
-  meeting: MeetingData,
-  extraction: MeetingExtraction,
-  jiraTickets: JiraTicketResult[],
-  jiraBaseUrl: string
-): object[] => {
-  const blocks: object[] = [];
-
-  // Header
-  blocks.push({
-    type: "header",
-    text: { type: "plain_text", text: `📋 ${meeting.title}`, emoji: true },
-  });
+// A Block Kit block as the Slack client types it
+type SlackBlock = Extract<ChatPostMessageArguments, { blocks: unknown }>["blocks"][number];
+type SectionBlock = Extract<SlackBlock, { type: "section" }>;
+
+const TICKET_ACTION_LABELS: Record<TicketAction, string> = {
+  created: "🆕",
+  commented: "💬 _already tracked, added context_",
+  skipped: "⏭️ _already filed from this meeting_",
+};
+
+// "<@U123> & _Priya_" — mention whoever resolved, keep the rest as text
+const formatAssignee = (assignee: string, assignees?: AssigneeResolution): string =>
+  splitAssignees(assignee)
+    .map((name) => {
+      const userId = assignees?.people[name]?.slackUserId;
+      return userId ? `<@${userId}>` : `_${name}_`;
+    })
+    .join(" & ");
+
+const section = (title: string, body: string): SlackBlock => ({
+  type: "section",
+  text: { type: "mrkdwn", text: truncate(`*${title}*\n${body}`, 3000) },
+});
+
+const contextNote = (text: string): SlackBlock => ({ type: "context", elements: [{ type: "mrkdwn", text }] });
+
+const bullets = (items: string[]): string => items.map((item) => `• ${item}`).join("\n");
+
+// Slack's limits: 3000 characters of text per section, 50 blocks per message
+const MAX_SECTION_TEXT = 3000;
+const MAX_BLOCKS = 50;
+
+// Whether `before` ends outside a link (<url|label>, <@U123>) and, with `bold`, outside a *bold* span
+const isClosed = (before: string, bold: boolean): boolean =>
+  before.lastIndexOf("<") <= before.lastIndexOf(">") && (!bold || (before.split("*").length - 1) % 2 === 0);
+
+// The last `separator` at or before `max` that `text` can be cut at
+const lastCut = (text: string, separator: string, max: number, bold: boolean): number | undefined => {
+  for (let i = text.lastIndexOf(separator, max); i > 0; i = text.lastIndexOf(separator, i - 1)) {
+    if (isClosed(text.slice(0, i), bold)) return i;
+  }
+  return undefined;
+};
 
-  // Meeting metadata
+/**
+ * Pieces of at most `max` characters, cut at a line break, else at a space,
+ * never inside a link or a bold span. A stray `*` only gives up the bold
+ * rule; text with no space at all is cut mid-word.
+ */
+const splitText = (text: string, max: number): string[] => {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > max) {
+    const cut = lastCut(rest, "\n", max, true) ?? lastCut(rest, " ", max, true) ?? lastCut(rest, " ", max, false);
+    pieces.push(rest.slice(0, cut ?? max));
+    rest = rest.slice(cut === undefined ? max : cut + 1);
+  }
+  return [...pieces, rest];
+};
+
+/**
+ * A titled list in as many sections as it takes: lines are packed into each
+ * until the next wouldn't fit, and a line too long for a section of its own
+ * is split. Slack rejects, or silently cuts, longer sections.
+ */
+const sections = (title: string, lines: string[], separator = "\n"): SectionBlock[] => {
+  const heading = `*${title}*\n`;
+  const texts: string[] = [];
+  let text = heading;
+  for (const piece of lines.flatMap((line) => splitText(line, MAX_SECTION_TEXT - heading.length))) {
+    const next = text === heading ? `${text}${piece}` : `${text}${separator}${piece}`;
+    if (next.length > MAX_SECTION_TEXT) {
+      texts.push(text);
+      text = piece;
+    } else {
+      text = next;
+    }
+  }
+  texts.push(text);
+  return texts.map((text) => ({ type: "section", text: { type: "mrkdwn", text } }));
+};
+
+const bulletLines = (items: string[]): string[] => items.map((item) => `• ${item}`);
+
+// Past `max` blocks (Slack's 50 by default) the end is cut, saying so
+const limitBlocks = (blocks: SlackBlock[], note: string, max = MAX_BLOCKS): SlackBlock[] =>
+  blocks.length > max
+    ? [...blocks.slice(0, max - 1), { type: "context", elements: [{ type: "mrkdwn", text: `✂️ ${note}` }] }]
+    : blocks;
+
+// Header, then date and who talked
+const buildHeader = (meeting: MeetingData, icon: string, details: string[] = []): SlackBlock[] => {
   const date = new Date(meeting.createdAt).toLocaleDateString("en-US", {
     weekday: "short",
     month: "short",
@@ -24,85 +120,901 @@ const buildBlocks = (
     hour: "numeric",
     minute: "2-digit",
   });
-  blocks.push({
-    type: "context",
-    elements: [{ type: "mrkdwn", text: `📅 ${date}` }],
+  const metadata = [`📅 ${date}`, ...details];
+  // Proposals stored before speaker stats existed don't have them
+  if (meeting.speakerStats?.length) metadata.push(`🗣️ ${describeSpeakerStats(meeting.speakerStats)}`);
+
+  return [
+    { type: "header", text: { type: "plain_text", text: `${icon} ${meeting.title}`, emoji: true } },
+    { type: "context", elements: metadata.map((text) => ({ type: "mrkdwn", text })) },
+    { type: "divider" },
+  ];
+};
+
+const formatDueDay = (iso: string, meeting: Pick<MeetingData, "createdAt">): string => {
+  const day = new Date(`${iso}T00:00:00Z`);
+  const sameYear = day.getUTCFullYear() === new Date(meeting.createdAt).getUTCFullYear();
+  return day.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...(sameYear ? {} : { year: "numeric" }),
+    timeZone: "UTC",
   });
+};
+
+// " (due: Fri, Oct 30 · _next Friday_)" — a phrase that isn't a date is kept and flagged
+const formatDueDate = (config: Config, meeting: Pick<MeetingData, "createdAt">, phrase: string): string => {
+  const due = resolveDueDate(config, phrase, meeting);
+  if (!due.date) return ` (due: _${due.text}_ ⚠️ not a date)`;
+  const day = formatDueDay(due.date, meeting);
+  return due.text === due.date ? ` (due: ${day})` : ` (due: ${day} · _${due.text}_)`;
+};
+
+const priorityIcon = (priority: ActionItem["priority"]): string =>
+  priority === "High" ? "🔴" : priority === "Medium" ? "🟡" : "🟢";
 
-  blocks.push({ type: "divider" });
+export const ACTION_ITEM_DONE = "action_item_done";
 
-  // Summary
-  blocks.push({
-    type: "section",
-    text: { type: "mrkdwn", text: `*Summary*\n${extraction.meetingSummary}` },
+// Slack's limits for static_select options
+const MAX_SELECT_OPTIONS = 100;
+const MAX_OPTION_TEXT = 75;
+
+// With tracking on, a "Mark done…" menu of the tracked items
+const buildDoneMenu = (extraction: MeetingExtraction, actionItemIds: number[]): SectionBlock["accessory"] => {
+  const options = new Map<number, string>();
+  extraction.actionItems.forEach((item, i) => {
+    if (!options.has(actionItemIds[i])) options.set(actionItemIds[i], item.description);
   });
 
-  // Key decisions
-  if (extraction.keyDecisions.length > 0) {
-    const decisions = extraction.keyDecisions.map((d) => `• ${d}`).join("\n");
-    blocks.push({
-      type: "section",
-      text: { type: "mrkdwn", text: `*Key Decisions*\n${decisions}` },
-    });
-  }
+  return {
+    type: "static_select",
+    action_id: ACTION_ITEM_DONE,
+    placeholder: { type: "plain_text", text: "Mark done…" },
+    options: [...options]
+      .slice(0, MAX_SELECT_OPTIONS)
+      .map(([id, description]) => ({ text: { type: "plain_text", text: truncate(description, MAX_OPTION_TEXT) }, value: String(id) })),
+  };
+};
 
-  // Action items
-  if (extraction.actionItems.length > 0) {
-    const items = extraction.actionItems
-      .map((item) => {
-        const assignee = item.assignee ? ` → _${item.assignee}_` : "";
-        const due = item.dueDate ? ` (due: ${item.dueDate})` : "";
-        const icon = item.priority === "High" ? "🔴" : item.priority === "Medium" ? "🟡" : "🟢";
-        return `${icon} ${item.description}${assignee}${due}`;
-      })
-      .join("\n");
-    blocks.push({
-      type: "section",
-      text: { type: "mrkdwn", text: `*Action Items*\n${items}` },
-    });
-  }
+const buildActionItems = (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  assignees?: AssigneeResolution,
+  actionItemIds?: number[]
+): SlackBlock[] => {
+  if (extraction.actionItems.length === 0) return [];
+  const items = extraction.actionItems.map((item) => {
+    const assignee = item.assignee ? ` → ${formatAssignee(item.assignee, assignees)}` : "";
+    const due = item.dueDate ? formatDueDate(config, meeting, item.dueDate) : "";
+    return `${priorityIcon(item.priority)} ${item.description}${assignee}${due}`;
+  });
+  const [first, ...rest] = sections("Action Items", items);
+  return [actionItemIds ? { ...first, accessory: buildDoneMenu(extraction, actionItemIds) } : first, ...rest];
+};
 
-  // Engineering tickets
-  if (jiraTickets.length > 0) {
-    const ticketLines = jiraTickets
-      .map((t) => `• <${jiraBaseUrl}/browse/${t.key}|${t.key}>: ${t.summary}`)
-      .join("\n");
-    blocks.push({
-      type: "section",
-      text: { type: "mrkdwn", text: `*Engineering Tickets Created*\n${ticketLines}` },
-    });
-  }
+// "<https://…|ENG-12>" — whichever tracker the meeting was routed to
+const ticketLink = (config: Config, key: string): string => `<${issueUrl(config, key)}|${key}>`;
 
-  // Follow-ups
-  if (extraction.followUps.length > 0) {
-    const followUps = extraction.followUps.map((f) => `• ${f}`).join("\n");
-    blocks.push({
-      type: "section",
-      text: { type: "mrkdwn", text: `*Follow-ups*\n${followUps}` },
-    });
+const buildTicketList = (config: Config, title: string, tickets: TicketResult[]): SlackBlock[] => {
+  if (tickets.length === 0) return [];
+  return sections(
+    title,
+    tickets.map((t) => `• ${ticketLink(config, t.key)}: ${t.summary} ${TICKET_ACTION_LABELS[t.action]}`)
+  );
+};
+
+const buildFooter = (extraction: MeetingExtraction, assignees?: AssigneeResolution): SlackBlock[] => [
+  ...(extraction.followUps.length > 0 ? sections("Follow-ups", bulletLines(extraction.followUps)) : []),
+  ...(assignees?.unresolved.length
+    ? [contextNote(`⚠️ Couldn't match to a person: ${assignees.unresolved.join(", ")}`)]
+    : []),
+];
+
+const buildBlocks = (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  tickets: TicketResult[],
+  assignees?: AssigneeResolution,
+  actionItemIds?: number[]
+): SlackBlock[] => [
+  ...buildHeader(meeting, "📋"),
+  ...sections("Summary", [extraction.meetingSummary]),
+  ...(extraction.keyDecisions.length > 0 ? sections("Key Decisions", bulletLines(extraction.keyDecisions)) : []),
+  ...buildActionItems(config, meeting, extraction, assignees, actionItemIds),
+  ...buildTicketList(config, "Engineering Tickets", tickets),
+  ...buildFooter(extraction, assignees),
+];
+
+// ── Customer interviews ────────────────────────────────────────────
+
+const SENTIMENT_ICONS: Record<InterviewInsights["sentiment"], string> = {
+  Positive: "😀",
+  Neutral: "😐",
+  Mixed: "🤔",
+  Negative: "😟",
+};
+
+const SEVERITY_ICONS = { High: "🔴", Medium: "🟡", Low: "🟢" } as const;
+
+const describeInterviewee = ({ interviewee }: InterviewInsights): string => {
+  const who = [interviewee.name, interviewee.role].filter(Boolean).join(", ");
+  const at = interviewee.company ? `${who ? `${who} at ` : ""}${interviewee.company}` : who;
+  return `👤 ${[at, interviewee.segment].filter(Boolean).join(" · ")}`;
+};
+
+const buildInterviewBlocks = (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  insights: InterviewInsights,
+  tickets: TicketResult[],
+  assignees?: AssigneeResolution,
+  actionItemIds?: number[]
+): SlackBlock[] => [
+  ...buildHeader(meeting, "🎙️", [describeInterviewee(insights)]),
+  ...sections(`Summary  ${SENTIMENT_ICONS[insights.sentiment]} ${insights.sentiment}`, [extraction.meetingSummary]),
+  ...(insights.painPoints.length > 0
+    ? sections("Pain Points", insights.painPoints.map((p) => `${SEVERITY_ICONS[p.severity]} ${p.description}`))
+    : []),
+  ...(insights.featureRequests.length > 0
+    ? sections("Feature Requests", bulletLines(insights.featureRequests.map((f) => `${f.description}${f.rationale ? ` — _${f.rationale}_` : ""}`)))
+    : []),
+  ...(insights.jobsToBeDone.length > 0 ? sections("Jobs to Be Done", bulletLines(insights.jobsToBeDone)) : []),
+  ...(insights.quotes.length > 0
+    ? sections("Quotes", insights.quotes.map((q) => `> “${q.text}”\n> — ${q.speaker}, ${q.timestamp}`), "\n\n")
+    : []),
+  ...buildTicketList(config, "Product Insights", tickets),
+  ...(extraction.keyDecisions.length > 0 ? sections("Agreed", bulletLines(extraction.keyDecisions)) : []),
+  ...buildActionItems(config, meeting, extraction, assignees, actionItemIds),
+  ...buildFooter(extraction, assignees),
+];
+
+/**
+ * The exact `chat.postMessage` arguments `postSlackSummary` sends.
+ * `actionItemIds` are the tracked IDs of the action items, in order.
+ */
+export const buildSlackMessage = (
+  config: Config,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  tickets: TicketResult[],
+  assignees?: AssigneeResolution,
+  actionItemIds?: number[]
+) => {
+  const createdCount = tickets.filter((t) => t.action === "created").length;
+  const existingCount = tickets.length - createdCount;
+  const actionCount = extraction.actionItems.length;
+  const existing = existingCount > 0 ? `, ${existingCount} already tracked` : "";
+  const cut = `The rest didn't fit in one message${config.slackThreadDetails ? " — the full notes are in the thread" : ""}`;
+
+  if (extraction.interview) {
+    const { painPoints, featureRequests } = extraction.interview;
+    const insights = tickets.length > 0 ? `, ${createdCount} insights filed${existing}` : "";
+    return {
+      channel: config.slackChannelId,
+      text: `🎙️ ${meeting.title} — ${painPoints.length} pain points, ${featureRequests.length} feature requests${insights}`,
+      blocks: limitBlocks(buildInterviewBlocks(config, meeting, extraction, extraction.interview, tickets, assignees, actionItemIds), cut),
+      unfurl_links: false,
+    };
   }
 
-  return blocks;
+  return {
+    channel: config.slackChannelId,
+    text: `📋 ${meeting.title} — ${createdCount} tickets created${existing}, ${actionCount} action items`,
+    blocks: limitBlocks(buildBlocks(config, meeting, extraction, tickets, assignees, actionItemIds), cut),
+    unfurl_links: false,
+  };
 };
 
 export const postSlackSummary = async (
   config: Config,
   meeting: MeetingData,
   extraction: MeetingExtraction,
-  jiraTickets: JiraTicketResult[]
+  tickets: TicketResult[],
+  assignees?: AssigneeResolution,
+  actionItemIds?: number[]
 ): Promise<string> => {
-  const slack = new WebClient(config.slackBotToken);
+  const slack = createSlackClient(config.slackBotToken);
+  const message = buildSlackMessage(config, meeting, extraction, tickets, assignees, actionItemIds);
 
-  const blocks = buildBlocks(meeting, extraction, jiraTickets, config.jiraBaseUrl);
-  const ticketCount = jiraTickets.length;
-  const actionCount = extraction.actionItems.length;
+  const result = await slack.chat.postMessage({
+    ...message,
+    blocks: message.blocks,
+  });
+
+  return result.ts ?? "";
+};
+
+/** Rewrite a previously posted summary, e.g. after a retry filed the tickets that failed. */
+export const updateSlackSummary = async (
+  config: Config,
+  ts: string,
+  meeting: MeetingData,
+  extraction: MeetingExtraction,
+  tickets: TicketResult[],
+  assignees?: AssigneeResolution,
+  actionItemIds?: number[]
+): Promise<void> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const message = buildSlackMessage(config, meeting, extraction, tickets, assignees, actionItemIds);
+
+  await slack.chat.update({
+    channel: message.channel,
+    ts,
+    text: message.text,
+    blocks: message.blocks,
+  });
+};
 
+// ── Summary thread and assignee DMs ────────────────────────────────
+
+/** Thread reply with one ticket's description and acceptance criteria; `result` is unset when it wasn't filed. */
+const buildTicketReply = (
+  config: Config,
+  meeting: MeetingData,
+  ticket: EngineeringTicket,
+  result: TicketResult | null | undefined,
+  assignees?: AssigneeResolution
+) => {
+  const heading = result
+    ? `${ticketLink(config, result.key)} *${ticket.summary}* ${TICKET_ACTION_LABELS[result.action]}`
+    : `*${ticket.summary}* _not filed yet_`;
+  const details = [
+    `${ticket.issueType} · ${ticket.priority}`,
+    ...(ticket.assignee ? [`→ ${formatAssignee(ticket.assignee, assignees)}`] : []),
+    ...(ticket.dueDate ? [formatDueDate(config, meeting, ticket.dueDate).trim()] : []),
+  ];
+
+  return {
+    text: `${result ? `${result.key}: ` : ""}${ticket.summary}`,
+    blocks: limitBlocks(
+      [
+        { type: "section", text: { type: "mrkdwn", text: truncate(heading, MAX_SECTION_TEXT) } },
+        { type: "context", elements: [{ type: "mrkdwn", text: details.join(" · ") }] },
+        ...(ticket.description ? sections("Description", [ticket.description]) : []),
+        ...(ticket.acceptanceCriteria?.length
+          ? sections("Acceptance Criteria", ticket.acceptanceCriteria.map((ac) => `☐ ${ac}`))
+          : []),
+      ],
+      "The rest didn't fit in one message"
+    ),
+  };
+};
+
+// "Sprint Planning.md" — without characters that trip up file systems when downloaded
+const notesFilename = (meeting: MeetingData): string =>
+  `${meeting.title.replace(/[\\/:*?"<>|]+/g, "-").trim() || meeting.id}.md`;
+
+/** The full enhanced notes, as a Markdown file in the summary's thread. */
+const buildNotesUpload = (channel: string, threadTs: string, meeting: MeetingData) => ({
+  channel_id: channel,
+  thread_ts: threadTs,
+  filename: notesFilename(meeting),
+  title: `${meeting.title} — notes`,
+  content: meeting.notesMarkdown,
+  snippet_type: "markdown",
+});
+
+interface AssigneeItems {
+  actionItems: ActionItem[];
+  tickets: Array<{ ticket: EngineeringTicket; result?: TicketResult | null }>;
+}
+
+// Action items and tickets per Slack user; names that resolve to the same person are merged
+const groupBySlackUser = (
+  extraction: MeetingExtraction,
+  ticketResults: Array<TicketResult | null> = [],
+  assignees?: AssigneeResolution
+): Map<string, AssigneeItems> => {
+  const byUser = new Map<string, AssigneeItems>();
+  const entryFor = (assignee: string | null | undefined): AssigneeItems[] =>
+    [...new Set(splitAssignees(assignee ?? "").map((name) => assignees?.people[name]?.slackUserId))]
+      .filter((userId): userId is string => !!userId)
+      .map((userId) => {
+        if (!byUser.has(userId)) byUser.set(userId, { actionItems: [], tickets: [] });
+        return byUser.get(userId)!;
+      });
+
+  for (const item of extraction.actionItems) {
+    for (const entry of entryFor(item.assignee)) entry.actionItems.push(item);
+  }
+  extraction.engineeringTickets.forEach((ticket, i) => {
+    for (const entry of entryFor(ticket.assignee)) entry.tickets.push({ ticket, result: ticketResults[i] });
+  });
+  return byUser;
+};
+
+/** DM listing only what was assigned to `userId`, pointing back to the summary. */
+const buildAssigneeMessage = (
+  config: Config,
+  meeting: MeetingData,
+  userId: string,
+  { actionItems, tickets }: AssigneeItems,
+  summaryChannel?: string
+) => {
+  const count = actionItems.length + tickets.length;
+  const heading = `📬 ${count === 1 ? "1 item is" : `${count} items are`} yours from *${meeting.title}*`;
+
+  return {
+    channel: userId,
+    text: `📬 ${count === 1 ? "1 item" : `${count} items`} for you from ${meeting.title}`,
+    blocks: limitBlocks(
+      [
+        {
+          type: "section",
+          text: { type: "mrkdwn", text: `${heading}${summaryChannel ? ` — the summary is in <#${summaryChannel}>` : ""}` },
+        },
+        ...(actionItems.length > 0
+          ? sections(
+              "Action Items",
+              actionItems.map(
+                (item) => `${priorityIcon(item.priority)} ${item.description}${item.dueDate ? formatDueDate(config, meeting, item.dueDate) : ""}`
+              )
+            )
+          : []),
+        ...(tickets.length > 0
+          ? sections(
+              "Tickets",
+              tickets.map(({ ticket, result }) => {
+                const due = ticket.dueDate ? formatDueDate(config, meeting, ticket.dueDate) : "";
+                return `• ${result ? `${ticketLink(config, result.key)}: ` : ""}${ticket.summary}${due}`;
+              })
+            )
+          : []),
+      ],
+      "The rest didn't fit in one message — see the summary"
+    ),
+    unfurl_links: false,
+  };
+};
+
+/** One Slack call: its method and the arguments for it, under a key that's the same on every attempt. */
+type FollowUp =
+  | { key: string; method: "chat.postMessage"; body: ChatPostMessageArguments & { text: string; blocks: SlackBlock[] } }
+  | { key: string; method: "files.uploadV2"; body: FilesUploadV2Arguments };
+
+/**
+ * What follows the summary: with SLACK_THREAD_DETAILS a reply per ticket and
+ * the notes file in its thread, and with SLACK_ASSIGNEE_DMS a DM to each
+ * matched assignee.
+ */
+const buildFollowUps = (
+  config: Config,
+  threadTs: string,
+  { meeting, extraction, ticketResults, assignees }: MeetingNotification
+): FollowUp[] => [
+  ...(config.slackThreadDetails
+    ? [
+        ...extraction.engineeringTickets.map((ticket, i) => {
+          const reply = buildTicketReply(config, meeting, ticket, ticketResults?.[i], assignees);
+          return {
+            key: `ticket:${i}`,
+            method: "chat.postMessage" as const,
+            body: { channel: config.slackChannelId, thread_ts: threadTs, ...reply, unfurl_links: false },
+          };
+        }),
+        ...(meeting.notesMarkdown.trim()
+          ? [{ key: "notes", method: "files.uploadV2" as const, body: buildNotesUpload(config.slackChannelId, threadTs, meeting) }]
+          : []),
+      ]
+    : []),
+  ...(config.slackAssigneeDms
+    ? [...groupBySlackUser(extraction, ticketResults, assignees)].map(([userId, items]) => ({
+        key: `dm:${userId}`,
+        method: "chat.postMessage" as const,
+        body: buildAssigneeMessage(config, meeting, userId, items, config.slackChannelId),
+      }))
+    : []),
+];
+
+/**
+ * Post the summary's follow-ups that aren't out yet and rewrite the messages
+ * that are, recording each in `notification.slackFollowUps`. After a retry
+ * files more tickets, their replies and DMs get the new links this way. The
+ * follow-ups are best effort: the summary is out, and failing here would make
+ * a retry post it twice, so errors are only logged.
+ */
+const postFollowUps = async (config: Config, threadTs: string, notification: MeetingNotification): Promise<void> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const posted = notification.slackFollowUps ?? {};
+  for (const followUp of buildFollowUps(config, threadTs, notification)) {
+    const earlier = posted[followUp.key];
+    try {
+      if (followUp.method === "files.uploadV2") {
+        // A file can't be rewritten, and the notes don't change with the tickets
+        if (earlier) continue;
+        await slack.filesUploadV2(followUp.body);
+        posted[followUp.key] = { channel: followUp.body.channel_id ?? "", ts: "" };
+      } else if (earlier) {
+        const { text, blocks } = followUp.body;
+        await slack.chat.update({ channel: earlier.channel, ts: earlier.ts, text, blocks });
+      } else {
+        const result = await slack.chat.postMessage(followUp.body);
+        posted[followUp.key] = { channel: result.channel ?? followUp.body.channel, ts: result.ts ?? "" };
+      }
+    } catch (err) {
+      const what = followUp.method === "files.uploadV2"
+        ? "the notes file"
+        : followUp.body.thread_ts
+          ? "a ticket reply"
+          : `a DM to ${followUp.body.channel}`;
+      console.error(`  ⚠️  Couldn't post ${what} for the Slack summary:`, err);
+    }
+  }
+};
+
+/**
+ * When a retry files more tickets, the summary, its thread replies and the DMs
+ * are rewritten, and follow-ups that failed the first time are posted.
+ */
+export const createSlackNotifier = (config: Config): Notifier => ({
+  kind: "slack",
+  name: `Slack ${config.slackChannelId}`,
+  buildRequests: async (notification) => {
+    const { meeting, extraction, tickets, assignees, actionItemIds } = notification;
+    return [
+      {
+        notifier: "slack",
+        destination: "chat.postMessage",
+        body: buildSlackMessage(config, meeting, extraction, tickets, assignees, actionItemIds),
+      },
+      // The summary's ts isn't known before it's posted
+      ...buildFollowUps(config, "<summary ts>", notification).map(({ method, body }) => ({
+        notifier: "slack" as const,
+        destination: method,
+        body,
+      })),
+    ];
+  },
+  send: async (notification) => {
+    const { meeting, extraction, tickets, assignees, actionItemIds } = notification;
+    const ts = await postSlackSummary(config, meeting, extraction, tickets, assignees, actionItemIds);
+    await postFollowUps(config, ts, notification);
+    return ts;
+  },
+  update: async (ts, notification) => {
+    const { meeting, extraction, tickets, assignees, actionItemIds } = notification;
+    await updateSlackSummary(config, ts, meeting, extraction, tickets, assignees, actionItemIds);
+    await postFollowUps(config, ts, notification);
+  },
+});
+
+// ── Digest ─────────────────────────────────────────────────────────
+
+// Slack allows 50 blocks a message; the rest of the digest needs about a dozen
+const MAX_DIGEST_ASSIGNEES = 30;
+
+const formatDay = (date: Date): string => date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const buildDigestActionItems = (digest: Digest): SlackBlock[] => {
+  const shown = digest.actionItems.slice(0, MAX_DIGEST_ASSIGNEES);
+  const hidden = digest.actionItems.length - shown.length;
+  const heading: SlackBlock[] =
+    shown.length > 0 ? [{ type: "header", text: { type: "plain_text", text: "Action Items", emoji: true } }] : [];
+  return [
+    ...heading,
+    ...shown.map(({ assignee, items }) =>
+      section(
+        assignee,
+        items
+          .map((item) => `${priorityIcon(item.priority)} ${item.description}${item.dueDate ? ` (due: ${item.dueDate})` : ""} — _${item.meetingTitle}_`)
+          .join("\n")
+      )
+    ),
+    ...(hidden > 0 ? [contextNote(`…and ${hidden} more people with action items`)] : []),
+  ];
+};
+
+/** The `chat.postMessage` arguments for a digest, posted to the digest channel. */
+export const buildDigestMessage = (config: Config, digest: Digest) => {
+  // `until` is exclusive, so show the last moment it covers
+  const range = `${formatDay(digest.since)} – ${formatDay(new Date(digest.until.getTime() - 1))}`;
+  const actionCount = new Set(digest.actionItems.flatMap((g) => g.items.map((item) => `${item.meetingTitle}\n${item.description}`))).size;
+  const counts = [
+    `${digest.meetingTitles.length} meetings`,
+    `${digest.ticketsCreated.length} tickets created`,
+    `${actionCount} action items`,
+  ].join(" · ");
+
+  const ticketLines = digest.ticketsCreated.map(
+    (t) => `• <${t.url}|${t.key}>${t.summary ? `: ${t.summary}` : ""} — _${t.meetingTitle}_`
+  );
+  const followUpLines = digest.recurringFollowUps.map(
+    (f) => `• ${f.followUp} — _${f.meetingTitles.length} meetings: ${[...new Set(f.meetingTitles)].join(", ")}_`
+  );
+
+  return {
+    channel: digest.channel,
+    text: `🗓️ Digest ${range} — ${counts}`,
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: `🗓️ Digest: ${range}`, emoji: true } },
+      { type: "context", elements: [{ type: "mrkdwn", text: counts }] },
+      { type: "divider" },
+      ...(digest.overview ? [section("Overview", digest.overview)] : []),
+      ...(digest.keyDecisions.length > 0 ? [section("Key Decisions", bullets(digest.keyDecisions))] : []),
+      ...(ticketLines.length > 0 ? [section("Tickets Created", ticketLines.join("\n"))] : []),
+      ...(followUpLines.length > 0 ? [section("Recurring Follow-ups", followUpLines.join("\n"))] : []),
+      ...buildDigestActionItems(digest),
+      { type: "divider" },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: truncate(`Meetings: ${digest.meetingTitles.join(", ")}`, 3000) }],
+      },
+    ],
+    unfurl_links: false,
+  };
+};
+
+export const postDigest = async (config: Config, digest: Digest): Promise<string> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const message = buildDigestMessage(config, digest);
+  const result = await slack.chat.postMessage(message);
+  return result.ts ?? "";
+};
+
+// ── Action item reminders ──────────────────────────────────────────
+
+// One section per item, leaving room for the header and overflow note under Slack's 50 blocks
+const MAX_REMINDER_ITEMS = 45;
+
+const describeOwner = (item: TrackedActionItem): string =>
+  item.ownerSlackId ? ` → <@${item.ownerSlackId}>` : item.owner ? ` → _${item.owner}_` : "";
+
+/**
+ * Reminder of action items due on or before `day`, each with a Done button.
+ * `channel` is a channel ID, or a user ID for a DM.
+ */
+export const buildActionItemReminder = (channel: string, items: TrackedActionItem[], day: string) => {
+  const shown = items.slice(0, MAX_REMINDER_ITEMS);
+  const hidden = items.length - shown.length;
+  // DMs are to the owner, so naming them is noise
+  const isDm = items.every((item) => item.ownerSlackId === channel);
+  const heading = items.length === 1 ? "An action item is due" : `${items.length} action items are due`;
+
+  return {
+    channel,
+    text: `⏰ ${heading}`,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text: `⏰ *${heading}*` } },
+      ...shown.map((item) => {
+        const due = item.dueDate! < day ? `⚠️ overdue since ${item.dueDate}` : "due today";
+        const from = item.meetings.map((m) => m.title).join(", ");
+        return {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: truncate(`${priorityIcon(item.priority)} ${item.description}${isDm ? "" : describeOwner(item)}\n_${due} · ${from}_`, 3000),
+          },
+          accessory: {
+            type: "button",
+            text: { type: "plain_text", text: "Done" },
+            style: "primary",
+            action_id: ACTION_ITEM_DONE,
+            value: String(item.id),
+          },
+        };
+      }),
+      ...(hidden > 0
+        ? [{ type: "context", elements: [{ type: "mrkdwn", text: `…and ${hidden} more — see \`actions\` in the CLI` }] }]
+        : []),
+    ],
+    unfurl_links: false,
+  };
+};
+
+export const postActionItemReminder = async (
+  config: Config,
+  channel: string,
+  items: TrackedActionItem[],
+  day: string
+): Promise<string> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const message = buildActionItemReminder(channel, items, day);
+  const result = await slack.chat.postMessage(message);
+  return result.ts ?? "";
+};
+
+/** Thread reply under the message an item was marked done from. */
+export const postActionItemDone = async (
+  config: Config,
+  channel: string,
+  threadTs: string,
+  item: TrackedActionItem,
+  userId: string
+): Promise<void> => {
+  const slack = createSlackClient(config.slackBotToken);
+  await slack.chat.postMessage({
+    channel,
+    thread_ts: threadTs,
+    text: `✅ <@${userId}> marked “${item.description}” done`,
+  });
+};
+
+// ── Re-sync ────────────────────────────────────────────────────────
+
+export interface SyncOutcome {
+  filed: TicketResult[];
+  commented: TicketResult[];
+  /** New tickets posted for approval instead of filed */
+  proposed: number;
+}
+
+/** Thread reply listing what changed since the meeting was last processed. */
+export const buildSyncReply = (
+  config: Config,
+  meeting: MeetingData,
+  delta: ExtractionDelta,
+  outcome: SyncOutcome,
+  assignees?: AssigneeResolution
+) => {
+  const link = (t: TicketResult) => ticketLink(config, t.key);
+  const sections: string[] = [];
+
+  if (outcome.filed.length > 0) {
+    sections.push(`*New Tickets*\n${outcome.filed.map((t) => `• ${link(t)}: ${t.summary} ${TICKET_ACTION_LABELS[t.action]}`).join("\n")}`);
+  }
+  if (outcome.proposed > 0) {
+    sections.push(`*New Tickets*\n${outcome.proposed} proposed for approval in a separate message`);
+  }
+  if (outcome.commented.length > 0) {
+    sections.push(`*Updated Tickets*\n${outcome.commented.map((t) => `• ${link(t)}: ${t.summary} _(description changed, comment added)_`).join("\n")}`);
+  }
+  if (delta.removedTickets.length > 0) {
+    const lines = delta.removedTickets.map(({ ticket, result }) => `• ${result ? `${link(result)}: ` : ""}${ticket.summary}`);
+    sections.push(`*No Longer in the Notes*\n${lines.join("\n")}`);
+  }
+  if (delta.newDecisions.length > 0) {
+    sections.push(`*New Decisions*\n${delta.newDecisions.map((d) => `• ${d}`).join("\n")}`);
+  }
+  if (delta.newActionItems.length > 0) {
+    const items = delta.newActionItems.map((item) => {
+      const assignee = item.assignee ? ` → ${formatAssignee(item.assignee, assignees)}` : "";
+      return `• ${item.description}${assignee}${item.dueDate ? formatDueDate(config, meeting, item.dueDate) : ""}`;
+    });
+    sections.push(`*New Action Items*\n${items.join("\n")}`);
+  }
+  if (delta.newFollowUps.length > 0) {
+    sections.push(`*New Follow-ups*\n${delta.newFollowUps.map((f) => `• ${f}`).join("\n")}`);
+  }
+
+  return {
+    text: `🔄 ${meeting.title} — notes updated`,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text: "🔄 *Notes were updated since this summary was posted*" } },
+      ...sections.map((text) => ({ type: "section", text: { type: "mrkdwn", text } })),
+    ],
+  };
+};
+
+export const postSyncReply = async (
+  config: Config,
+  channel: string,
+  threadTs: string,
+  meeting: MeetingData,
+  delta: ExtractionDelta,
+  outcome: SyncOutcome,
+  assignees?: AssigneeResolution
+): Promise<string> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const reply = buildSyncReply(config, meeting, delta, outcome, assignees);
   const result = await slack.chat.postMessage({
-    channel: config.slackChannelId,
-    text: `📋 ${meeting.title} — ${ticketCount} tickets created, ${actionCount} action items`,
-    blocks: blocks as any,
+    channel,
+    thread_ts: threadTs,
+    text: reply.text,
+    blocks: reply.blocks,
     unfurl_links: false,
   });
+  return result.ts ?? "";
+};
+
+// ── Approval workflow ──────────────────────────────────────────────
+
+export const APPROVAL_ACTIONS = {
+  approve: "approve_ticket",
+  edit: "edit_ticket",
+  reject: "reject_ticket",
+  retry: "retry_proposal",
+} as const;
+
+export const EDIT_TICKET_CALLBACK = "edit_ticket_modal";
+
+const PRIORITY_OPTIONS = ["Highest", "High", "Medium", "Low", "Lowest"];
+
+// Header, date line and the cut note — kept even when the proposed tickets fill the message
+const MIN_APPROVAL_SUMMARY_BLOCKS = 3;
+
+// Button values and modal metadata carry "<proposalId>:<ticketIndex>"
+export const encodeTicketRef = (proposalId: string, index: number): string => `${proposalId}:${index}`;
+
+export const decodeTicketRef = (value: string): { proposalId: string; index: number } => {
+  const separator = value.lastIndexOf(":");
+  return { proposalId: value.slice(0, separator), index: Number(value.slice(separator + 1)) };
+};
+
+const truncate = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const describeDecision = (config: Config, proposed: ProposedTicket): string => {
+  const by = proposed.decidedBy ? ` by <@${proposed.decidedBy}>` : "";
+  switch (proposed.status) {
+    case "approved": {
+      const key = proposed.result ? ticketLink(config, proposed.result.key) : "";
+      const verb = proposed.result?.action === "created" ? "Created" : "Already tracked as";
+      return `✅ ${verb} ${key}${by}`;
+    }
+    case "rejected":
+      return `🚫 Rejected${by}`;
+    case "failed":
+      return `❌ Failed to create: ${truncate(proposed.error ?? "unknown error", 200)} — approve again to retry`;
+    default:
+      return "⏳ Awaiting review";
+  }
+};
+
+const buildProposalBlocks = (config: Config, proposal: Proposal): SlackBlock[] => {
+  const pending = proposal.tickets.filter(awaitsDecision).length;
+  const blocks: SlackBlock[] = [
+    { type: "divider" },
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Proposed Tickets* — ${pending > 0 ? `${pending} awaiting review` : "all reviewed"}`,
+      },
+    },
+  ];
+
+  proposal.tickets.forEach((proposed, index) => {
+    const { ticket } = proposed;
+    const criteria = ticket.acceptanceCriteria?.length
+      ? `\n${ticket.acceptanceCriteria.map((ac) => `☐ ${ac}`).join("\n")}`
+      : "";
+    const due = ticket.dueDate ? formatDueDate(config, proposal.meeting, ticket.dueDate) : "";
+
+    const text = `*${ticket.summary}*  \`${ticket.issueType} · ${ticket.priority}\`${due}\n${ticket.description}${criteria}`;
+    for (const piece of splitText(text, MAX_SECTION_TEXT)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: piece } });
+    }
+
+    if (proposed.status !== "pending") {
+      blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: describeDecision(config, proposed) }] });
+    }
+    if (awaitsDecision(proposed)) {
+      const value = encodeTicketRef(proposal.id, index);
+      blocks.push({
+        type: "actions",
+        elements: [
+          { type: "button", text: { type: "plain_text", text: "Approve" }, style: "primary", action_id: APPROVAL_ACTIONS.approve, value },
+          { type: "button", text: { type: "plain_text", text: "Edit" }, action_id: APPROVAL_ACTIONS.edit, value },
+          { type: "button", text: { type: "plain_text", text: "Reject" }, style: "danger", action_id: APPROVAL_ACTIONS.reject, value },
+        ],
+      });
+    }
+  });
+
+  if (proposal.unsent?.length) {
+    blocks.push(
+      { type: "context", elements: [{ type: "mrkdwn", text: `⚠️ Not sent to ${proposal.unsent.join(", ")} yet` }] },
+      {
+        type: "actions",
+        elements: [{ type: "button", text: { type: "plain_text", text: "Retry" }, action_id: APPROVAL_ACTIONS.retry, value: proposal.id }],
+      }
+    );
+  }
 
+  return blocks;
+};
+
+/** Summary message with per-ticket Approve / Edit / Reject controls. */
+export const buildApprovalMessage = (config: Config, proposal: Proposal) => {
+  const created = proposal.tickets
+    .map((t) => t.result)
+    .filter((r): r is TicketResult => r !== undefined);
+  const summary = buildSlackMessage(
+    config,
+    proposal.meeting,
+    proposal.extraction,
+    created,
+    proposal.assignees,
+    proposal.actionItemIds
+  );
+  const pending = proposal.tickets.filter(awaitsDecision).length;
+  const proposed = buildProposalBlocks(config, proposal);
+
+  return {
+    ...summary,
+    text: `📋 ${proposal.meeting.title} — ${pending} proposed tickets awaiting review`,
+    // The buttons matter more, so the summary gives up its room first
+    blocks: limitBlocks(
+      [
+        ...limitBlocks(
+          summary.blocks,
+          "The rest of the summary didn't fit next to the proposed tickets",
+          Math.max(MAX_BLOCKS - proposed.length, MIN_APPROVAL_SUMMARY_BLOCKS)
+        ),
+        ...proposed,
+      ],
+      "The remaining proposed tickets didn't fit in one message"
+    ),
+  };
+};
+
+export const postApprovalRequest = async (config: Config, proposal: Proposal): Promise<string> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const message = buildApprovalMessage(config, proposal);
+  const result = await slack.chat.postMessage(message);
   return result.ts ?? "";
 };
+
+export const updateApprovalMessage = async (config: Config, proposal: Proposal): Promise<void> => {
+  const slack = createSlackClient(config.slackBotToken);
+  const message = buildApprovalMessage(config, proposal);
+  await slack.chat.update({
+    channel: proposal.channel,
+    ts: proposal.ts,
+    text: message.text,
+    blocks: message.blocks,
+  });
+};
+
+export const openEditTicketModal = async (
+  config: Config,
+  triggerId: string,
+  proposal: Proposal,
+  index: number
+): Promise<void> => {
+  const { ticket } = proposal.tickets[index];
+  const slack = createSlackClient(config.slackBotToken);
+
+  await slack.views.open({
+    trigger_id: triggerId,
+    view: {
+      type: "modal",
+      callback_id: EDIT_TICKET_CALLBACK,
+      private_metadata: encodeTicketRef(proposal.id, index),
+      title: { type: "plain_text", text: "Edit ticket" },
+      submit: { type: "plain_text", text: "Save & create" },
+      close: { type: "plain_text", text: "Cancel" },
+      blocks: [
+        {
+          type: "input",
+          block_id: "summary",
+          label: { type: "plain_text", text: "Summary" },
+          element: { type: "plain_text_input", action_id: "value", initial_value: ticket.summary, max_length: 255 },
+        },
+        {
+          type: "input",
+          block_id: "description",
+          label: { type: "plain_text", text: "Description" },
+          element: { type: "plain_text_input", action_id: "value", multiline: true, initial_value: ticket.description },
+        },
+        {
+          type: "input",
+          block_id: "priority",
+          label: { type: "plain_text", text: "Priority" },
+          element: {
+            type: "static_select",
+            action_id: "value",
+            initial_option: { text: { type: "plain_text", text: ticket.priority }, value: ticket.priority },
+            options: PRIORITY_OPTIONS.map((p) => ({ text: { type: "plain_text", text: p }, value: p })),
+          },
+        },
+        {
+          type: "input",
+          block_id: "acceptanceCriteria",
+          optional: true,
+          label: { type: "plain_text", text: "Acceptance criteria (one per line)" },
+          element: {
+            type: "plain_text_input",
+            action_id: "value",
+            multiline: true,
+            ...(ticket.acceptanceCriteria?.length ? { initial_value: ticket.acceptanceCriteria.join("\n") } : {}),
+          },
+        },
+      ],
+    },
+  });
+};
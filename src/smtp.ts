@@ -0,0 +1,234 @@
+/**
+ * Minimal SMTP client for the email notifier: one connection per message,
+ * STARTTLS when the server offers it (or TLS from the start with
+ * SMTP_SECURE=true), AUTH PLAIN, and a multipart/alternative body with
+ * plaintext and HTML parts.
+ *
+ * 4xx replies and connection trouble are retried with the shared policy;
+ * 5xx replies (bad address, rejected credentials) fail straight away. Once
+ * the server took DATA, a dropped connection or timeout isn't retried: the
+ * message may have been accepted, so it fails with OutcomeUnknownError.
+ */
+import { connect as connectTcp, type Socket } from "net";
+import { connect as connectTls, type TLSSocket } from "tls";
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { OutcomeUnknownError, withRetries } from "./http.js";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** TLS from the first byte (usually port 465); otherwise STARTTLS when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface EmailMessage {
+  /** "Name <address>" or a bare address */
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    /** The server's reply code; 0 when the client gave up on its own */
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+// ── Connection ─────────────────────────────────────────────────────
+
+/** Reads one reply at a time from the socket; a reply ends at a line whose code isn't followed by "-". */
+const replyReader = (socket: Socket) => {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  let waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void } | undefined;
+  let failure: Error | undefined;
+
+  const settle = () => {
+    if (!waiting) return;
+    const reply = replies.shift();
+    if (reply) waiting.resolve(reply);
+    else if (failure) waiting.reject(failure);
+    else return;
+    waiting = undefined;
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+    }
+    settle();
+  };
+  const onError = (err: Error) => {
+    failure = err;
+    settle();
+  };
+  const onClose = () => onError(failure ?? new Error("SMTP connection closed"));
+
+  socket.on("data", onData).on("error", onError).on("close", onClose);
+
+  return {
+    read: (): Promise<Reply> =>
+      new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+        settle();
+      }),
+    // Before STARTTLS hands the socket to TLS
+    detach: () => socket.off("data", onData).off("error", onError).off("close", onClose),
+  };
+};
+
+const open = (config: SmtpConfig, timeoutMs: number): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host })
+      : connectTcp({ host: config.host, port: config.port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP server timed out after ${timeoutMs / 1000}s`)));
+    socket.once(config.secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+
+const startTls = (socket: Socket, host: string): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const secured = connectTls({ socket, servername: host }, () => {
+      secured.off("error", reject);
+      resolve(secured);
+    });
+    secured.once("error", reject);
+  });
+
+// ── Message ────────────────────────────────────────────────────────
+
+// "Meeting Bot <bot@example.com>" → "bot@example.com"
+const addressOf = (mailbox: string): string => /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+
+/** RFC 2047 encoded words for non-ASCII headers, each short enough to fold onto its own line. */
+const encodeHeader = (value: string): string => {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const words: string[] = [];
+  let current = "";
+  for (const char of value) {
+    if (Buffer.byteLength(current + char) > 45) {
+      words.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  words.push(current);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join("\r\n ");
+};
+
+const base64Body = (text: string): string =>
+  Buffer.from(text).toString("base64").replace(/.{1,76}/g, "$&\r\n").trimEnd();
+
+const buildMimeMessage = (message: EmailMessage): string => {
+  const boundary = `=_${randomUUID()}`;
+  const domain = addressOf(message.from).split("@")[1] ?? "localhost";
+  const part = (type: string, body: string) =>
+    [`--${boundary}`, `Content-Type: ${type}; charset=utf-8`, "Content-Transfer-Encoding: base64", "", base64Body(body)];
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    ...part("text/plain", message.text),
+    ...part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+};
+
+// ── Sending ────────────────────────────────────────────────────────
+
+const deliver = async (config: SmtpConfig, message: EmailMessage, timeoutMs: number): Promise<void> => {
+  let socket = await open(config, timeoutMs);
+  let reader = replyReader(socket);
+
+  const expect = async (command: string | undefined, codes: number[]): Promise<Reply> => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      // Never echo the credentials
+      const sent = command?.startsWith("AUTH") ? "AUTH" : command ?? "connect";
+      throw new SmtpError(reply.code, `SMTP ${sent} failed (${reply.code}): ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+
+  let sendingData = false;
+  try {
+    await expect(undefined, [220]);
+    const hello = await expect(`EHLO ${hostname()}`, [250]);
+
+    if (!config.secure && hello.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await expect("STARTTLS", [220]);
+      reader.detach();
+      socket = await startTls(socket, config.host);
+      reader = replyReader(socket);
+      await expect(`EHLO ${hostname()}`, [250]);
+    }
+
+    if (config.user) {
+      if (!(socket as Partial<TLSSocket>).encrypted) {
+        throw new SmtpError(0, `${config.host} doesn't offer STARTTLS; refusing to send the password unencrypted`);
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64");
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await expect(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+    for (const recipient of message.to) await expect(`RCPT TO:<${addressOf(recipient)}>`, [250, 251]);
+    await expect("DATA", [354]);
+    sendingData = true;
+    // Lines starting with "." are escaped so they can't end the message early
+    await expect(`${buildMimeMessage(message).replace(/^\./gm, "..")}\r\n.`, [250]);
+    sendingData = false;
+    await expect("QUIT", [221]).catch(() => undefined);
+  } catch (err) {
+    // A reply to the message is an answer; losing the connection before one isn't
+    if (sendingData && !(err instanceof SmtpError)) throw new OutcomeUnknownError("smtp", err);
+    throw err;
+  } finally {
+    socket.destroy();
+  }
+};
+
+// 4xx: the server is busy or greylisting; anything else that isn't an SMTP reply is a
+// connection problem from before the message went out
+const isRetryable = (err: unknown): boolean => {
+  if (err instanceof OutcomeUnknownError) return false;
+  return err instanceof SmtpError ? err.code >= 400 && err.code < 500 : true;
+};
+
+export const sendMail = (config: SmtpConfig, message: EmailMessage, timeoutMs: number): Promise<void> =>
+  withRetries("smtp", () => deliver(config, message, timeoutMs), isRetryable);
@@ -1,56 +1,958 @@
-import { readFileSync, writeFileSync, existsSync } from "fs";
+/**
+ * Run history and dedup state, kept in an embedded SQLite database at
+ * ~/.granola-automator.db.
+ *
+ * SQLite runs as WebAssembly (sql.js) so there's no native module to build.
+ * The database lives in memory and is flushed to disk after each write. Reads
+ * reload it when another process (CLI vs scheduler) wrote in the meantime.
+ * Each write holds a lock file, reloads and flushes, so two processes writing
+ * at once don't drop each other's rows.
+ */
+import { existsSync, readFileSync, renameSync, rmSync, statSync, unlinkSync, writeFileSync } from "fs";
 import { join } from "path";
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import type {
+  ActionItem,
+  AssigneeResolution,
+  InterviewInsights,
+  TicketResult,
+  MeetingExtraction,
+} from "./types.js";
+import type { NotifierKind, SlackMessageRef } from "./notifier.js";
+import type { Proposal } from "./proposals.js";
 
-const STATE_FILE = join(
-  process.env.HOME ?? process.env.USERPROFILE ?? ".",
-  ".granola-automator-state.json"
-);
+const HOME = process.env.HOME ?? process.env.USERPROFILE ?? ".";
+const DB_FILE = join(HOME, ".granola-automator.db");
+const LOCK_FILE = `${DB_FILE}.lock`;
+// Writes hold the lock for milliseconds; one this old was left by a process that crashed
+const STALE_LOCK_MS = 10_000;
+// Pre-database state file, imported once and then renamed
+const LEGACY_STATE_FILE = join(HOME, ".granola-automator-state.json");
+// Pre-database proposal store, imported by the first write that finds it
+const LEGACY_PROPOSALS_FILE = join(HOME, ".granola-automator-proposals.json");
 
-interface State {
-  processedIds: string[];
-  lastPollAt: string;
+export type RunStatus = "running" | "succeeded" | "failed" | "awaiting_approval";
+
+export interface Run {
+  id: number;
+  granolaDocId: string;
+  calendarEventId: string | null;
+  meetingTitle: string;
+  route: string | null;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  extraction: MeetingExtraction | null;
+  ticketKeys: string[];
+  slackChannel: string | null;
+  slackTs: string | null;
+  error: string | null;
 }
 
-const readState = (): State => {
-  if (!existsSync(STATE_FILE)) {
-    return { processedIds: [], lastPollAt: new Date(0).toISOString() };
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    granola_doc_id TEXT NOT NULL,
+    calendar_event_id TEXT,
+    meeting_title TEXT NOT NULL,
+    route TEXT,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    extraction_json TEXT,
+    jira_keys TEXT NOT NULL DEFAULT '[]',
+    slack_channel TEXT,
+    slack_ts TEXT,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS runs_doc ON runs (granola_doc_id);
+  CREATE TABLE IF NOT EXISTS processed (
+    id TEXT PRIMARY KEY,
+    processed_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    granola_doc_id TEXT PRIMARY KEY,
+    extraction_json TEXT,
+    assignees_json TEXT,
+    tickets_json TEXT NOT NULL DEFAULT '[]',
+    slack_channel TEXT,
+    slack_ts TEXT,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS checkpoint_notifications (
+    granola_doc_id TEXT NOT NULL,
+    notifier TEXT NOT NULL,
+    reference TEXT NOT NULL,
+    PRIMARY KEY (granola_doc_id, notifier)
+  );
+  CREATE TABLE IF NOT EXISTS checkpoint_slack_follow_ups (
+    granola_doc_id TEXT NOT NULL,
+    follow_up TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    ts TEXT NOT NULL,
+    PRIMARY KEY (granola_doc_id, follow_up)
+  );
+  CREATE TABLE IF NOT EXISTS checkpoint_uncertain_tickets (
+    granola_doc_id TEXT NOT NULL,
+    ticket_index INTEGER NOT NULL,
+    PRIMARY KEY (granola_doc_id, ticket_index)
+  );
+  CREATE TABLE IF NOT EXISTS documents (
+    granola_doc_id TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL,
+    route TEXT NOT NULL,
+    extraction_json TEXT NOT NULL,
+    tickets_json TEXT NOT NULL,
+    slack_channel TEXT NOT NULL,
+    slack_ts TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sync_checkpoints (
+    granola_doc_id TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL,
+    extraction_json TEXT NOT NULL,
+    tickets_json TEXT NOT NULL,
+    commented_json TEXT NOT NULL,
+    slack_done INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS proposals (
+    id TEXT PRIMARY KEY,
+    proposal_json TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS interviews (
+    granola_doc_id TEXT PRIMARY KEY,
+    meeting_title TEXT NOT NULL,
+    meeting_date TEXT NOT NULL,
+    customer TEXT NOT NULL,
+    insights_json TEXT NOT NULL,
+    saved_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS interviews_date ON interviews (meeting_date);
+  CREATE TABLE IF NOT EXISTS action_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    description TEXT NOT NULL,
+    owner TEXT,
+    owner_slack_id TEXT,
+    priority TEXT NOT NULL,
+    due_text TEXT,
+    due_date TEXT,
+    status TEXT NOT NULL,
+    slack_channel TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    done_at TEXT,
+    done_by TEXT,
+    reminded_on TEXT
+  );
+  CREATE TABLE IF NOT EXISTS action_item_sources (
+    granola_doc_id TEXT NOT NULL,
+    item_index INTEGER NOT NULL,
+    action_item_id INTEGER NOT NULL,
+    meeting_title TEXT NOT NULL,
+    seen_at TEXT NOT NULL,
+    PRIMARY KEY (granola_doc_id, item_index)
+  );
+  CREATE INDEX IF NOT EXISTS action_item_sources_item ON action_item_sources (action_item_id);
+  CREATE TABLE IF NOT EXISTS digest_channels (
+    channel TEXT PRIMARY KEY,
+    posted_until TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+let sqlJs: SqlJsStatic | null = null;
+let db: Database | null = null;
+let loadedMtimeMs = 0;
+
+// ── Connection ─────────────────────────────────────────────────────
+
+const migrateLegacyState = (database: Database): void => {
+  if (!existsSync(LEGACY_STATE_FILE)) return;
+
+  try {
+    const legacy = JSON.parse(readFileSync(LEGACY_STATE_FILE, "utf-8")) as {
+      processedIds?: string[];
+      lastPollAt?: string;
+    };
+    const now = new Date().toISOString();
+    for (const id of legacy.processedIds ?? []) {
+      database.run("INSERT OR IGNORE INTO processed (id, processed_at) VALUES (?, ?)", [id, now]);
+    }
+    if (legacy.lastPollAt) {
+      database.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('last_poll_at', ?)", [legacy.lastPollAt]);
+    }
+    renameSync(LEGACY_STATE_FILE, `${LEGACY_STATE_FILE}.migrated`);
+    console.log(`🗄️  Migrated ${legacy.processedIds?.length ?? 0} processed IDs from ${LEGACY_STATE_FILE}`);
+  } catch (err) {
+    console.warn(`⚠️  Could not migrate ${LEGACY_STATE_FILE}:`, err);
   }
+};
+
+const migrateLegacyProposals = (database: Database): void => {
+  if (!existsSync(LEGACY_PROPOSALS_FILE)) return;
 
   try {
-    return JSON.parse(readFileSync(STATE_FILE, "utf-8"));
-  } catch {
-    return { processedIds: [], lastPollAt: new Date(0).toISOString() };
+    const legacy = JSON.parse(readFileSync(LEGACY_PROPOSALS_FILE, "utf-8")) as { proposals?: Record<string, Proposal> };
+    const proposals = Object.values(legacy.proposals ?? {});
+    for (const proposal of proposals) {
+      database.run("INSERT OR IGNORE INTO proposals (id, proposal_json, created_at) VALUES (?, ?, ?)", [
+        proposal.id,
+        JSON.stringify(proposal),
+        proposal.createdAt,
+      ]);
+    }
+    renameSync(LEGACY_PROPOSALS_FILE, `${LEGACY_PROPOSALS_FILE}.migrated`);
+    console.log(`🗄️  Migrated ${proposals.length} pending proposals from ${LEGACY_PROPOSALS_FILE}`);
+  } catch (err) {
+    console.warn(`⚠️  Could not migrate ${LEGACY_PROPOSALS_FILE}:`, err);
   }
 };
 
-const writeState = (state: State): void => {
-  writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+const flush = (database: Database): void => {
+  // Write-then-rename so a crash mid-write can't leave a torn database
+  const tmp = `${DB_FILE}.tmp`;
+  writeFileSync(tmp, database.export());
+  renameSync(tmp, DB_FILE);
+  loadedMtimeMs = statSync(DB_FILE).mtimeMs;
 };
 
-export const isProcessed = (meetingId: string): boolean => {
-  const state = readState();
-  return state.processedIds.includes(meetingId);
+const load = async (): Promise<Database> => {
+  sqlJs ??= await initSqlJs();
+  // Stat before reading: if the file is replaced in between, the next read just reloads again
+  const onDisk = existsSync(DB_FILE) ? statSync(DB_FILE).mtimeMs : 0;
+  db?.close();
+  db = onDisk ? new sqlJs.Database(readFileSync(DB_FILE)) : new sqlJs.Database();
+  loadedMtimeMs = onDisk;
+
+  db.exec(SCHEMA);
+  if (!onDisk) migrateLegacyState(db);
+  return db;
 };
 
-export const markProcessed = (meetingId: string): void => {
-  const state = readState();
-  if (!state.processedIds.includes(meetingId)) {
-    state.processedIds.push(meetingId);
-    // Keep only last 500 IDs to avoid unbounded growth
-    if (state.processedIds.length > 500) {
-      state.processedIds = state.processedIds.slice(-500);
+const lock = async (): Promise<void> => {
+  for (;;) {
+    try {
+      writeFileSync(LOCK_FILE, String(process.pid), { flag: "wx" });
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
     }
-    state.lastPollAt = new Date().toISOString();
-    writeState(state);
+    try {
+      if (Date.now() - statSync(LOCK_FILE).mtimeMs > STALE_LOCK_MS) unlinkSync(LOCK_FILE);
+    } catch {
+      // Released in the meantime
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+/**
+ * Apply `change` to the latest database on disk and flush it, holding the
+ * lock throughout. The mtime can't tell two writes within the same
+ * millisecond apart, so the file is always reloaded here.
+ */
+const write = async <T>(change: (database: Database) => T): Promise<T> => {
+  await lock();
+  try {
+    const database = await load();
+    migrateLegacyProposals(database);
+    const result = change(database);
+    flush(database);
+    return result;
+  } finally {
+    rmSync(LOCK_FILE, { force: true });
+  }
+};
+
+const openDb = async (): Promise<Database> => {
+  // The first write creates the file (and imports the legacy state and proposals)
+  if (!existsSync(DB_FILE) || existsSync(LEGACY_PROPOSALS_FILE)) return write((database) => database);
+  if (db && statSync(DB_FILE).mtimeMs === loadedMtimeMs) return db;
+  return load();
+};
+
+const select = (database: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] => {
+  const stmt = database.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    return rows;
+  } finally {
+    stmt.free();
   }
 };
 
-export const getLastPollTime = (): Date => {
-  const state = readState();
-  return new Date(state.lastPollAt);
+const query = async (sql: string, params: SqlValue[] = []): Promise<Record<string, SqlValue>[]> =>
+  select(await openDb(), sql, params);
+
+const execute = async (sql: string, params: SqlValue[] = []): Promise<void> => {
+  await write((database) => database.run(sql, params));
+};
+
+// ── Processed IDs ──────────────────────────────────────────────────
+
+export const isProcessed = async (meetingId: string): Promise<boolean> => {
+  const rows = await query("SELECT 1 FROM processed WHERE id = ?", [meetingId]);
+  return rows.length > 0;
+};
+
+export const markProcessed = async (meetingId: string): Promise<void> => {
+  const now = new Date().toISOString();
+  await write((database) => {
+    database.run("INSERT OR IGNORE INTO processed (id, processed_at) VALUES (?, ?)", [meetingId, now]);
+    database.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('last_poll_at', ?)", [now]);
+  });
+};
+
+export const getLastPollTime = async (): Promise<Date> => {
+  const [row] = await query("SELECT value FROM meta WHERE key = 'last_poll_at'");
+  return new Date(row ? String(row.value) : 0);
+};
+
+export const getLastDigestTime = async (): Promise<Date | undefined> => {
+  const [row] = await query("SELECT value FROM meta WHERE key = 'last_digest_at'");
+  return row ? new Date(String(row.value)) : undefined;
+};
+
+/**
+ * Record the end of the period the last scheduled digest covered. Every
+ * channel has caught up with it, so their own times are dropped.
+ */
+export const markDigestPosted = async (until: Date): Promise<void> => {
+  await write((database) => {
+    database.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('last_digest_at', ?)", [until.toISOString()]);
+    database.run("DELETE FROM digest_channels");
+  });
+};
+
+/** Channels whose scheduled digest got further than the last digest time, when another channel's failed. */
+export const getDigestChannelTimes = async (): Promise<Map<string, Date>> =>
+  new Map(
+    (await query("SELECT channel, posted_until FROM digest_channels")).map((row) => [
+      String(row.channel),
+      new Date(String(row.posted_until)),
+    ])
+  );
+
+/** Record that `channel` got its scheduled digest up to `until`. */
+export const markChannelDigestPosted = async (channel: string, until: Date): Promise<void> => {
+  await execute("INSERT OR REPLACE INTO digest_channels (channel, posted_until) VALUES (?, ?)", [
+    channel,
+    until.toISOString(),
+  ]);
 };
 
-export const resetState = (): void => {
-  writeState({ processedIds: [], lastPollAt: new Date(0).toISOString() });
+/**
+ * Forget processed IDs and checkpoints so meetings are re-evaluated from
+ * scratch. Run history, saved interviews and tracked action items are kept.
+ */
+export const resetState = async (): Promise<void> => {
+  await write((database) => {
+    database.run("DELETE FROM processed");
+    database.run("DELETE FROM checkpoints");
+    database.run("DELETE FROM checkpoint_notifications");
+    database.run("DELETE FROM checkpoint_slack_follow_ups");
+    database.run("DELETE FROM checkpoint_uncertain_tickets");
+    database.run("DELETE FROM meta WHERE key = 'last_poll_at'");
+  });
   console.log("🔄 State reset. All meetings will be re-evaluated on next poll.");
 };
+
+// ── Run history ────────────────────────────────────────────────────
+
+const toRun = (row: Record<string, SqlValue>): Run => ({
+  id: Number(row.id),
+  granolaDocId: String(row.granola_doc_id),
+  calendarEventId: row.calendar_event_id === null ? null : String(row.calendar_event_id),
+  meetingTitle: String(row.meeting_title),
+  route: row.route === null ? null : String(row.route),
+  status: row.status as RunStatus,
+  startedAt: String(row.started_at),
+  finishedAt: row.finished_at === null ? null : String(row.finished_at),
+  extraction: row.extraction_json ? JSON.parse(String(row.extraction_json)) : null,
+  ticketKeys: JSON.parse(String(row.jira_keys ?? "[]")),
+  slackChannel: row.slack_channel === null ? null : String(row.slack_channel),
+  slackTs: row.slack_ts === null ? null : String(row.slack_ts),
+  error: row.error === null ? null : String(row.error),
+});
+
+export const startRun = async (run: {
+  granolaDocId: string;
+  calendarEventId?: string;
+  meetingTitle: string;
+  route?: string;
+}): Promise<number> => {
+  return write((database) => {
+    database.run(
+      `INSERT INTO runs (granola_doc_id, calendar_event_id, meeting_title, route, status, started_at)
+       VALUES (?, ?, ?, ?, 'running', ?)`,
+      [run.granolaDocId, run.calendarEventId ?? null, run.meetingTitle, run.route ?? null, new Date().toISOString()]
+    );
+    const [[id]] = database.exec("SELECT last_insert_rowid()")[0].values;
+    return Number(id);
+  });
+};
+
+export const finishRun = async (
+  runId: number,
+  result: {
+    status: Exclude<RunStatus, "running" | "failed">;
+    extraction: MeetingExtraction;
+    ticketKeys: string[];
+    /** Unset when the summary didn't go to Slack */
+    slackChannel?: string;
+    slackTs?: string;
+  }
+): Promise<void> => {
+  await execute(
+    `UPDATE runs SET status = ?, finished_at = ?, extraction_json = ?, jira_keys = ?, slack_channel = ?, slack_ts = ?
+     WHERE id = ?`,
+    [
+      result.status,
+      new Date().toISOString(),
+      JSON.stringify(result.extraction),
+      JSON.stringify(result.ticketKeys),
+      result.slackChannel ?? null,
+      result.slackTs ?? null,
+      runId,
+    ]
+  );
+};
+
+/** Record a failure, keeping whatever was produced before it (e.g. the extraction). */
+export const failRun = async (
+  runId: number,
+  error: unknown,
+  partial: { extraction?: MeetingExtraction; ticketKeys?: string[] } = {}
+): Promise<void> => {
+  const message = error instanceof Error ? error.message : String(error);
+  await execute(
+    `UPDATE runs SET status = 'failed', finished_at = ?, error = ?,
+       extraction_json = COALESCE(?, extraction_json), jira_keys = COALESCE(?, jira_keys)
+     WHERE id = ?`,
+    [
+      new Date().toISOString(),
+      message,
+      partial.extraction ? JSON.stringify(partial.extraction) : null,
+      partial.ticketKeys ? JSON.stringify(partial.ticketKeys) : null,
+      runId,
+    ]
+  );
+};
+
+/** Append a ticket filed later (approval mode) to the doc's most recent run. */
+export const addRunTicketKey = async (granolaDocId: string, key: string): Promise<void> => {
+  await write((database) => {
+    const [latest] = select(
+      database,
+      "SELECT id, jira_keys FROM runs WHERE granola_doc_id = ? ORDER BY id DESC LIMIT 1",
+      [granolaDocId]
+    );
+    if (!latest) return;
+
+    const keys: string[] = JSON.parse(String(latest.jira_keys));
+    if (!keys.includes(key)) keys.push(key);
+    database.run("UPDATE runs SET jira_keys = ? WHERE id = ?", [JSON.stringify(keys), latest.id]);
+  });
+};
+
+export const listRuns = async (limit = 20): Promise<Run[]> =>
+  (await query("SELECT * FROM runs ORDER BY id DESC LIMIT ?", [limit])).map(toRun);
+
+/** The latest finished, non-failed run of each meeting whose run finished in [since, until), oldest first. */
+export const listCompletedRuns = async (since: Date, until: Date): Promise<Run[]> =>
+  (
+    await query(
+      `SELECT * FROM runs WHERE id IN (
+         SELECT MAX(id) FROM runs
+         WHERE status IN ('succeeded', 'awaiting_approval') AND finished_at >= ? AND finished_at < ?
+         GROUP BY granola_doc_id
+       ) ORDER BY finished_at`,
+      [since.toISOString(), until.toISOString()]
+    )
+  ).map(toRun);
+
+/** Look up a run by its numeric ID, or the latest run for a Granola doc ID. */
+export const getRun = async (id: string): Promise<Run | undefined> => {
+  const rows = /^\d+$/.test(id)
+    ? await query("SELECT * FROM runs WHERE id = ?", [Number(id)])
+    : await query("SELECT * FROM runs WHERE granola_doc_id = ? ORDER BY id DESC LIMIT 1", [id]);
+  return rows[0] ? toRun(rows[0]) : undefined;
+};
+
+// ── Step checkpoints ───────────────────────────────────────────────
+
+/**
+ * What a meeting's unfinished pipeline already got done, so a retry resumes
+ * from the failed step. `tickets` lines up with extraction.engineeringTickets;
+ * null marks a ticket that hasn't been filed yet. `notified` holds the
+ * notifiers that already have the summary, with the reference each returned
+ * (Slack's message ts, "" for the rest).
+ */
+export interface Checkpoint {
+  extraction?: MeetingExtraction;
+  assignees?: AssigneeResolution;
+  tickets: Array<TicketResult | null>;
+  slackChannel?: string;
+  notified: Partial<Record<NotifierKind, string>>;
+  /** The Slack summary's thread replies and DMs, so a retry can rewrite them */
+  slackFollowUps?: Record<string, SlackMessageRef>;
+  /** Indexes of tickets whose create may have gone through; a retry looks for them before creating */
+  uncertain?: number[];
+}
+
+export const getCheckpoint = async (granolaDocId: string): Promise<Checkpoint | undefined> => {
+  const [row] = await query("SELECT * FROM checkpoints WHERE granola_doc_id = ?", [granolaDocId]);
+  if (!row) return undefined;
+  const notifications = await query("SELECT notifier, reference FROM checkpoint_notifications WHERE granola_doc_id = ?", [
+    granolaDocId,
+  ]);
+  const followUps = await query("SELECT follow_up, channel, ts FROM checkpoint_slack_follow_ups WHERE granola_doc_id = ?", [
+    granolaDocId,
+  ]);
+  const uncertain = await query("SELECT ticket_index FROM checkpoint_uncertain_tickets WHERE granola_doc_id = ?", [
+    granolaDocId,
+  ]);
+
+  return {
+    extraction: row.extraction_json ? JSON.parse(String(row.extraction_json)) : undefined,
+    assignees: row.assignees_json ? JSON.parse(String(row.assignees_json)) : undefined,
+    tickets: JSON.parse(String(row.tickets_json)),
+    slackChannel: row.slack_channel === null ? undefined : String(row.slack_channel),
+    notified: {
+      ...Object.fromEntries(notifications.map((n) => [String(n.notifier), String(n.reference)])),
+      // Slack's ts keeps its own column, which checkpoints had before other notifiers existed
+      ...(row.slack_ts === null ? {} : { slack: String(row.slack_ts) }),
+    },
+    slackFollowUps: Object.fromEntries(
+      followUps.map((f) => [String(f.follow_up), { channel: String(f.channel), ts: String(f.ts) }])
+    ),
+    uncertain: uncertain.map((u) => Number(u.ticket_index)),
+  };
+};
+
+export const saveCheckpoint = async (granolaDocId: string, checkpoint: Checkpoint): Promise<void> => {
+  await write((database) => {
+    database.run(
+      `INSERT OR REPLACE INTO checkpoints
+         (granola_doc_id, extraction_json, assignees_json, tickets_json, slack_channel, slack_ts, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        granolaDocId,
+        checkpoint.extraction ? JSON.stringify(checkpoint.extraction) : null,
+        checkpoint.assignees ? JSON.stringify(checkpoint.assignees) : null,
+        JSON.stringify(checkpoint.tickets),
+        checkpoint.slackChannel ?? null,
+        checkpoint.notified.slack ?? null,
+        new Date().toISOString(),
+      ]
+    );
+    for (const [notifier, reference] of Object.entries(checkpoint.notified)) {
+      if (notifier === "slack") continue;
+      database.run(
+        "INSERT OR REPLACE INTO checkpoint_notifications (granola_doc_id, notifier, reference) VALUES (?, ?, ?)",
+        [granolaDocId, notifier, reference]
+      );
+    }
+    for (const [followUp, { channel, ts }] of Object.entries(checkpoint.slackFollowUps ?? {})) {
+      database.run(
+        "INSERT OR REPLACE INTO checkpoint_slack_follow_ups (granola_doc_id, follow_up, channel, ts) VALUES (?, ?, ?, ?)",
+        [granolaDocId, followUp, channel, ts]
+      );
+    }
+    // Resolved tickets drop out of the list, so it's replaced as a whole
+    database.run("DELETE FROM checkpoint_uncertain_tickets WHERE granola_doc_id = ?", [granolaDocId]);
+    for (const index of checkpoint.uncertain ?? []) {
+      database.run("INSERT INTO checkpoint_uncertain_tickets (granola_doc_id, ticket_index) VALUES (?, ?)", [
+        granolaDocId,
+        index,
+      ]);
+    }
+  });
+};
+
+/** Drop a meeting's checkpoint once every step has succeeded. */
+export const clearCheckpoint = async (granolaDocId: string): Promise<void> => {
+  await write((database) => {
+    database.run("DELETE FROM checkpoints WHERE granola_doc_id = ?", [granolaDocId]);
+    database.run("DELETE FROM checkpoint_notifications WHERE granola_doc_id = ?", [granolaDocId]);
+    database.run("DELETE FROM checkpoint_slack_follow_ups WHERE granola_doc_id = ?", [granolaDocId]);
+    database.run("DELETE FROM checkpoint_uncertain_tickets WHERE granola_doc_id = ?", [granolaDocId]);
+  });
+};
+
+// ── Synced documents ───────────────────────────────────────────────
+
+/**
+ * The last extraction applied for a Granola doc, kept so later edits to the
+ * notes can be diffed against it. `tickets` lines up with
+ * extraction.engineeringTickets; null means not filed (failed, or awaiting approval).
+ */
+export interface SyncedDocument {
+  granolaDocId: string;
+  /** Granola's updated_at for the version this reflects */
+  updatedAt: string;
+  route: string;
+  extraction: MeetingExtraction;
+  tickets: Array<TicketResult | null>;
+  slackChannel: string;
+  /** Unset when the summary didn't go to Slack */
+  slackTs?: string;
+}
+
+export const getSyncedDocument = async (granolaDocId: string): Promise<SyncedDocument | undefined> => {
+  const [row] = await query("SELECT * FROM documents WHERE granola_doc_id = ?", [granolaDocId]);
+  if (!row) return undefined;
+
+  return {
+    granolaDocId,
+    updatedAt: String(row.updated_at),
+    route: String(row.route),
+    extraction: JSON.parse(String(row.extraction_json)),
+    tickets: JSON.parse(String(row.tickets_json)),
+    slackChannel: String(row.slack_channel),
+    // Stored as "" since the column can't be null
+    slackTs: String(row.slack_ts) || undefined,
+  };
+};
+
+export const saveSyncedDocument = async (document: SyncedDocument): Promise<void> => {
+  await execute(
+    `INSERT OR REPLACE INTO documents
+       (granola_doc_id, updated_at, route, extraction_json, tickets_json, slack_channel, slack_ts, synced_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      document.granolaDocId,
+      document.updatedAt,
+      document.route,
+      JSON.stringify(document.extraction),
+      JSON.stringify(document.tickets),
+      document.slackChannel,
+      document.slackTs ?? "",
+      new Date().toISOString(),
+    ]
+  );
+};
+
+/** Record the tracker result for a ticket filed later (approval mode), matched by its extracted summary. */
+export const linkSyncedTicket = async (
+  granolaDocId: string,
+  summary: string,
+  result: TicketResult
+): Promise<void> => {
+  await write((database) => {
+    const [row] = select(database, "SELECT extraction_json, tickets_json FROM documents WHERE granola_doc_id = ?", [
+      granolaDocId,
+    ]);
+    if (!row) return;
+    const extraction: MeetingExtraction = JSON.parse(String(row.extraction_json));
+    const index = extraction.engineeringTickets.findIndex((t) => t.summary === summary);
+    if (index === -1) return;
+
+    const tickets: Array<TicketResult | null> = JSON.parse(String(row.tickets_json));
+    tickets[index] = result;
+    database.run("UPDATE documents SET tickets_json = ? WHERE granola_doc_id = ?", [JSON.stringify(tickets), granolaDocId]);
+  });
+};
+
+/**
+ * A sync of edited notes that didn't finish. The snapshot keeps the version
+ * synced before it until every step went through; the next attempt at the
+ * same version carries on from here instead of commenting or posting twice.
+ */
+export interface SyncCheckpoint {
+  /** Granola's updated_at for the version being synced */
+  updatedAt: string;
+  extraction: MeetingExtraction;
+  /** Lines up with extraction.engineeringTickets, like SyncedDocument.tickets */
+  tickets: Array<TicketResult | null>;
+  /** Keys of the issues already commented on */
+  commented: string[];
+  /** The Slack summary was updated or replied to */
+  slackDone: boolean;
+}
+
+export const getSyncCheckpoint = async (granolaDocId: string): Promise<SyncCheckpoint | undefined> => {
+  const [row] = await query("SELECT * FROM sync_checkpoints WHERE granola_doc_id = ?", [granolaDocId]);
+  if (!row) return undefined;
+
+  return {
+    updatedAt: String(row.updated_at),
+    extraction: JSON.parse(String(row.extraction_json)),
+    tickets: JSON.parse(String(row.tickets_json)),
+    commented: JSON.parse(String(row.commented_json)),
+    slackDone: Number(row.slack_done) === 1,
+  };
+};
+
+export const saveSyncCheckpoint = async (granolaDocId: string, checkpoint: SyncCheckpoint): Promise<void> => {
+  await execute(
+    `INSERT OR REPLACE INTO sync_checkpoints
+       (granola_doc_id, updated_at, extraction_json, tickets_json, commented_json, slack_done)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      granolaDocId,
+      checkpoint.updatedAt,
+      JSON.stringify(checkpoint.extraction),
+      JSON.stringify(checkpoint.tickets),
+      JSON.stringify(checkpoint.commented),
+      checkpoint.slackDone ? 1 : 0,
+    ]
+  );
+};
+
+export const clearSyncCheckpoint = async (granolaDocId: string): Promise<void> => {
+  await execute("DELETE FROM sync_checkpoints WHERE granola_doc_id = ?", [granolaDocId]);
+};
+
+// ── Proposals ──────────────────────────────────────────────────────
+
+export const getProposal = async (id: string): Promise<Proposal | undefined> => {
+  const [row] = await query("SELECT proposal_json FROM proposals WHERE id = ?", [id]);
+  return row ? JSON.parse(String(row.proposal_json)) : undefined;
+};
+
+/** Pending proposals, oldest first. */
+export const listProposals = async (): Promise<Proposal[]> =>
+  (await query("SELECT proposal_json FROM proposals ORDER BY created_at")).map((row) => JSON.parse(String(row.proposal_json)));
+
+export const saveProposal = async (proposal: Proposal): Promise<void> => {
+  await execute("INSERT OR REPLACE INTO proposals (id, proposal_json, created_at) VALUES (?, ?, ?)", [
+    proposal.id,
+    JSON.stringify(proposal),
+    proposal.createdAt,
+  ]);
+};
+
+/**
+ * Apply `change` to the stored copy of `proposal` (or to `proposal` itself if
+ * it isn't stored) under the write lock, so decisions from two processes
+ * don't overwrite each other. `change` returns false to drop the proposal.
+ * Returns the changed copy.
+ */
+export const updateProposal = async (proposal: Proposal, change: (latest: Proposal) => boolean): Promise<Proposal> =>
+  write((database) => {
+    const [row] = select(database, "SELECT proposal_json FROM proposals WHERE id = ?", [proposal.id]);
+    const latest: Proposal = row ? JSON.parse(String(row.proposal_json)) : proposal;
+    if (change(latest)) {
+      database.run("INSERT OR REPLACE INTO proposals (id, proposal_json, created_at) VALUES (?, ?, ?)", [
+        latest.id,
+        JSON.stringify(latest),
+        latest.createdAt,
+      ]);
+    } else {
+      database.run("DELETE FROM proposals WHERE id = ?", [latest.id]);
+    }
+    return latest;
+  });
+
+// ── Research repository ────────────────────────────────────────────
+
+/** The insights extracted from one customer interview, kept for cross-interview themes. */
+export interface InterviewRecord {
+  granolaDocId: string;
+  meetingTitle: string;
+  /** When the meeting took place (ISO) */
+  meetingDate: string;
+  /** Who was interviewed, normalised so interviews with the same customer count once */
+  customer: string;
+  insights: InterviewInsights;
+}
+
+/** Save an interview, replacing the earlier version after a re-sync. */
+export const saveInterview = async (record: InterviewRecord): Promise<void> => {
+  await execute(
+    `INSERT OR REPLACE INTO interviews
+       (granola_doc_id, meeting_title, meeting_date, customer, insights_json, saved_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      record.granolaDocId,
+      record.meetingTitle,
+      record.meetingDate,
+      record.customer,
+      JSON.stringify(record.insights),
+      new Date().toISOString(),
+    ]
+  );
+};
+
+/** Interviews held in [from, to), oldest first. Either bound may be left open. */
+export const listInterviews = async (range: { from?: Date; to?: Date } = {}): Promise<InterviewRecord[]> => {
+  const rows = await query(
+    `SELECT * FROM interviews WHERE meeting_date >= ? AND meeting_date < ? ORDER BY meeting_date`,
+    [range.from?.toISOString() ?? "", range.to?.toISOString() ?? "9999"]
+  );
+  return rows.map((row) => ({
+    granolaDocId: String(row.granola_doc_id),
+    meetingTitle: String(row.meeting_title),
+    meetingDate: String(row.meeting_date),
+    customer: String(row.customer),
+    insights: JSON.parse(String(row.insights_json)),
+  }));
+};
+
+// ── Action items ───────────────────────────────────────────────────
+
+export type ActionItemStatus = "open" | "done";
+
+/**
+ * An action item followed across meetings. `meetings` lists every meeting it
+ * was extracted from, oldest first; `dueDate` is YYYY-MM-DD when `dueText`
+ * could be resolved.
+ */
+export interface TrackedActionItem {
+  id: number;
+  description: string;
+  owner: string | null;
+  ownerSlackId: string | null;
+  priority: ActionItem["priority"];
+  dueText: string | null;
+  dueDate: string | null;
+  status: ActionItemStatus;
+  /** Where the meeting's summary went — reminders fall back to it */
+  slackChannel: string;
+  meetings: Array<{ granolaDocId: string; title: string }>;
+  createdAt: string;
+  doneAt: string | null;
+  /** Slack user ID, or "cli" */
+  doneBy: string | null;
+  /** Day (YYYY-MM-DD) of the last reminder */
+  remindedOn: string | null;
+}
+
+export type NewActionItem = Pick<
+  TrackedActionItem,
+  "description" | "owner" | "ownerSlackId" | "priority" | "dueText" | "dueDate" | "slackChannel"
+>;
+
+const nullableString = (value: SqlValue): string | null => (value === null ? null : String(value));
+
+const toActionItems = async (rows: Record<string, SqlValue>[]): Promise<TrackedActionItem[]> => {
+  if (rows.length === 0) return [];
+  const ids = rows.map((row) => Number(row.id));
+  const sources = await query(
+    `SELECT action_item_id, granola_doc_id, meeting_title FROM action_item_sources
+     WHERE action_item_id IN (${ids.map(() => "?").join(", ")}) ORDER BY seen_at`,
+    ids
+  );
+
+  return rows.map((row) => ({
+    id: Number(row.id),
+    description: String(row.description),
+    owner: nullableString(row.owner),
+    ownerSlackId: nullableString(row.owner_slack_id),
+    priority: String(row.priority) as ActionItem["priority"],
+    dueText: nullableString(row.due_text),
+    dueDate: nullableString(row.due_date),
+    status: String(row.status) as ActionItemStatus,
+    slackChannel: String(row.slack_channel),
+    meetings: sources
+      .filter((source) => Number(source.action_item_id) === Number(row.id))
+      .map((source) => ({ granolaDocId: String(source.granola_doc_id), title: String(source.meeting_title) }))
+      // A meeting can mention the same item twice
+      .filter((m, i, all) => all.findIndex((other) => other.granolaDocId === m.granolaDocId) === i),
+    createdAt: String(row.created_at),
+    doneAt: nullableString(row.done_at),
+    doneBy: nullableString(row.done_by),
+    remindedOn: nullableString(row.reminded_on),
+  }));
+};
+
+export const getActionItem = async (id: number): Promise<TrackedActionItem | undefined> =>
+  (await toActionItems(await query("SELECT * FROM action_items WHERE id = ?", [id])))[0];
+
+/** Action items by due date (undated last), then age. */
+export const listActionItems = async (status?: ActionItemStatus): Promise<TrackedActionItem[]> =>
+  toActionItems(
+    await query(
+      `SELECT * FROM action_items ${status ? "WHERE status = ?" : ""}
+       ORDER BY due_date IS NULL, due_date, id`,
+      status ? [status] : []
+    )
+  );
+
+/** The tracked item the meeting's `index`-th extracted action item was linked to. */
+export const getActionItemSource = async (granolaDocId: string, index: number): Promise<number | undefined> => {
+  const [row] = await query(
+    "SELECT action_item_id FROM action_item_sources WHERE granola_doc_id = ? AND item_index = ?",
+    [granolaDocId, index]
+  );
+  return row ? Number(row.action_item_id) : undefined;
+};
+
+export const insertActionItem = async (item: NewActionItem): Promise<number> => {
+  const now = new Date().toISOString();
+  return write((database) => {
+    database.run(
+      `INSERT INTO action_items
+         (description, owner, owner_slack_id, priority, due_text, due_date, status, slack_channel, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, 'open', ?, ?, ?)`,
+      [item.description, item.owner, item.ownerSlackId, item.priority, item.dueText, item.dueDate, item.slackChannel, now, now]
+    );
+    const [[id]] = database.exec("SELECT last_insert_rowid()")[0].values;
+    return Number(id);
+  });
+};
+
+/** Fill in what a later meeting added about an item: owner, due date, priority. */
+export const updateActionItem = async (
+  id: number,
+  changes: Partial<Pick<TrackedActionItem, "owner" | "ownerSlackId" | "priority" | "dueText" | "dueDate">>
+): Promise<void> => {
+  const columns = {
+    owner: changes.owner,
+    owner_slack_id: changes.ownerSlackId,
+    priority: changes.priority,
+    due_text: changes.dueText,
+    due_date: changes.dueDate,
+  };
+  const set = Object.entries(columns).filter(([, value]) => value !== undefined);
+  if (set.length === 0) return;
+
+  await execute(
+    `UPDATE action_items SET ${set.map(([column]) => `${column} = ?`).join(", ")}, updated_at = ? WHERE id = ?`,
+    [...set.map(([, value]) => value as SqlValue), new Date().toISOString(), id]
+  );
+};
+
+/** Link the meeting's `index`-th extracted action item to a tracked item, replacing any earlier link. */
+export const linkActionItemSource = async (
+  granolaDocId: string,
+  index: number,
+  actionItemId: number,
+  meetingTitle: string
+): Promise<void> => {
+  await execute(
+    `INSERT INTO action_item_sources (granola_doc_id, item_index, action_item_id, meeting_title, seen_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (granola_doc_id, item_index)
+     DO UPDATE SET action_item_id = excluded.action_item_id, meeting_title = excluded.meeting_title`,
+    [granolaDocId, index, actionItemId, meetingTitle, new Date().toISOString()]
+  );
+};
+
+/** Drop links from a meeting's items past `count` — they went away when the notes were re-synced. */
+export const pruneActionItemSources = async (granolaDocId: string, count: number): Promise<void> => {
+  await execute("DELETE FROM action_item_sources WHERE granola_doc_id = ? AND item_index >= ?", [granolaDocId, count]);
+};
+
+/** Returns false if the item doesn't exist or was already done. */
+export const completeActionItem = async (id: number, doneBy: string): Promise<boolean> => {
+  const now = new Date().toISOString();
+  return write((database) => {
+    database.run(
+      "UPDATE action_items SET status = 'done', done_at = ?, done_by = ?, updated_at = ? WHERE id = ? AND status = 'open'",
+      [now, doneBy, now, id]
+    );
+    return database.getRowsModified() > 0;
+  });
+};
+
+export const markActionItemReminded = async (id: number, day: string): Promise<void> => {
+  await execute("UPDATE action_items SET reminded_on = ? WHERE id = ?", [day, id]);
+};
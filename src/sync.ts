@@ -0,0 +1,297 @@
+/**
+ * Update mode: Granola notes keep changing after a meeting (people edit the
+ * enhanced notes hours later). When a processed doc's updated_at moves past
+ * the synced version, re-extract and apply only the difference — file new
+ * tickets, comment on tickets whose description changed, and tell Slack.
+ */
+import type { Config } from "./config.js";
+import type { GranolaClient } from "./granola.js";
+import type {
+  EngineeringTicket,
+  ExtractionDelta,
+  TicketResult,
+  MeetingData,
+  MeetingExtraction,
+} from "./types.js";
+import { extractMeetingData, profileOf } from "./extract.js";
+import { commentOnTicket, fileTicket } from "./tickets.js";
+import { describeTracker } from "./tracker.js";
+import { similarity } from "./similarity.js";
+import { postSyncReply, updateSlackSummary, type SyncOutcome } from "./slack.js";
+import { applyRoute } from "./routing.js";
+import { proposeTickets } from "./approvals.js";
+import { logExtraction, resolvePeople } from "./pipeline.js";
+import { isTransientError } from "./http.js";
+import { recordInterview } from "./research.js";
+import { trackActionItems } from "./action-items.js";
+import { exportProcessedMeeting } from "./export.js";
+import {
+  clearSyncCheckpoint,
+  getSyncCheckpoint,
+  getSyncedDocument,
+  saveSyncCheckpoint,
+  saveSyncedDocument,
+  type SyncCheckpoint,
+  type SyncedDocument,
+} from "./state.js";
+
+// Re-extraction rewords things; below this word overlap a description counts as changed
+const DESCRIPTION_CHANGED_BELOW = 0.8;
+
+const describeTicket = (ticket: EngineeringTicket): string =>
+  [ticket.description, ...(ticket.acceptanceCriteria ?? [])].join("\n");
+
+/**
+ * Pair each new ticket with the earlier ticket it most likely is, best
+ * summary match first. Returns, per new ticket, the earlier index or undefined.
+ */
+const matchTickets = (
+  previous: EngineeringTicket[],
+  next: EngineeringTicket[],
+  threshold: number
+): Array<number | undefined> => {
+  const pairs = next
+    .flatMap((ticket, i) => previous.map((old, j) => ({ i, j, score: similarity(ticket.summary, old.summary) })))
+    .filter((p) => p.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+
+  const matched: Array<number | undefined> = next.map(() => undefined);
+  const taken = new Set<number>();
+  for (const { i, j } of pairs) {
+    if (matched[i] !== undefined || taken.has(j)) continue;
+    matched[i] = j;
+    taken.add(j);
+  }
+  return matched;
+};
+
+const unmatched = (next: string[], previous: string[], threshold: number): string[] =>
+  next.filter((text) => !previous.some((old) => similarity(text, old) >= threshold));
+
+/**
+ * Diff a fresh extraction against the synced one. Earlier tickets that were
+ * never filed count as new again — unless they're waiting on approval.
+ */
+export const diffExtractions = (
+  config: Config,
+  document: SyncedDocument,
+  extraction: MeetingExtraction
+): { delta: ExtractionDelta; matches: Array<number | undefined> } => {
+  const previous = document.extraction;
+  const threshold = config.ticketDuplicateThreshold;
+  const matches = matchTickets(previous.engineeringTickets, extraction.engineeringTickets, threshold);
+
+  const delta: ExtractionDelta = {
+    newTickets: [],
+    changedTickets: [],
+    removedTickets: previous.engineeringTickets
+      .map((ticket, j) => ({ ticket, result: document.tickets[j] ?? null }))
+      .filter((_, j) => !matches.includes(j)),
+    newActionItems: extraction.actionItems.filter((item) =>
+      unmatched([item.description], previous.actionItems.map((a) => a.description), threshold).length > 0
+    ),
+    newDecisions: unmatched(extraction.keyDecisions, previous.keyDecisions, threshold),
+    newFollowUps: unmatched(extraction.followUps, previous.followUps, threshold),
+    summaryChanged: similarity(extraction.meetingSummary, previous.meetingSummary) < DESCRIPTION_CHANGED_BELOW,
+  };
+
+  extraction.engineeringTickets.forEach((ticket, i) => {
+    const j = matches[i];
+    const result = j === undefined ? null : document.tickets[j] ?? null;
+    if (j === undefined || (!result && !config.approvalMode)) {
+      delta.newTickets.push(ticket);
+    } else if (similarity(describeTicket(ticket), describeTicket(previous.engineeringTickets[j])) < DESCRIPTION_CHANGED_BELOW) {
+      delta.changedTickets.push({ ticket: previous.engineeringTickets[j], result, updated: ticket });
+    }
+  });
+
+  return { delta, matches };
+};
+
+// A reworded summary alone isn't worth a Slack message — re-extraction rarely words it the same
+export const isEmptyDelta = (delta: ExtractionDelta): boolean =>
+  delta.newTickets.length === 0 &&
+  delta.changedTickets.length === 0 &&
+  delta.removedTickets.length === 0 &&
+  delta.newActionItems.length === 0 &&
+  delta.newDecisions.length === 0 &&
+  delta.newFollowUps.length === 0;
+
+/**
+ * Re-sync one meeting. Returns the delta, or undefined when the meeting was
+ * never processed or hasn't changed. With `dryRun` the delta is only printed.
+ */
+export const syncMeeting = async (
+  baseConfig: Config,
+  meeting: MeetingData,
+  options: { dryRun?: boolean } = {}
+): Promise<ExtractionDelta | undefined> => {
+  const document = await getSyncedDocument(meeting.id);
+  if (!document) {
+    console.log(`   ⏭️  "${meeting.title}" hasn't been processed yet — nothing to sync.`);
+    return undefined;
+  }
+  if (new Date(meeting.updatedAt) <= new Date(document.updatedAt)) return undefined;
+
+  // Same project, channel and profile as the first time round
+  const config = {
+    ...applyRoute(baseConfig, baseConfig.routes.find((r) => r.name === document.route)),
+    extractionProfile: profileOf(document.extraction),
+  };
+
+  console.log(`\n🔄 Notes changed: "${meeting.title}" (${meeting.id})`);
+  // A failed attempt at this same version left its progress behind; an older version's is stale
+  const previous = await getSyncCheckpoint(meeting.id);
+  const resumed = previous?.updatedAt === meeting.updatedAt ? previous : undefined;
+  let extraction = resumed?.extraction;
+  if (extraction) {
+    console.log("📊 Reusing the extraction from the previous attempt");
+  } else {
+    console.log("📊 Re-extracting...");
+    extraction = await extractMeetingData(config, meeting);
+  }
+  logExtraction(extraction);
+
+  const { delta, matches } = diffExtractions(config, document, extraction);
+  const checkpoint: SyncCheckpoint = resumed ?? {
+    updatedAt: meeting.updatedAt,
+    extraction,
+    tickets: matches.map((j) => (j === undefined ? null : document.tickets[j] ?? null)),
+    commented: [],
+    slackDone: false,
+  };
+  const { tickets } = checkpoint;
+  const save = () => saveSyncCheckpoint(meeting.id, checkpoint);
+
+  if (options.dryRun) {
+    console.log(JSON.stringify(delta, null, 2));
+    console.log("🧪 Dry run — nothing was filed, commented or posted.\n");
+    return delta;
+  }
+
+  await recordInterview(meeting, extraction);
+  const snapshot: SyncedDocument = { ...document, updatedAt: meeting.updatedAt, extraction, tickets };
+
+  if (isEmptyDelta(delta)) {
+    console.log("   No meaningful changes.\n");
+    await saveSyncedDocument(snapshot);
+    await clearSyncCheckpoint(meeting.id);
+    // The notes themselves still changed
+    await exportProcessedMeeting(config, meeting, extraction, tickets.filter((t): t is TicketResult => t !== null));
+    return delta;
+  }
+  await save();
+
+  const assignees = await resolvePeople(config, extraction);
+  const actionItemIds = config.actionTracking
+    ? await trackActionItems(config, meeting, extraction, assignees)
+    : undefined;
+  const proposing = config.approvalMode && delta.newTickets.length > 0;
+  const outcome: SyncOutcome = { filed: [], commented: [], proposed: proposing ? delta.newTickets.length : 0 };
+  const errors: unknown[] = [];
+
+  if (!proposing && delta.newTickets.length > 0) {
+    console.log(`🎫 Creating new tickets in ${describeTracker(config)}...`);
+    for (const ticket of delta.newTickets) {
+      const index = extraction.engineeringTickets.indexOf(ticket);
+      const earlier = tickets[index];
+      if (earlier) {
+        console.log(`  ♻️  Filed by a previous attempt: ${earlier.key}`);
+        outcome.filed.push(earlier);
+        continue;
+      }
+      try {
+        // The attempt that failed may have filed it without hearing back, so look first
+        const result = await fileTicket(config, ticket, meeting, assignees, { uncertain: resumed !== undefined });
+        tickets[index] = result;
+        outcome.filed.push(result);
+        await save();
+      } catch (err) {
+        console.error(`  ❌ Failed to create ticket "${ticket.summary}":`, err);
+        errors.push(err);
+      }
+    }
+  }
+
+  for (const { result, updated } of delta.changedTickets) {
+    if (!result) continue;
+    if (checkpoint.commented.includes(result.key)) {
+      outcome.commented.push(result);
+      continue;
+    }
+    try {
+      await commentOnTicket(config, result, updated, meeting, "updated");
+      console.log(`  💬 Commented on ${result.key}: description changed`);
+      outcome.commented.push(result);
+      checkpoint.commented.push(result.key);
+      await save();
+    } catch (err) {
+      console.error(`  ❌ Failed to comment on ${result.key}:`, err);
+      errors.push(err);
+    }
+  }
+
+  // The snapshot keeps the last version that went through, so the next pass picks this one up again
+  if (errors.length > 0) {
+    throw new Error(`Sync of "${meeting.title}" partly failed (${errors.length} ${describeTracker(config)} errors)`, {
+      cause: errors.find((err) => !isTransientError(err)) ?? errors[0],
+    });
+  }
+
+  // An approval message can't be rewritten as a summary, so those always get a thread reply
+  if (checkpoint.slackDone) {
+    console.log("💬 Slack was told by the previous attempt");
+  } else if (!document.slackTs) {
+    console.log("💬 The summary didn't go to Slack, so there's no thread to update");
+  } else if (config.syncSlackMode === "edit" && !config.approvalMode) {
+    console.log("💬 Updating the Slack summary...");
+    const filed = tickets.filter((t): t is TicketResult => t !== null);
+    const channelConfig = { ...config, slackChannelId: document.slackChannel };
+    await updateSlackSummary(channelConfig, document.slackTs, meeting, extraction, filed, assignees, actionItemIds);
+  } else {
+    console.log("💬 Replying in the Slack thread with what changed...");
+    await postSyncReply(config, document.slackChannel, document.slackTs, meeting, delta, outcome, assignees);
+  }
+  checkpoint.slackDone = true;
+  await save();
+
+  // Saved before proposing so approvals can link their issue keys to this version;
+  // put back if the proposal fails, so the next pass proposes again
+  await saveSyncedDocument(snapshot);
+  if (proposing) {
+    console.log("🗳️  Posting new tickets to Slack for approval...");
+    try {
+      await proposeTickets(config, meeting, { ...extraction, engineeringTickets: delta.newTickets }, assignees, actionItemIds);
+    } catch (err) {
+      await saveSyncedDocument(document);
+      throw err;
+    }
+  }
+  await clearSyncCheckpoint(meeting.id);
+  await exportProcessedMeeting(config, meeting, extraction, tickets.filter((t): t is TicketResult => t !== null));
+
+  console.log(`✅ Synced "${meeting.title}"\n`);
+  return delta;
+};
+
+/** Re-sync every processed meeting within the sync window whose notes changed. */
+export const syncChangedMeetings = async (
+  config: Config,
+  granola: GranolaClient,
+  options: { dryRun?: boolean } = {}
+): Promise<void> => {
+  const cutoff = Date.now() - config.syncWindowMs;
+  const docs = await granola.fetchDocuments(50);
+
+  for (const doc of docs) {
+    if (new Date(doc.created_at).getTime() < cutoff) continue;
+    const document = await getSyncedDocument(doc.id);
+    if (!document || new Date(doc.updated_at) <= new Date(document.updatedAt)) continue;
+
+    try {
+      await syncMeeting(config, await granola.fetchMeeting(doc), options);
+    } catch (err) {
+      console.error(`   ❌ Failed to sync "${doc.title}":`, err);
+    }
+  }
+};
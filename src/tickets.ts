@@ -0,0 +1,105 @@
+/**
+ * Filing tickets into the issue tracker a meeting was routed to, with
+ * duplicate detection on top of whichever tracker that is.
+ */
+import type { Config } from "./config.js";
+import type { AssigneeResolution, EngineeringTicket, MeetingData, TicketResult } from "./types.js";
+import { similarity } from "./similarity.js";
+import type { CommentReason, IssueRequest, IssueTracker } from "./tracker.js";
+import { createJiraTracker } from "./jira.js";
+import { createGitHubTracker } from "./tracker-github.js";
+import { createLinearTracker } from "./tracker-linear.js";
+
+export const createIssueTracker = (config: Config): IssueTracker => {
+  switch (config.issueTracker) {
+    case "jira":
+      return createJiraTracker(config);
+    case "github":
+      return createGitHubTracker(config);
+    case "linear":
+      return createLinearTracker(config);
+  }
+};
+
+/** Web link to an issue in the config's tracker. */
+export const issueUrl = (config: Config, key: string): string => createIssueTracker(config).issueUrl(key);
+
+/** The request that filing `ticket` would send, for dry-run previews. */
+export const buildIssuePreview = (
+  config: Config,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  assignees?: AssigneeResolution
+): Promise<IssueRequest> => createIssueTracker(config).buildCreateRequest(ticket, meeting, assignees);
+
+export const commentOnTicket = (
+  config: Config,
+  issue: Pick<TicketResult, "key" | "id">,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  reason: CommentReason = "duplicate"
+): Promise<void> => createIssueTracker(config).comment(issue, ticket, meeting, reason);
+
+/**
+ * File a ticket unless the tracker already has it. A match filed from this same
+ * meeting is skipped; a match from elsewhere gets the new context as a comment.
+ */
+const createOrDeduplicate = async (
+  config: Config,
+  tracker: IssueTracker,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  assignees: AssigneeResolution | undefined,
+  uncertain: boolean
+): Promise<TicketResult> => {
+  if (config.ticketDedupe || uncertain) {
+    const candidates = await tracker.findCandidates(ticket, meeting).catch((err) => {
+      // Creating anyway could file it a second time
+      if (uncertain) throw err;
+      console.warn(`  ⚠️  Duplicate search failed for "${ticket.summary}", creating anyway:`, err);
+      return [];
+    });
+
+    const [duplicate] = candidates
+      // With dedupe off, only look for the issue the earlier attempt may have filed
+      .filter((candidate) => config.ticketDedupe || candidate.sameMeeting)
+      .map((candidate) => ({ ...candidate, score: similarity(ticket.summary, candidate.summary) }))
+      .filter((candidate) => candidate.score >= config.ticketDuplicateThreshold)
+      .sort((a, b) => b.score - a.score);
+
+    if (duplicate) {
+      const base = { key: duplicate.key, id: duplicate.id, summary: duplicate.summary };
+      if (duplicate.sameMeeting) return { ...base, action: "skipped" };
+      await tracker.comment(duplicate, ticket, meeting, "duplicate");
+      return { ...base, action: "commented" };
+    }
+  }
+
+  return tracker.createIssue(ticket, meeting, assignees);
+};
+
+/**
+ * File (or deduplicate) one ticket and log the outcome. Throws if the tracker
+ * rejects it. `uncertain` marks a ticket an earlier attempt may have filed
+ * (OutcomeUnknownError): it's searched for first, even with dedupe off.
+ */
+export const fileTicket = async (
+  config: Config,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  assignees?: AssigneeResolution,
+  options: { uncertain?: boolean } = {}
+): Promise<TicketResult> => {
+  const result = await createOrDeduplicate(
+    config,
+    createIssueTracker(config),
+    ticket,
+    meeting,
+    assignees,
+    options.uncertain ?? false
+  );
+  if (result.action === "created") console.log(`  ✅ Created ${result.key}: ${result.summary}`);
+  if (result.action === "commented") console.log(`  💬 Commented on existing ${result.key}: ${result.summary}`);
+  if (result.action === "skipped") console.log(`  ⏭️  Already filed from this meeting: ${result.key}`);
+  return result;
+};
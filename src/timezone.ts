@@ -0,0 +1,133 @@
+/**
+ * Timezone helpers built on Intl — no tz database dependency.
+ *
+ * "Wall time" values are represented as a millisecond count built with
+ * Date.UTC(...) from the local clock fields, i.e. a naive timestamp that
+ * only becomes a real instant once paired with a time zone.
+ */
+
+// Windows zone names show up in Outlook/Exchange exports. Only the common ones.
+const WINDOWS_ZONES: Record<string, string> = {
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Mountain Standard Time": "America/Denver",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Central Standard Time": "America/Chicago",
+  "Eastern Standard Time": "America/New_York",
+  "Atlantic Standard Time": "America/Halifax",
+  "Alaskan Standard Time": "America/Anchorage",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Central European Standard Time": "Europe/Warsaw",
+  "Romance Standard Time": "Europe/Paris",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "FLE Standard Time": "Europe/Kiev",
+  "GTB Standard Time": "Europe/Bucharest",
+  "Russian Standard Time": "Europe/Moscow",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Singapore Standard Time": "Asia/Singapore",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "Korea Standard Time": "Asia/Seoul",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "New Zealand Standard Time": "Pacific/Auckland",
+  "UTC": "UTC",
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Map a TZID as found in the wild to an IANA zone Intl understands.
+ * Handles plain IANA names, Windows names and vendor-prefixed IDs such as
+ * "/mozilla.org/20050126_1/America/New_York". Returns undefined if unknown.
+ */
+export const resolveTimeZoneId = (tzid: string): string | undefined => {
+  const trimmed = tzid.trim().replace(/^"|"$/g, "");
+  if (isValidTimeZone(trimmed)) return trimmed;
+  if (WINDOWS_ZONES[trimmed]) return WINDOWS_ZONES[trimmed];
+
+  // Vendor prefixes: keep the trailing Area/Location part
+  const match = trimmed.match(/([A-Za-z_]+\/[A-Za-z_+\-]+(?:\/[A-Za-z_+\-]+)?)$/);
+  if (match && isValidTimeZone(match[1])) return match[1];
+
+  return undefined;
+};
+
+/** Wall-clock time of `date` in `timeZone`, as a naive timestamp. */
+export const toWallTime = (date: Date, timeZone?: string): number => {
+  if (!timeZone) {
+    return Date.UTC(
+      date.getFullYear(), date.getMonth(), date.getDate(),
+      date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+    );
+  }
+
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map((p) => [p.type, p.value])
+  );
+  return Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second), date.getMilliseconds()
+  );
+};
+
+/** Offset of `timeZone` from UTC at the given instant, in ms (east positive). */
+export const getTimeZoneOffsetMs = (date: Date, timeZone?: string): number =>
+  toWallTime(date, timeZone) - date.getTime();
+
+/**
+ * Convert a naive wall time to a real instant. Without a time zone the
+ * process-local zone is used (RFC 5545 "floating" time).
+ */
+export const fromWallTime = (wallTime: number, timeZone?: string): Date => {
+  if (!timeZone) {
+    const d = new Date(wallTime);
+    return new Date(
+      d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(),
+      d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds(), d.getUTCMilliseconds()
+    );
+  }
+
+  // Two passes so the offset used is the one in effect at the result,
+  // which matters on DST transition days.
+  const first = wallTime - getTimeZoneOffsetMs(new Date(wallTime), timeZone);
+  const second = wallTime - getTimeZoneOffsetMs(new Date(first), timeZone);
+  return new Date(second);
+};
+
+/** Start (inclusive) and end (exclusive) of the day containing `date`. */
+export const getDayRange = (date: Date, timeZone?: string): { start: Date; end: Date } => {
+  const wall = new Date(toWallTime(date, timeZone));
+  const startWall = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+  const endWall = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + 1);
+  return { start: fromWallTime(startWall, timeZone), end: fromWallTime(endWall, timeZone) };
+};
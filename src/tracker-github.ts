@@ -0,0 +1,166 @@
+/**
+ * GitHub Issues (REST API). The issue type and priority become labels,
+ * acceptance criteria a task list in the body, and every resolved assignee
+ * with a GitHub username is assigned. GitHub has no due date field, so the
+ * deadline stays in the body. Issues are keyed "org/repo#123".
+ */
+import type { Config } from "./config.js";
+import type { AssigneeResolution, EngineeringTicket, MeetingData, TicketResult } from "./types.js";
+import { HttpError, request } from "./http.js";
+import {
+  assigneeIds,
+  describeTracker,
+  formatMarkdownComment,
+  formatMarkdownDescription,
+  searchKeywords,
+  sourceLabel,
+  type IssueCandidate,
+  type IssueRequest,
+  type IssueTracker,
+} from "./tracker.js";
+
+interface GitHubIssue {
+  number: number;
+  id: number;
+  title: string;
+  labels: Array<string | { name?: string }>;
+  /** Set on pull requests, which the issues API also returns */
+  pull_request?: object;
+}
+
+const githubFetch = async (config: Config, path: string, options: RequestInit = {}): Promise<Response> =>
+  request("github", `${config.githubApiUrl}${path}`, {
+    ...options,
+    headers: {
+      Authorization: `Bearer ${config.githubToken}`,
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+
+const readJson = async <T>(response: Response, what: string): Promise<T> => {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError("github", response.status, `GitHub ${what} error (${response.status}): ${error}`);
+  }
+  return (await response.json()) as T;
+};
+
+// "https://api.github.com" → "https://github.com"; Enterprise Server "https://host/api/v3" → "https://host"
+const webUrl = (apiUrl: string): string =>
+  apiUrl === "https://api.github.com" ? "https://github.com" : apiUrl.replace(/\/api\/v3\/?$/, "");
+
+// "org/repo#123" → ["org/repo", "123"]
+const parseKey = (key: string): [string, string] => {
+  const separator = key.lastIndexOf("#");
+  return [key.slice(0, separator), key.slice(separator + 1)];
+};
+
+const toCandidate = (repo: string, issue: GitHubIssue, sameMeeting: boolean): IssueCandidate => ({
+  key: `${repo}#${issue.number}`,
+  id: String(issue.id),
+  summary: issue.title,
+  sameMeeting,
+});
+
+const labelsOf = (ticket: EngineeringTicket, meeting: MeetingData): string[] => [
+  ticket.issueType.toLowerCase(),
+  `priority: ${ticket.priority.toLowerCase()}`,
+  sourceLabel(meeting.id),
+];
+
+export const createGitHubTracker = (config: Config): IssueTracker => {
+  const repo = config.githubRepo!;
+
+  const buildCreateRequest = async (
+    ticket: EngineeringTicket,
+    meeting: MeetingData,
+    assignees?: AssigneeResolution
+  ): Promise<IssueRequest> => {
+    const logins = assigneeIds(ticket, assignees, (person) => person.githubUsername);
+    return {
+      method: "POST",
+      url: `${config.githubApiUrl}/repos/${repo}/issues`,
+      body: {
+        title: ticket.summary,
+        body: formatMarkdownDescription(config, ticket, meeting),
+        // Missing labels are created on the fly
+        labels: labelsOf(ticket, meeting),
+        ...(logins.length > 0 ? { assignees: logins } : {}),
+      },
+    };
+  };
+
+  const createIssue = async (
+    ticket: EngineeringTicket,
+    meeting: MeetingData,
+    assignees?: AssigneeResolution
+  ): Promise<TicketResult> => {
+    const { body } = await buildCreateRequest(ticket, meeting, assignees);
+    const response = await githubFetch(config, `/repos/${repo}/issues`, { method: "POST", body: JSON.stringify(body) });
+    const issue = await readJson<GitHubIssue>(response, "API");
+    return { key: `${repo}#${issue.number}`, id: String(issue.id), summary: ticket.summary, action: "created" };
+  };
+
+  const searchIssues = async (query: string): Promise<GitHubIssue[]> => {
+    const response = await githubFetch(config, `/search/issues?q=${encodeURIComponent(query)}&per_page=20`);
+    const data = await readJson<{ items?: GitHubIssue[] }>(response, "search");
+    return (data.items ?? []).filter((issue) => !issue.pull_request);
+  };
+
+  const findCandidates = async (ticket: EngineeringTicket, meeting: MeetingData): Promise<IssueCandidate[]> => {
+    const label = sourceLabel(meeting.id);
+    const keywords = searchKeywords(ticket).join(" ");
+
+    const [fromMeeting, similar] = await Promise.all([
+      searchIssues(`repo:${repo} is:issue label:"${label}"`),
+      keywords ? searchIssues(`repo:${repo} is:issue is:open in:title ${keywords}`) : Promise.resolve([]),
+    ]);
+
+    const hasLabel = (issue: GitHubIssue) =>
+      issue.labels.some((l) => (typeof l === "string" ? l : l.name) === label);
+    return [
+      ...fromMeeting.map((issue) => toCandidate(repo, issue, true)),
+      ...similar.map((issue) => toCandidate(repo, issue, hasLabel(issue))),
+    ];
+  };
+
+  return {
+    name: describeTracker(config),
+    issueUrl: (key) => {
+      const [keyRepo, number] = parseKey(key);
+      return `${webUrl(config.githubApiUrl)}/${keyRepo}/issues/${number}`;
+    },
+    buildCreateRequest,
+    createIssue,
+    findCandidates,
+    comment: async (issue, ticket, meeting, reason) => {
+      const [keyRepo, number] = parseKey(issue.key);
+      const response = await githubFetch(config, `/repos/${keyRepo}/issues/${number}/comments`, {
+        method: "POST",
+        body: JSON.stringify({ body: formatMarkdownComment(config, ticket, meeting, reason) }),
+      });
+      await readJson(response, "API");
+    },
+    validate: async () => {
+      const response = await githubFetch(config, `/repos/${repo}`);
+      const data = await readJson<{ has_issues: boolean; permissions?: { push?: boolean } }>(
+        response,
+        `repository ${repo}`
+      );
+      const problems = [
+        ...(data.has_issues ? [] : ["issues are disabled for the repository"]),
+        // Every meeting gets a label of its own, and only write access can create labels;
+        // with triage access they'd be silently dropped, and duplicate detection with them
+        ...(data.permissions && !data.permissions.push
+          ? ["the token can't create labels (needs write access)"]
+          : []),
+      ];
+      if (problems.length > 0) {
+        throw new Error(`GitHub repository ${repo} can't take tickets:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+      }
+    },
+  };
+};
@@ -0,0 +1,220 @@
+/**
+ * Linear (GraphQL API). Priorities map onto Linear's Urgent–Low scale, the
+ * issue type onto a team label of the same name when the team has one,
+ * acceptance criteria onto a checklist, and deadlines onto the due date.
+ * Linear labels must exist up front, so the Granola doc an issue came from
+ * is marked in its description instead.
+ */
+import type { Config } from "./config.js";
+import type { AssigneeResolution, EngineeringTicket, MeetingData, TicketResult } from "./types.js";
+import { HttpError, request } from "./http.js";
+import {
+  assigneeIds,
+  describeTracker,
+  dueDateOf,
+  formatMarkdownComment,
+  formatMarkdownDescription,
+  searchKeywords,
+  sourceLabel,
+  type IssueCandidate,
+  type IssueRequest,
+  type IssueTracker,
+} from "./tracker.js";
+
+const LINEAR_API_URL = "https://api.linear.app/graphql";
+
+// Linear: 1 Urgent, 2 High, 3 Medium, 4 Low (0 is "no priority")
+const PRIORITIES: Record<EngineeringTicket["priority"], number> = {
+  Highest: 1,
+  High: 2,
+  Medium: 3,
+  Low: 4,
+  Lowest: 4,
+};
+
+// Team labels that stand for each issue type, tried in order
+const TYPE_LABELS: Record<EngineeringTicket["issueType"], string[]> = {
+  Bug: ["Bug"],
+  Story: ["Story", "Feature"],
+  Task: ["Task"],
+  Spike: ["Spike", "Research"],
+  Insight: ["Product Insight", "Insight"],
+};
+
+interface LinearTeam {
+  id: string;
+  key: string;
+  labels: { nodes: Array<{ id: string; name: string }> };
+}
+
+interface LinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string | null;
+}
+
+const graphql = async <T>(config: Config, query: string, variables: Record<string, unknown>): Promise<T> => {
+  const response = await request("linear", LINEAR_API_URL, {
+    method: "POST",
+    headers: { Authorization: config.linearApiKey!, "Content-Type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+  }, { retryUnsafe: !query.trimStart().startsWith("mutation") });
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError("linear", response.status, `Linear API error (${response.status}): ${error}`);
+  }
+
+  // GraphQL reports failures (validation, permissions) with a 200
+  const result = (await response.json()) as { data?: T; errors?: Array<{ message: string }> };
+  if (result.errors?.length || !result.data) {
+    const messages = result.errors?.map((e) => e.message).join("; ") ?? "no data";
+    throw new HttpError("linear", 400, `Linear API error: ${messages}`);
+  }
+  return result.data;
+};
+
+// Team IDs and labels rarely change — cache them for the life of the process
+const teamCache = new Map<string, Promise<LinearTeam>>();
+
+const findTeam = (config: Config): Promise<LinearTeam> => {
+  const key = config.linearTeam!;
+  if (!teamCache.has(key)) {
+    const lookup = graphql<{ teams: { nodes: LinearTeam[] } }>(
+      config,
+      `query Team($key: String!) {
+        teams(filter: { key: { eq: $key } }) { nodes { id key labels(first: 250) { nodes { id name } } } }
+      }`,
+      { key }
+    ).then(({ teams }) => {
+      if (!teams.nodes[0]) throw new Error(`Linear team "${key}" not found. Check LINEAR_TEAM.`);
+      return teams.nodes[0];
+    });
+    // A failed lookup is tried again next time
+    lookup.catch(() => teamCache.delete(key));
+    teamCache.set(key, lookup);
+  }
+  return teamCache.get(key)!;
+};
+
+const typeLabelId = (team: LinearTeam, ticket: EngineeringTicket): string | undefined =>
+  TYPE_LABELS[ticket.issueType]
+    .map((name) => team.labels.nodes.find((label) => label.name.toLowerCase() === name.toLowerCase()))
+    .find(Boolean)?.id;
+
+// Last line of every description, so issues from a meeting can be found again
+const sourceMarker = (meeting: MeetingData): string => `Filed from Granola meeting "${meeting.title}" (${sourceLabel(meeting.id)})`;
+
+const toCandidate = (meeting: MeetingData, issue: LinearIssue): IssueCandidate => ({
+  key: issue.identifier,
+  id: issue.id,
+  summary: issue.title,
+  sameMeeting: issue.description?.includes(sourceLabel(meeting.id)) ?? false,
+});
+
+const ISSUE_CREATE = `mutation IssueCreate($input: IssueCreateInput!) {
+  issueCreate(input: $input) { success issue { id identifier title } }
+}`;
+
+export const createLinearTracker = (config: Config): IssueTracker => {
+  const buildCreateRequest = async (
+    ticket: EngineeringTicket,
+    meeting: MeetingData,
+    assignees?: AssigneeResolution
+  ): Promise<IssueRequest> => {
+    const team = await findTeam(config);
+    const labelId = typeLabelId(team, ticket);
+    // Linear takes a single assignee
+    const [assigneeId] = assigneeIds(ticket, assignees, (person) => person.linearUserId);
+    const due = dueDateOf(config, ticket, meeting);
+
+    return {
+      method: "POST",
+      url: LINEAR_API_URL,
+      body: {
+        query: ISSUE_CREATE,
+        variables: {
+          input: {
+            teamId: team.id,
+            title: ticket.summary,
+            description: `${formatMarkdownDescription(config, ticket, meeting)}\n\n---\n\n_${sourceMarker(meeting)}_`,
+            priority: PRIORITIES[ticket.priority],
+            ...(labelId ? { labelIds: [labelId] } : {}),
+            ...(assigneeId ? { assigneeId } : {}),
+            ...(due?.date ? { dueDate: due.date } : {}),
+          },
+        },
+      },
+    };
+  };
+
+  const createIssue = async (
+    ticket: EngineeringTicket,
+    meeting: MeetingData,
+    assignees?: AssigneeResolution
+  ): Promise<TicketResult> => {
+    const { body } = await buildCreateRequest(ticket, meeting, assignees);
+    const { variables } = body as { variables: Record<string, unknown> };
+    const { issueCreate } = await graphql<{ issueCreate: { success: boolean; issue?: LinearIssue } }>(
+      config,
+      ISSUE_CREATE,
+      variables
+    );
+    if (!issueCreate.success || !issueCreate.issue) {
+      throw new HttpError("linear", 400, `Linear didn't create "${ticket.summary}"`);
+    }
+    return { key: issueCreate.issue.identifier, id: issueCreate.issue.id, summary: ticket.summary, action: "created" };
+  };
+
+  const findCandidates = async (ticket: EngineeringTicket, meeting: MeetingData): Promise<IssueCandidate[]> => {
+    const team = await findTeam(config);
+    const keywords = searchKeywords(ticket).join(" ");
+
+    const [fromMeeting, similar] = await Promise.all([
+      graphql<{ issues: { nodes: LinearIssue[] } }>(
+        config,
+        `query FromMeeting($teamId: ID!, $marker: String!) {
+          issues(first: 20, filter: { team: { id: { eq: $teamId } }, description: { contains: $marker } }) {
+            nodes { id identifier title description }
+          }
+        }`,
+        { teamId: team.id, marker: sourceLabel(meeting.id) }
+      ),
+      keywords
+        ? graphql<{ searchIssues: { nodes: LinearIssue[] } }>(
+            config,
+            `query Similar($term: String!, $teamId: ID!) {
+              searchIssues(term: $term, first: 20, filter: {
+                team: { id: { eq: $teamId } }, state: { type: { nin: ["completed", "canceled"] } }
+              }) { nodes { id identifier title description } }
+            }`,
+            { term: keywords, teamId: team.id }
+          )
+        : Promise.resolve({ searchIssues: { nodes: [] } }),
+    ]);
+
+    return [
+      ...fromMeeting.issues.nodes.map((issue) => ({ ...toCandidate(meeting, issue), sameMeeting: true })),
+      ...similar.searchIssues.nodes.map((issue) => toCandidate(meeting, issue)),
+    ];
+  };
+
+  return {
+    name: describeTracker(config),
+    issueUrl: (key) => `https://linear.app/${config.linearWorkspace}/issue/${key}`,
+    buildCreateRequest,
+    createIssue,
+    findCandidates,
+    comment: async (issue, ticket, meeting, reason) => {
+      await graphql(
+        config,
+        `mutation Comment($input: CommentCreateInput!) { commentCreate(input: $input) { success } }`,
+        { input: { issueId: issue.id, body: formatMarkdownComment(config, ticket, meeting, reason) } }
+      );
+    },
+    // Throws when the team doesn't exist or the key can't see it
+    validate: async () => {
+      await findTeam(config);
+    },
+  };
+};
@@ -0,0 +1,125 @@
+/**
+ * Issue trackers. Each one files an extracted ticket, lists the issues it
+ * might duplicate, and comments on an existing issue — so the pipeline files
+ * into JIRA, GitHub Issues or Linear the same way. ISSUE_TRACKER picks the
+ * default; a route can pick another.
+ */
+import type { Config } from "./config.js";
+import type { AssigneeResolution, EngineeringTicket, MeetingData, ResolvedPerson, TicketResult } from "./types.js";
+import { splitAssignees } from "./people.js";
+import { tokenize } from "./similarity.js";
+import { resolveDueDate, type DueDate } from "./due-dates.js";
+
+export const ISSUE_TRACKERS = ["jira", "github", "linear"] as const;
+export type IssueTrackerKind = (typeof ISSUE_TRACKERS)[number];
+
+/** An issue already in the tracker that a new ticket may repeat. */
+export interface IssueCandidate {
+  key: string;
+  id: string;
+  summary: string;
+  /** Filed from the same Granola doc (e.g. by an earlier attempt) */
+  sameMeeting: boolean;
+}
+
+/** A request exactly as the tracker would receive it, for dry-run previews. */
+export interface IssueRequest {
+  method: "POST";
+  url: string;
+  body: object;
+}
+
+export interface IssueTracker {
+  /** Tracker and project, for logs and messages, e.g. "GitHub org/repo" */
+  name: string;
+  /** Web link to an issue by its key */
+  issueUrl: (key: string) => string;
+  /** The request `createIssue` sends for a ticket */
+  buildCreateRequest: (ticket: EngineeringTicket, meeting: MeetingData, assignees?: AssigneeResolution) => Promise<IssueRequest>;
+  createIssue: (ticket: EngineeringTicket, meeting: MeetingData, assignees?: AssigneeResolution) => Promise<TicketResult>;
+  /** Open issues with a summary like the ticket's, and any issue filed from this meeting */
+  findCandidates: (ticket: EngineeringTicket, meeting: MeetingData) => Promise<IssueCandidate[]>;
+  comment: (issue: Pick<TicketResult, "key" | "id">, ticket: EngineeringTicket, meeting: MeetingData, reason: CommentReason) => Promise<void>;
+  /** Check the project exists and accepts the tickets this route files. Throws listing every problem. */
+  validate: () => Promise<void>;
+}
+
+/** The tracker and project a config files into, e.g. "JIRA ENG (Platform)". */
+export const describeTracker = (config: Config): string => {
+  switch (config.issueTracker) {
+    case "jira":
+      return `JIRA ${config.jiraProjectKey}${config.jiraPod ? ` (${config.jiraPod})` : ""}`;
+    case "github":
+      return `GitHub ${config.githubRepo}`;
+    case "linear":
+      return `Linear ${config.linearTeam}`;
+  }
+};
+
+// ── Shared between trackers ────────────────────────────────────────
+
+// Ties an issue to the Granola doc it was filed from, so re-runs can find it
+export const sourceLabel = (meetingId: string): string => `granola-${meetingId}`;
+
+/** Up to 8 distinct words from the summary, to search for similar issues with. */
+export const searchKeywords = (ticket: EngineeringTicket): string[] => [...new Set(tokenize(ticket.summary))].slice(0, 8);
+
+export const dueDateOf = (config: Config, ticket: EngineeringTicket, meeting: MeetingData): DueDate | undefined =>
+  ticket.dueDate ? resolveDueDate(config, ticket.dueDate, meeting) : undefined;
+
+/** The resolved IDs of the ticket's assignees, as `pick` finds them, skipping anyone unresolved. */
+export const assigneeIds = (
+  ticket: EngineeringTicket,
+  assignees: AssigneeResolution | undefined,
+  pick: (person: ResolvedPerson) => string | undefined
+): string[] =>
+  ticket.assignee
+    ? splitAssignees(ticket.assignee).flatMap((name) => {
+        const person = assignees?.people[name];
+        const id = person ? pick(person) : undefined;
+        return id ? [id] : [];
+      })
+    : [];
+
+// The phrase as said, next to the date it was read as
+export const describeDueDate = (due: DueDate): string =>
+  due.date
+    ? `Deadline mentioned in meeting: "${due.text}"${due.text === due.date ? "" : ` (${due.date})`}`
+    : `Deadline mentioned in meeting: "${due.text}" (not a recognizable date, so no due date was set)`;
+
+/**
+ * duplicate — the ticket came up again (possibly in another meeting)
+ * updated   — the meeting notes were edited and the ticket's description changed
+ */
+export type CommentReason = "duplicate" | "updated";
+
+export const COMMENT_LEADS: Record<CommentReason, string> = {
+  duplicate: "Raised again in ",
+  updated: "Updated in the notes of ",
+};
+
+export const formatMeetingDate = (meeting: MeetingData): string =>
+  new Date(meeting.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+/** Issue body in Markdown (GitHub, Linear): acceptance criteria become a checklist. */
+export const formatMarkdownDescription = (config: Config, ticket: EngineeringTicket, meeting: MeetingData): string => {
+  const due = dueDateOf(config, ticket, meeting);
+  return [
+    ticket.description,
+    ...(ticket.acceptanceCriteria?.length
+      ? [`### Acceptance Criteria\n\n${ticket.acceptanceCriteria.map((ac) => `- [ ] ${ac}`).join("\n")}`]
+      : []),
+    // Keep the name Claude heard even when it maps to an account
+    ...(ticket.assignee ? [`Owner mentioned in meeting: ${ticket.assignee}`] : []),
+    ...(due ? [describeDueDate(due)] : []),
+  ].join("\n\n");
+};
+
+export const formatMarkdownComment = (
+  config: Config,
+  ticket: EngineeringTicket,
+  meeting: MeetingData,
+  reason: CommentReason
+): string =>
+  `${COMMENT_LEADS[reason]}**${meeting.title}** (${formatMeetingDate(meeting)}) as "${ticket.summary}":\n\n` +
+  formatMarkdownDescription(config, ticket, meeting);
@@ -0,0 +1,143 @@
+/**
+ * Speaker attribution. Granola only records which audio source an utterance
+ * came from — the note taker's microphone or the system audio (everyone else
+ * on the call) — so names come from the document's people and calendar
+ * metadata: the microphone is the note taker, and the system audio is the
+ * other attendee when there's exactly one.
+ */
+import type {
+  GranolaDocument,
+  GranolaPerson,
+  GranolaTranscriptUtterance,
+  MeetingAttendee,
+  SpeakerStats,
+  TranscriptSegment,
+} from "./types.js";
+import type { CalendarAttendee } from "./calendar.js";
+
+/** Label for the system audio when several other people attended. */
+export const GROUP_SPEAKER = "Others";
+
+// Same-source utterances further apart than this start a new turn
+const MAX_TURN_GAP_MS = 60_000;
+// Keep turns small enough to chunk long meetings by time
+const MAX_TURN_CHARS = 2000;
+
+// ── Attendees ──────────────────────────────────────────────────────
+
+const nameFromEmail = (email: string): string => email.split("@")[0];
+
+const granolaPersonName = (person: GranolaPerson): string | undefined =>
+  person.details?.person?.name?.fullName ?? person.name ?? undefined;
+
+/**
+ * Everyone known to have been in the meeting, note taker first, deduplicated
+ * by email. Calendar attendees who declined are left out.
+ */
+export const collectAttendees = (
+  doc: GranolaDocument,
+  calendarAttendees: CalendarAttendee[] = []
+): MeetingAttendee[] => {
+  const attendees: MeetingAttendee[] = [];
+
+  const add = (name: string | undefined, email: string | undefined, isNoteTaker = false) => {
+    const key = email?.toLowerCase();
+    const existing = key ? attendees.find((a) => a.email?.toLowerCase() === key) : undefined;
+    if (existing) {
+      // A later source may know the real name where an earlier one only had the email
+      if (name && existing.name === nameFromEmail(existing.email ?? "")) existing.name = name;
+      existing.isNoteTaker ||= isNoteTaker;
+      return;
+    }
+    const resolved = name ?? (email ? nameFromEmail(email) : undefined);
+    if (resolved) attendees.push({ name: resolved, email, isNoteTaker });
+  };
+
+  const creator = doc.people?.creator;
+  if (creator) add(granolaPersonName(creator), creator.email, true);
+  for (const person of doc.people?.attendees ?? []) add(granolaPersonName(person), person.email);
+
+  for (const guest of doc.google_calendar_event?.attendees ?? []) {
+    if (guest.responseStatus === "declined") continue;
+    add(guest.displayName, guest.email, guest.self === true);
+  }
+
+  for (const guest of calendarAttendees) {
+    if (guest.status?.toUpperCase() === "DECLINED") continue;
+    add(guest.name, guest.email);
+  }
+
+  return attendees;
+};
+
+const speakerLabels = (attendees: MeetingAttendee[]): Record<GranolaTranscriptUtterance["source"], string> => {
+  const noteTaker = attendees.find((a) => a.isNoteTaker);
+  const others = attendees.filter((a) => !a.isNoteTaker);
+  return {
+    microphone: noteTaker?.name ?? "You",
+    system: others.length === 1 ? others[0].name : GROUP_SPEAKER,
+  };
+};
+
+// ── Turns ──────────────────────────────────────────────────────────
+
+const formatClock = (iso: string): string =>
+  new Date(iso).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+
+const durationMs = (u: GranolaTranscriptUtterance): number =>
+  Math.max(0, new Date(u.end_timestamp).getTime() - new Date(u.start_timestamp).getTime());
+
+/**
+ * Turn utterances into named speaker turns: low-confidence fragments are
+ * dropped and consecutive utterances from the same source are joined.
+ * Also returns talk time per speaker, largest first.
+ */
+export const buildTranscript = (
+  utterances: GranolaTranscriptUtterance[],
+  attendees: MeetingAttendee[],
+  minConfidence: number
+): { segments: TranscriptSegment[]; speakerStats: SpeakerStats[] } => {
+  const labels = speakerLabels(attendees);
+  const kept = utterances.filter((u) => u.text.trim() && (u.confidence ?? 1) >= minConfidence);
+
+  const turns: Array<{ source: GranolaTranscriptUtterance["source"]; start: string; end: string; text: string }> = [];
+  const stats = new Map<string, SpeakerStats>();
+
+  for (const u of kept) {
+    const last = turns[turns.length - 1];
+    const continues =
+      last?.source === u.source &&
+      new Date(u.start_timestamp).getTime() - new Date(last.end).getTime() <= MAX_TURN_GAP_MS &&
+      last.text.length + u.text.length <= MAX_TURN_CHARS;
+
+    const speaker = labels[u.source];
+    const stat = stats.get(speaker) ?? { speaker, talkTimeMs: 0, turns: 0, share: 0 };
+    stat.talkTimeMs += durationMs(u);
+    stats.set(speaker, stat);
+
+    if (continues) {
+      last.end = u.end_timestamp;
+      last.text += ` ${u.text.trim()}`;
+    } else {
+      stat.turns++;
+      turns.push({ source: u.source, start: u.start_timestamp, end: u.end_timestamp, text: u.text.trim() });
+    }
+  }
+
+  const total = [...stats.values()].reduce((sum, s) => sum + s.talkTimeMs, 0);
+  const speakerStats = [...stats.values()]
+    .map((s) => ({ ...s, share: total > 0 ? s.talkTimeMs / total : 0 }))
+    .sort((a, b) => b.talkTimeMs - a.talkTimeMs);
+
+  const segments = turns.map((turn) => ({
+    start: turn.start,
+    end: turn.end,
+    text: `[${formatClock(turn.start)}] ${labels[turn.source]}: ${turn.text}`,
+  }));
+
+  return { segments, speakerStats };
+};
+
+/** e.g. "Alice 62% · Bob 38%" */
+export const describeSpeakerStats = (stats: SpeakerStats[]): string =>
+  stats.map((s) => `${s.speaker} ${Math.round(s.share * 100)}%`).join(" · ");
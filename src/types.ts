@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { NotifierKind, NotifierRequest } from "./notifier.js";
 
 // ── Granola API response types ─────────────────────────────────────
 
@@ -18,6 +19,19 @@ export interface GranolaDocument {
   last_viewed_panel?: {
     content?: GranolaProseMirrorNode;
   };
+  people?: {
+    creator?: GranolaPerson;
+    attendees?: GranolaPerson[];
+  };
+  google_calendar_event?: {
+    attendees?: Array<{ email?: string; displayName?: string; self?: boolean; responseStatus?: string }>;
+  };
+}
+
+export interface GranolaPerson {
+  name?: string;
+  email?: string;
+  details?: { person?: { name?: { fullName?: string } } };
 }
 
 export interface GranolaTranscriptUtterance {
@@ -25,57 +39,165 @@ export interface GranolaTranscriptUtterance {
   text: string;
   start_timestamp: string;
   end_timestamp: string;
-  confidence: number;
+  confidence?: number;
 }
 
 // ── Normalized meeting data (what we feed to Claude) ───────────────
 
+/** One transcript line with its time span (ISO timestamps). */
+export interface TranscriptSegment {
+  start: string;
+  end: string;
+  text: string;
+}
+
+export interface MeetingAttendee {
+  name: string;
+  email?: string;
+  /** The Granola user — their microphone is the "microphone" source */
+  isNoteTaker: boolean;
+}
+
+export interface SpeakerStats {
+  speaker: string;
+  talkTimeMs: number;
+  turns: number;
+  /** Fraction of all talk time, 0–1 */
+  share: number;
+}
+
 export interface MeetingData {
   id: string;
   title: string;
   createdAt: string;
   updatedAt: string;
+  workspaceId?: string;
   notesMarkdown: string;
   transcript: string;
+  /** The transcript turn by turn, for splitting long meetings by time */
+  transcriptSegments: TranscriptSegment[];
+  attendees: MeetingAttendee[];
+  speakerStats: SpeakerStats[];
 }
 
-// ── Claude extraction output ───────────────────────────────────────
+// ── Extraction output ──────────────────────────────────────────────
+
+// Field descriptions become the extraction tool's input schema (see json-schema.ts)
 
 export const actionItemSchema = z.object({
-  description: z.string(),
-  assignee: z.string().nullish(),
-  dueDate: z.string().nullish(),
+  description: z.string().describe("What needs to be done"),
+  assignee: z.string().nullish().describe("Who is responsible"),
+  dueDate: z.string().nullish().describe("Any mentioned deadline, as said, e.g. \"next Friday\" or \"end of sprint\""),
   priority: z.enum(["High", "Medium", "Low"]).default("Medium"),
 });
 
+export const ENGINEERING_ISSUE_TYPES = ["Bug", "Story", "Task", "Spike"] as const;
+// "Insight" is filed from customer interviews as a Product Insight (a label outside JIRA)
+export const ISSUE_TYPES = [...ENGINEERING_ISSUE_TYPES, "Insight"] as const;
+
 export const engineeringTicketSchema = z.object({
-  summary: z.string(),
-  description: z.string(),
-  issueType: z.enum(["Bug", "Story", "Task", "Spike"]).default("Task"),
+  summary: z.string().describe("Ticket title, concise and descriptive"),
+  description: z.string().describe("Detailed description with context from the meeting"),
+  issueType: z.enum(ISSUE_TYPES).default("Task"),
   priority: z.enum(["Highest", "High", "Medium", "Low", "Lowest"]).default("Medium"),
-  acceptanceCriteria: z.array(z.string()).nullish(),
+  acceptanceCriteria: z.array(z.string()).nullish().describe("Testable acceptance criteria"),
   assignee: z.string().nullish(),
+  dueDate: z.string().nullish().describe("Any mentioned deadline, as said, e.g. \"next Friday\" or \"end of sprint\""),
+});
+
+export const interviewInsightsSchema = z.object({
+  interviewee: z.object({
+    name: z.string().nullish(),
+    role: z.string().nullish().describe("Job title or role"),
+    company: z.string().nullish(),
+    segment: z.string().describe("Customer segment, e.g. \"mid-market fintech, ops admin\""),
+  }),
+  sentiment: z.enum(["Positive", "Neutral", "Mixed", "Negative"]).describe("Overall sentiment toward the product"),
+  painPoints: z.array(
+    z.object({
+      description: z.string(),
+      severity: z.enum(["High", "Medium", "Low"]).default("Medium"),
+    })
+  ),
+  featureRequests: z.array(
+    z.object({
+      description: z.string(),
+      rationale: z.string().nullish().describe("Why they want it, in their terms"),
+    })
+  ),
+  jobsToBeDone: z.array(z.string()).describe("\"When …, I want to …, so I can …\""),
+  quotes: z.array(
+    z.object({
+      text: z.string().describe("Verbatim from the transcript"),
+      speaker: z.string(),
+      timestamp: z.string().describe("Time on the transcript line, e.g. \"10:42 AM\""),
+    })
+  ),
 });
 
+/** Every extraction, whatever the profile. Stored, merged and re-validated against this. */
 export const meetingExtractionSchema = z.object({
-  meetingSummary: z.string(),
-  keyDecisions: z.array(z.string()),
+  meetingSummary: z.string().describe("2-3 sentence summary of the meeting"),
+  keyDecisions: z.array(z.string()).describe("Decisions that were made"),
   actionItems: z.array(actionItemSchema),
   engineeringTickets: z.array(engineeringTicketSchema),
-  followUps: z.array(z.string()),
+  followUps: z.array(z.string()).describe("Items to revisit or discuss later"),
+  interview: interviewInsightsSchema.optional(),
+});
+
+// What each profile's model is asked for — narrower than the stored shape
+
+export const engineeringExtractionSchema = meetingExtractionSchema.omit({ interview: true }).extend({
+  engineeringTickets: z.array(
+    engineeringTicketSchema.extend({ issueType: z.enum(ENGINEERING_ISSUE_TYPES).default("Task") })
+  ),
+});
+
+export const interviewExtractionSchema = meetingExtractionSchema.extend({
+  engineeringTickets: z
+    .array(engineeringTicketSchema.extend({ issueType: z.enum(["Insight"]).default("Insight") }))
+    .describe("Product Insight issues: one per distinct feature request or significant pain point"),
+  interview: interviewInsightsSchema,
 });
 
 export type ActionItem = z.infer<typeof actionItemSchema>;
 export type EngineeringTicket = z.infer<typeof engineeringTicketSchema>;
+export type InterviewInsights = z.infer<typeof interviewInsightsSchema>;
 export type MeetingExtraction = z.infer<typeof meetingExtractionSchema>;
 
-// ── JIRA response ──────────────────────────────────────────────────
+// ── People ─────────────────────────────────────────────────────────
 
-export interface JiraTicketResult {
+export interface ResolvedPerson {
+  name: string;
+  email?: string;
+  jiraAccountId?: string;
+  githubUsername?: string;
+  linearUserId?: string;
+  slackUserId?: string;
+}
+
+export interface AssigneeResolution {
+  /** Keyed by the individual assignee name as extracted (see splitAssignees) */
+  people: Record<string, ResolvedPerson>;
+  /** Names that matched no one — reported rather than dropped */
+  unresolved: string[];
+}
+
+// ── Issue tracker response ─────────────────────────────────────────
+
+/**
+ * created   — a new issue was filed
+ * commented — a likely duplicate already existed, so it got a comment instead
+ * skipped   — this meeting already filed the same ticket (e.g. a re-run)
+ */
+export type TicketAction = "created" | "commented" | "skipped";
+
+export interface TicketResult {
+  /** How the tracker names the issue: "ENG-123" (JIRA, Linear) or "org/repo#123" (GitHub) */
   key: string;
   id: string;
-  self: string;
   summary: string;
+  action: TicketAction;
 }
 
 // ── Pipeline result ────────────────────────────────────────────────
@@ -84,6 +206,78 @@ export interface PipelineResult {
   meetingId: string;
   meetingTitle: string;
   extraction: MeetingExtraction;
-  jiraTickets: JiraTicketResult[];
-  slackMessageTs: string;
+  tickets: TicketResult[];
+  /** Unset when the summary didn't go to Slack */
+  slackMessageTs?: string;
+  /** Notifiers the summary went to */
+  notified: NotifierKind[];
+  unresolvedAssignees: string[];
+  /** Set in approval mode: tickets await review in Slack instead of being filed */
+  proposalId?: string;
+}
+
+// ── Re-sync ────────────────────────────────────────────────────────
+
+/** A ticket from the last synced extraction, with its tracker result if it was filed. */
+export interface SyncedTicketRef {
+  ticket: EngineeringTicket;
+  result: TicketResult | null;
+}
+
+/** What changed in a meeting's extraction since it was last synced. */
+export interface ExtractionDelta {
+  newTickets: EngineeringTicket[];
+  /** Matched an earlier ticket, but the description or acceptance criteria changed */
+  changedTickets: Array<SyncedTicketRef & { updated: EngineeringTicket }>;
+  removedTickets: SyncedTicketRef[];
+  newActionItems: ActionItem[];
+  newDecisions: string[];
+  newFollowUps: string[];
+  summaryChanged: boolean;
+}
+
+// ── Digest ─────────────────────────────────────────────────────────
+
+/** What the model writes in its one pass over a period's meetings (see digest.ts). */
+export const digestSummarySchema = z.object({
+  overview: z.string().describe("3-5 sentences on the period as a whole: main threads of work, progress and risks"),
+  keyDecisions: z
+    .array(z.string())
+    .describe("The decisions that matter most, merged across meetings, each ending with the meeting title in parentheses"),
+});
+
+export type DigestSummary = z.infer<typeof digestSummarySchema>;
+
+export interface DigestActionItem extends ActionItem {
+  meetingTitle: string;
+}
+
+/** Every meeting processed in [since, until), aggregated for one Slack message. */
+export interface Digest {
+  /** Slack channel it goes to: the digest channel, or the channel of the routes that set their own */
+  channel: string;
+  since: Date;
+  until: Date;
+  meetingTitles: string[];
+  /** Missing when the summarization pass failed */
+  overview?: string;
+  keyDecisions: string[];
+  /** Action items by assignee, unassigned last */
+  actionItems: Array<{ assignee: string; items: DigestActionItem[] }>;
+  ticketsCreated: Array<{ key: string; summary?: string; url: string; meetingTitle: string }>;
+  /** Follow-ups raised in more than one meeting */
+  recurringFollowUps: Array<{ followUp: string; meetingTitles: string[] }>;
+}
+
+// ── Dry-run preview ────────────────────────────────────────────────
+
+export interface DryRunPreview {
+  meetingId: string;
+  meetingTitle: string;
+  extraction: MeetingExtraction;
+  assignees: AssigneeResolution;
+  /** Requests to the meeting's issue tracker, one per ticket */
+  issueRequests: Array<{ method: "POST"; url: string; body: object }>;
+  /** What each of the meeting's notifiers would be sent */
+  notifierRequests: NotifierRequest[];
 }